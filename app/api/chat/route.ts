@@ -1,12 +1,10 @@
 import { createOpenAI } from "@ai-sdk/openai";
-import {
-  streamText,
-  convertToModelMessages,
-  type UIMessage,
-} from "ai";
+import { streamText, convertToModelMessages, type UIMessage } from "ai";
+import { DEFAULT_MODEL } from "@/lib/models";
 
 export async function POST(req: Request) {
-  const { messages }: { messages: UIMessage[] } = await req.json();
+  const { messages, model }: { messages: UIMessage[]; model?: string } =
+    await req.json();
 
   const authHeader = req.headers.get("authorization") ?? "";
   const token = authHeader.replace(/^Bearer\s+/i, "").trim() || "none";
@@ -17,7 +15,7 @@ export async function POST(req: Request) {
   });
 
   const result = streamText({
-    model: llm7.chat("gpt-5-nano"),
+    model: llm7.chat(model || DEFAULT_MODEL),
     messages: convertToModelMessages(messages),
     providerOptions: {
       openai: {
@@ -1,7 +1,6 @@
 "use client";
 
 import { AssistantRuntimeProvider } from "@assistant-ui/react";
-import { useChatRuntime } from "@assistant-ui/react-ai-sdk";
 import { Thread } from "@/components/assistant-ui/thread";
 import {
   SidebarInset,
@@ -18,14 +17,43 @@ import {
 } from "@/components/ui/breadcrumb";
 import { API_TOKEN_KEY, getStoredToken } from "@/lib/auth";
 import { useAssistantApi, useAssistantState } from "@assistant-ui/react";
-import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import {
   BrowserChatTransport,
   type TransportErrorInfo,
 } from "@/lib/browser-chat-transport";
+import { defaultBrowserTools } from "@/lib/browser-tools";
+import { createAttachmentAdapter } from "@/lib/attachment-adapters";
+import { getThreadModel } from "@/lib/model-store";
+import { getContextSettings } from "@/lib/context-store";
+import { getSystemPrompt } from "@/lib/instructions-store";
+import { supportsTools, toRequestBody } from "@/lib/generation-params";
+import { getThreadParams } from "@/lib/params-store";
+import { getThreadProvider, useThreadProvider } from "@/lib/provider-store";
+import { getProviderHeaders, isLLM7Provider } from "@/lib/providers";
+import { getImageMode, getImageOptions } from "@/lib/image-mode-store";
+import { useLLM7ChatRuntime } from "@/lib/chat-runtime";
+import { installMockBackend, isMockBackend } from "@/lib/mock-backend";
+import { ModelPicker } from "@/components/assistant-ui/model-picker";
+import { ProviderPicker } from "@/components/assistant-ui/provider-picker";
+import { ThreadUsage } from "@/components/assistant-ui/message-usage";
+import { ContextStrategyMenu } from "@/components/assistant-ui/context-indicator";
+import { ThreadPromptButton } from "@/components/assistant-ui/instructions-dialog";
+import { ParametersPanel } from "@/components/assistant-ui/parameters-panel";
+import { ExportThreadMenu } from "@/components/assistant-ui/thread-export-menu";
+import { Button } from "@/components/ui/button";
+import { DownloadIcon } from "lucide-react";
 
 const CHAT_NAME_URL = "https://api.llm7.io/get-chat-name";
 
+if (isMockBackend()) installMockBackend();
+
 const useStoredToken = (key: string) =>
   useSyncExternalStore(
     (onChange) => {
@@ -42,7 +70,8 @@ const useStoredToken = (key: string) =>
   );
 
 export const Assistant = () => {
-  const [transportError, setTransportError] = useState<TransportErrorInfo | null>(null);
+  const [transportError, setTransportError] =
+    useState<TransportErrorInfo | null>(null);
   const apiToken = useStoredToken(API_TOKEN_KEY);
 
   const transport = useMemo(
@@ -54,13 +83,40 @@ export const Assistant = () => {
           if (token) headers.Authorization = `Bearer ${token}`;
           return headers;
         },
+        endpoint: (chatId) => {
+          const provider = getThreadProvider(chatId);
+          return isLLM7Provider(provider)
+            ? { baseUrl: provider.baseUrl, llm7: true }
+            : {
+                baseUrl: provider.baseUrl,
+                name: provider.name,
+                headers: getProviderHeaders(provider),
+                llm7: false,
+              };
+        },
+        model: (chatId) => getThreadModel(chatId),
+        imageMode: (chatId) => getImageMode(chatId),
+        imageOptions: getImageOptions,
+        systemPrompt: (chatId) => getSystemPrompt(chatId),
+        context: (chatId) => getContextSettings(chatId),
+        body: (chatId) =>
+          toRequestBody(getThreadParams(chatId), {
+            model: getThreadModel(chatId),
+            llm7: isLLM7Provider(getThreadProvider(chatId)),
+          }),
+        tools: defaultBrowserTools,
+        supportsTools: (chatId, model) =>
+          supportsTools(model, getThreadProvider(chatId)),
         onError: (info) => setTransportError(info),
       }),
     [],
   );
 
-  const runtime = useChatRuntime({
+  const attachmentAdapter = useMemo(() => createAttachmentAdapter(), []);
+
+  const runtime = useLLM7ChatRuntime({
     transport,
+    adapters: { attachments: attachmentAdapter },
   });
 
   useEffect(() => {
@@ -91,6 +147,7 @@ export const Assistant = () => {
 };
 
 const AssistantHeader = () => {
+  const mainThreadId = useAssistantState(({ threads }) => threads.mainThreadId);
   const threadTitle =
     useAssistantState(({ threads }) => {
       const mainId = threads.mainThreadId;
@@ -116,6 +173,23 @@ const AssistantHeader = () => {
         </BreadcrumbList>
       </Breadcrumb>
       <div className="flex-1" />
+      <ThreadUsage />
+      <ExportThreadMenu threadId={mainThreadId}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="aui-thread-export-trigger size-8 text-muted-foreground"
+          aria-label="Export chat"
+          title="Export chat"
+        >
+          <DownloadIcon />
+        </Button>
+      </ExportThreadMenu>
+      <ThreadPromptButton />
+      <ParametersPanel />
+      <ContextStrategyMenu />
+      <ProviderPicker />
+      <ModelPicker />
       <a
         href="https://docs.llm7.io/quickstart"
         target="_blank"
@@ -127,21 +201,45 @@ const AssistantHeader = () => {
   );
 };
 
+const fetchChatName = async (userText: string, apiToken: string) => {
+  const response = await fetch(
+    `${CHAT_NAME_URL}?user_input=${encodeURIComponent(userText)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${apiToken}`,
+      },
+    },
+  );
+
+  if (!response.ok) return "";
+  const data = (await response.json()) as { chat_name?: string };
+  return typeof data.chat_name === "string" ? data.chat_name.trim() : "";
+};
+
+/**
+ * Title from the first line of the prompt, for providers without the LLM7
+ * chat naming service.
+ */
+const localChatName = (userText: string) => {
+  const line = userText.split("\n")[0].trim();
+  return line.length > 40 ? `${line.slice(0, 40).trimEnd()}…` : line;
+};
+
 const ChatTitleManager = () => {
   const api = useAssistantApi();
   const apiToken = useStoredToken(API_TOKEN_KEY) || "none";
-  const mainThreadId = useAssistantState(
-    ({ threads }) => threads.mainThreadId,
-  );
+  const mainThreadId = useAssistantState(({ threads }) => threads.mainThreadId);
   const currentTitle =
     useAssistantState(({ threads }) => {
-      const title =
-        threads.threadItems.find((t) => t.id === threads.mainThreadId)?.title;
+      const title = threads.threadItems.find(
+        (t) => t.id === threads.mainThreadId,
+      )?.title;
       return title ?? "";
     }) ?? "";
   const firstUserMessage = useAssistantState(({ thread }) =>
     thread.messages.find((m) => m.role === "user"),
   );
+  const provider = useThreadProvider(mainThreadId);
 
   const attempted = useRef(new Set<string>());
 
@@ -178,20 +276,9 @@ const ChatTitleManager = () => {
         if (state.status === "new") {
           await itemApi.initialize();
         }
-        const response = await fetch(
-          `${CHAT_NAME_URL}?user_input=${encodeURIComponent(userText)}`,
-          {
-            headers: {
-              Authorization: `Bearer ${apiToken}`,
-            },
-          },
-        );
-
-        if (!response.ok) return;
-        const data = (await response.json()) as { chat_name?: string };
-        const chatName = typeof data.chat_name === "string"
-          ? data.chat_name.trim()
-          : "";
+        const chatName = isLLM7Provider(provider)
+          ? await fetchChatName(userText, apiToken)
+          : localChatName(userText);
         if (!chatName) return;
 
         await itemApi.rename(chatName);
@@ -202,7 +289,7 @@ const ChatTitleManager = () => {
     };
 
     run();
-  }, [api, apiToken, currentTitle, firstUserMessage, mainThreadId]);
+  }, [api, apiToken, currentTitle, firstUserMessage, mainThreadId, provider]);
 
   return null;
 };
@@ -1,6 +1,12 @@
 "use client";
 
-import { PropsWithChildren, useEffect, useState, type FC } from "react";
+import {
+  PropsWithChildren,
+  useEffect,
+  useMemo,
+  useState,
+  type FC,
+} from "react";
 import Image from "next/image";
 import { XIcon, PlusIcon, FileText } from "lucide-react";
 import {
@@ -25,6 +31,7 @@ import {
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
 import { cn } from "@/lib/utils";
+import { dataURLToText } from "@/lib/attachment-adapters";
 
 const useFileSrc = (file: File | undefined) => {
   const [src, setSrc] = useState<string | undefined>(undefined);
@@ -61,6 +68,22 @@ const useAttachmentSrc = () => {
   return useFileSrc(file) ?? src;
 };
 
+/**
+ * Text that was actually sent for a document attachment (file contents or
+ * text extracted from a PDF). Only available once the attachment is sent.
+ */
+const useAttachmentText = () => {
+  const data = useAssistantState(({ attachment }) => {
+    if (attachment.type === "image") return undefined;
+    const part = attachment.content?.find((c) => c.type === "file");
+    if (!part || part.type !== "file") return undefined;
+    if (!part.mimeType.startsWith("text/")) return undefined;
+    return part.data;
+  });
+
+  return useMemo(() => (data ? dataURLToText(data) : undefined), [data]);
+};
+
 type AttachmentPreviewProps = {
   src: string;
 };
@@ -84,8 +107,43 @@ const AttachmentPreview: FC<AttachmentPreviewProps> = ({ src }) => {
   );
 };
 
+const AttachmentTextPreviewDialog: FC<PropsWithChildren<{ text: string }>> = ({
+  text,
+  children,
+}) => {
+  const name = useAssistantState(({ attachment }) => attachment.name);
+
+  return (
+    <Dialog>
+      <DialogTrigger
+        className="aui-attachment-preview-trigger cursor-pointer transition-colors hover:bg-accent/50"
+        asChild
+      >
+        {children}
+      </DialogTrigger>
+      <DialogContent className="aui-attachment-text-preview-dialog-content sm:max-w-3xl">
+        <DialogTitle className="aui-attachment-text-preview-title truncate pr-6 text-sm">
+          {name}
+        </DialogTitle>
+        <pre className="aui-attachment-text-preview max-h-[70dvh] overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">
+          {text}
+        </pre>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 const AttachmentPreviewDialog: FC<PropsWithChildren> = ({ children }) => {
   const src = useAttachmentSrc();
+  const text = useAttachmentText();
+
+  if (!src && text !== undefined) {
+    return (
+      <AttachmentTextPreviewDialog text={text}>
+        {children}
+      </AttachmentTextPreviewDialog>
+    );
+  }
 
   if (!src) return children;
 
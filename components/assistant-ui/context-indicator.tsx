@@ -0,0 +1,127 @@
+"use client";
+
+import type { FC } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import { EyeOffIcon, LayersIcon, PinIcon, PinOffIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { useContextOmission } from "@/hooks/use-message-metadata";
+import {
+  useContextStore,
+  useContextStrategy,
+  useIsPinned,
+} from "@/lib/context-store";
+import { CONTEXT_STRATEGIES, type ContextStrategy } from "@/lib/context-window";
+import { cn } from "@/lib/utils";
+
+/**
+ * Shown on messages that the latest request left out to fit the model's
+ * context window.
+ */
+export const ContextOmissionNotice: FC<{ className?: string }> = ({
+  className,
+}) => {
+  const omission = useContextOmission();
+  if (!omission) return null;
+
+  return (
+    <div
+      className={cn(
+        "aui-context-omission-notice flex items-center gap-1 text-xs text-muted-foreground",
+        className,
+      )}
+    >
+      <EyeOffIcon className="size-3.5" />
+      {omission === "summarized"
+        ? "Sent as a summary to fit the context window"
+        : "Not sent to the model to fit the context window"}
+    </div>
+  );
+};
+
+/**
+ * Pin or unpin the current message. Only shown with the `keep-pinned`
+ * strategy, the only one that reads pins.
+ */
+export const PinMessageButton: FC<{ className?: string }> = ({ className }) => {
+  const strategy = useContextStrategy();
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const messageId = useAssistantState(({ message }) => message.id);
+  const pinned = useIsPinned(threadId, messageId);
+  const togglePinned = useContextStore((state) => state.togglePinned);
+
+  if (strategy !== "keep-pinned") return null;
+
+  return (
+    <TooltipIconButton
+      tooltip={pinned ? "Unpin" : "Always send to the model"}
+      className={className}
+      aria-pressed={pinned}
+      onClick={() => togglePinned(threadId, messageId)}
+    >
+      {pinned ? <PinOffIcon /> : <PinIcon />}
+    </TooltipIconButton>
+  );
+};
+
+/**
+ * Header menu to pick what happens when a thread outgrows the context
+ * window.
+ */
+export const ContextStrategyMenu: FC = () => {
+  const strategy = useContextStrategy();
+  const setStrategy = useContextStore((state) => state.setStrategy);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="aui-context-strategy-trigger size-8 text-muted-foreground"
+          aria-label="Context window settings"
+        >
+          <LayersIcon />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="aui-context-strategy-content w-72"
+      >
+        <DropdownMenuLabel>
+          When a chat exceeds the context window
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={strategy}
+          onValueChange={(value) => setStrategy(value as ContextStrategy)}
+        >
+          {CONTEXT_STRATEGIES.map((option) => (
+            <DropdownMenuRadioItem
+              key={option.id}
+              value={option.id}
+              className="items-start"
+            >
+              <div className="flex flex-col">
+                <span>{option.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {option.description}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
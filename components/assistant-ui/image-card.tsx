@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, type FC } from "react";
+import Image from "next/image";
+import { useAssistantState } from "@assistant-ui/react";
+import {
+  CheckIcon,
+  DownloadIcon,
+  HashIcon,
+  RefreshCwIcon,
+  SparklesIcon,
+} from "lucide-react";
+
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useMessageImages,
+  useMessageMetadata,
+} from "@/hooks/use-message-metadata";
+import { regenerateImage, requestImageVariations } from "@/lib/chat-runtime";
+import { getAspectLabel } from "@/lib/image-options";
+
+const parseSize = (size: string) => {
+  const [width, height] = size.split("x").map((n) => Number.parseInt(n, 10));
+  return width > 0 && height > 0
+    ? { width, height }
+    : { width: 1024, height: 1024 };
+};
+
+const extensionFor = (mediaType: string) =>
+  mediaType.split("/")[1]?.replace("jpeg", "jpg").split("+")[0] || "png";
+
+/**
+ * Save an image. Remote images are fetched first so the browser downloads
+ * rather than navigates; if that is blocked (CORS) the image opens instead.
+ */
+const downloadImage = async (url: string, filename: string) => {
+  let href = url;
+  let objectUrl: string | undefined;
+  if (!url.startsWith("data:")) {
+    try {
+      const res = await fetch(url);
+      objectUrl = URL.createObjectURL(await res.blob());
+      href = objectUrl;
+    } catch {
+      window.open(url, "_blank", "noopener,noreferrer");
+      return;
+    }
+  }
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+};
+
+/**
+ * Images generated for the current assistant message, with placeholders
+ * while they are still being generated.
+ */
+export const GeneratedImages: FC = () => {
+  const images = useMessageImages();
+  const metadata = useMessageMetadata();
+  const isRunning = useAssistantState(
+    ({ message }) => message.status?.type === "running",
+  );
+
+  const generation = metadata?.imageGeneration;
+  if (!generation && images.length === 0) return null;
+
+  const { width, height } = parseSize(generation?.size ?? "1024x1024");
+  const pending =
+    isRunning && generation ? Math.max(0, generation.count - images.length) : 0;
+
+  return (
+    <div className="aui-generated-images my-2 grid gap-3 sm:grid-cols-2">
+      {images.map((image, index) => (
+        <ImageCard
+          key={image.url}
+          url={image.url}
+          mediaType={image.mediaType}
+          width={width}
+          height={height}
+          seed={generation?.seeds?.[index]}
+        />
+      ))}
+      {Array.from({ length: pending }, (_, index) => (
+        <Skeleton
+          key={`pending-${index}`}
+          className="aui-generated-image-placeholder w-full rounded-xl"
+          style={{ aspectRatio: `${width} / ${height}` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const ImageCard: FC<{
+  url: string;
+  mediaType: string;
+  width: number;
+  height: number;
+  seed?: number;
+}> = ({ url, mediaType, width, height, seed }) => {
+  const metadata = useMessageMetadata();
+  const messageId = useAssistantState(({ message }) => message.id);
+  const isLast = useAssistantState(({ message }) => message.isLast);
+  const isRunning = useAssistantState(({ thread }) => thread.isRunning);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const [copied, setCopied] = useState(false);
+
+  const generation = metadata?.imageGeneration;
+  const trigger = metadata?.imageRequest?.trigger ?? "command";
+  const canRerun = !isRunning && generation !== undefined;
+
+  const copySeed = async () => {
+    if (seed === undefined) return;
+    await navigator.clipboard.writeText(String(seed));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <figure className="aui-image-card group/image relative overflow-hidden rounded-xl border bg-muted/30">
+      <Image
+        src={url}
+        alt={generation?.prompt ?? "Generated image"}
+        width={width}
+        height={height}
+        unoptimized
+        className="aui-image-card-image block h-auto w-full"
+      />
+      <figcaption className="aui-image-card-caption flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground">
+        <span className="flex-1 truncate">
+          {generation
+            ? `${generation.model} · ${getAspectLabel(generation.size)}`
+            : "Generated image"}
+          {seed !== undefined ? ` · seed ${seed}` : ""}
+        </span>
+        <TooltipIconButton
+          tooltip="Download"
+          onClick={() =>
+            void downloadImage(
+              url,
+              `image-${seed ?? Date.now()}.${extensionFor(mediaType)}`,
+            )
+          }
+        >
+          <DownloadIcon />
+        </TooltipIconButton>
+        {seed !== undefined ? (
+          <TooltipIconButton
+            tooltip="Copy seed"
+            onClick={() => void copySeed()}
+          >
+            {copied ? <CheckIcon /> : <HashIcon />}
+          </TooltipIconButton>
+        ) : null}
+        {canRerun && isLast && seed !== undefined ? (
+          <TooltipIconButton
+            tooltip="Regenerate with same seed"
+            onClick={() =>
+              void regenerateImage(threadId, messageId, seed, trigger)
+            }
+          >
+            <RefreshCwIcon />
+          </TooltipIconButton>
+        ) : null}
+        {canRerun && generation ? (
+          <TooltipIconButton
+            tooltip="Variations"
+            onClick={() =>
+              void requestImageVariations(threadId, generation.prompt)
+            }
+          >
+            <SparklesIcon />
+          </TooltipIconButton>
+        ) : null}
+      </figcaption>
+    </figure>
+  );
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import type { FC } from "react";
+import { SlidersHorizontalIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { useSubscriptionTier } from "@/lib/account-state";
+import { useImageModeStore } from "@/lib/image-mode-store";
+import {
+  getAspectLabel,
+  IMAGE_MODELS,
+  IMAGE_SIZES,
+  MAX_IMAGE_COUNT,
+  NOLOGO_MIN_TIER,
+  randomSeed,
+} from "@/lib/image-options";
+
+/**
+ * Model, size, count, seed and watermark options for image requests.
+ */
+export const ImageOptionsMenu: FC = () => {
+  const options = useImageModeStore((state) => state.options);
+  const setImageOptions = useImageModeStore((state) => state.setImageOptions);
+  const sub = useSubscriptionTier();
+  const canRemoveLogo = sub !== undefined && sub >= NOLOGO_MIN_TIER;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="aui-image-options-trigger h-[34px] rounded-full px-2.5 text-xs text-muted-foreground"
+          aria-label="Image options"
+        >
+          <SlidersHorizontalIcon />
+          {options.model} · {getAspectLabel(options.size)}
+          {options.count > 1 ? ` · ×${options.count}` : ""}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="aui-image-options-content w-64"
+      >
+        <DropdownMenuLabel>Model</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={options.model}
+          onValueChange={(model) => setImageOptions({ model })}
+        >
+          {IMAGE_MODELS.map((model) => (
+            <DropdownMenuRadioItem key={model.id} value={model.id}>
+              <span className="flex-1">{model.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {model.description}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Size</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={options.size}
+          onValueChange={(size) => setImageOptions({ size })}
+        >
+          {IMAGE_SIZES.map((preset) => (
+            <DropdownMenuRadioItem key={preset.size} value={preset.size}>
+              <span className="flex-1">{preset.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {preset.aspect}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Images per request</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(options.count)}
+          onValueChange={(count) => setImageOptions({ count: Number(count) })}
+          className="grid grid-cols-4"
+        >
+          {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => String(i + 1)).map(
+            (count) => (
+              <DropdownMenuRadioItem key={count} value={count}>
+                {count}
+              </DropdownMenuRadioItem>
+            ),
+          )}
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={options.seed !== undefined}
+          onCheckedChange={(fixed) =>
+            setImageOptions({
+              seed: fixed ? (options.seed ?? randomSeed()) : undefined,
+            })
+          }
+          onSelect={(event) => event.preventDefault()}
+        >
+          Fixed seed
+        </DropdownMenuCheckboxItem>
+        {options.seed !== undefined ? (
+          <div className="px-2 pb-1.5">
+            <Input
+              type="number"
+              min={0}
+              value={options.seed}
+              aria-label="Seed"
+              className="h-8"
+              // Keep typing from triggering the menu's typeahead.
+              onKeyDown={(event) => event.stopPropagation()}
+              onChange={(event) => {
+                const seed = Number.parseInt(event.target.value, 10);
+                if (Number.isFinite(seed) && seed >= 0)
+                  setImageOptions({ seed });
+              }}
+            />
+          </div>
+        ) : null}
+        <DropdownMenuCheckboxItem
+          checked={options.nologo && canRemoveLogo}
+          disabled={!canRemoveLogo}
+          onCheckedChange={(nologo) => setImageOptions({ nologo })}
+          onSelect={(event) => event.preventDefault()}
+        >
+          <div className="flex flex-col">
+            <span>Remove watermark</span>
+            {!canRemoveLogo ? (
+              <span className="text-xs text-muted-foreground">
+                Vibe or Pro plan
+              </span>
+            ) : null}
+          </div>
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, type FC } from "react";
+import { useAssistantRuntime } from "@assistant-ui/react";
+import { UploadIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { importThreads, type ImportReport } from "@/lib/thread-import";
+
+type ImportState =
+  | { status: "idle" }
+  | { status: "importing" }
+  | { status: "done"; report: ImportReport }
+  | { status: "error"; message: string };
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Sidebar entry to import chats from a JSON file: this app's export,
+ * ChatGPT's `conversations.json` or OpenAI messages.
+ */
+export const ImportChatsButton: FC = () => {
+  const runtime = useAssistantRuntime();
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<ImportState>({ status: "idle" });
+
+  const runImport = async (file: File) => {
+    setState({ status: "importing" });
+    try {
+      const report = await importThreads(file);
+      // The thread list only loads stored threads once; switching to a thread
+      // it doesn't know fetches and adds it. Each one is detached again once
+      // the next is open, ending on the most recent.
+      let previous: string | undefined;
+      for (const threadId of report.threadIds) {
+        await runtime.threads.switchToThread(threadId);
+        if (previous) runtime.threads.getItemById(previous).detach();
+        previous = threadId;
+      }
+      setState({ status: "done", report });
+    } catch (err) {
+      setState({
+        status: "error",
+        message: err instanceof Error ? err.message : "Import failed.",
+      });
+    }
+  };
+
+  return (
+    <>
+      <SidebarMenuButton
+        onClick={() => {
+          setState({ status: "idle" });
+          setOpen(true);
+        }}
+      >
+        <UploadIcon />
+        <span>Import chats</span>
+      </SidebarMenuButton>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="aui-import-dialog sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import chats</DialogTitle>
+            <DialogDescription>
+              A JSON export from this app, ChatGPT&apos;s conversations.json or
+              an array of OpenAI chat messages. Chats imported before are
+              skipped.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            type="file"
+            accept="application/json,.json"
+            disabled={state.status === "importing"}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void runImport(file);
+              event.target.value = "";
+            }}
+          />
+
+          {state.status === "importing" ? (
+            <p className="text-sm text-muted-foreground">Importing…</p>
+          ) : null}
+          {state.status === "error" ? (
+            <p className="text-sm text-destructive">{state.message}</p>
+          ) : null}
+          {state.status === "done" ? (
+            <ImportSummary report={state.report} />
+          ) : null}
+
+          <DialogFooter>
+            <Button type="button" onClick={() => setOpen(false)}>
+              {state.status === "done" ? "Done" : "Cancel"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const ImportSummary: FC<{ report: ImportReport }> = ({ report }) => (
+  <div className="flex flex-col gap-2 rounded-lg border bg-muted/40 p-3 text-sm">
+    <div>
+      Read as {report.format}: imported {plural(report.imported, "chat")}
+      {report.duplicates > 0
+        ? `, skipped ${plural(report.duplicates, "chat")} imported before`
+        : ""}
+      .
+    </div>
+    {report.imported > 1 ? (
+      <div className="text-xs text-muted-foreground">
+        The most recent one is open; the rest are in the chat list.
+      </div>
+    ) : null}
+    {report.skipped.length > 0 ? (
+      <div className="text-xs text-muted-foreground">
+        <div className="font-medium text-foreground">Not imported</div>
+        <ul className="mt-1 list-disc pl-4">
+          {report.skipped.map(({ reason, count }) => (
+            <li key={reason}>
+              {count} × {reason}
+            </li>
+          ))}
+        </ul>
+      </div>
+    ) : null}
+  </div>
+);
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState, type FC } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import { ScrollTextIcon, UserCogIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useInstructionsStore,
+  useThreadPrompt,
+  type CustomInstructions,
+} from "@/lib/instructions-store";
+import { cn } from "@/lib/utils";
+
+/**
+ * Header button to edit the current thread's system prompt.
+ */
+export const ThreadPromptButton: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const prompt = useThreadPrompt(threadId);
+  const setThreadPrompt = useInstructionsStore(
+    (state) => state.setThreadPrompt,
+  );
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "aui-thread-prompt-trigger relative size-8 text-muted-foreground",
+          prompt && "text-foreground",
+        )}
+        aria-label="System prompt"
+        title={prompt ? "System prompt (set)" : "System prompt"}
+        onClick={() => setOpen(true)}
+      >
+        <ScrollTextIcon />
+        {prompt ? (
+          <span className="absolute top-1 right-1 size-1.5 rounded-full bg-primary" />
+        ) : null}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="aui-thread-prompt-dialog sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>System prompt</DialogTitle>
+            <DialogDescription>
+              Sent before every message in this chat, ahead of your custom
+              instructions.
+            </DialogDescription>
+          </DialogHeader>
+          <ThreadPromptForm
+            initial={prompt}
+            onCancel={() => setOpen(false)}
+            onSave={(next) => {
+              setThreadPrompt(threadId, next);
+              setOpen(false);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const ThreadPromptForm: FC<{
+  initial: string;
+  onSave: (prompt: string) => void;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(initial);
+
+  return (
+    <form
+      className="aui-thread-prompt-form flex flex-col gap-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave(draft.trim());
+      }}
+    >
+      <Textarea
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        placeholder="You are a concise assistant that answers in German."
+        className="max-h-[50vh] min-h-32"
+        autoFocus
+      />
+      <DialogFooter>
+        {initial ? (
+          <Button
+            type="button"
+            variant="ghost"
+            className="mr-auto"
+            onClick={() => onSave("")}
+          >
+            Clear
+          </Button>
+        ) : null}
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+/**
+ * Sidebar entry for the custom instructions sent with every chat.
+ */
+export const CustomInstructionsButton: FC = () => {
+  const instructions = useInstructionsStore((state) => state.instructions);
+  const setInstructions = useInstructionsStore(
+    (state) => state.setInstructions,
+  );
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <SidebarMenuButton onClick={() => setOpen(true)}>
+        <UserCogIcon />
+        <span>Custom instructions</span>
+      </SidebarMenuButton>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="aui-custom-instructions-dialog sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Custom instructions</DialogTitle>
+            <DialogDescription>
+              Added to every chat. Stored in this browser only.
+            </DialogDescription>
+          </DialogHeader>
+          <CustomInstructionsForm
+            initial={instructions}
+            onCancel={() => setOpen(false)}
+            onSave={(next) => {
+              setInstructions(next);
+              setOpen(false);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const CustomInstructionsForm: FC<{
+  initial: CustomInstructions;
+  onSave: (instructions: CustomInstructions) => void;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(initial);
+
+  return (
+    <form
+      className="aui-custom-instructions-form flex flex-col gap-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave({
+          ...draft,
+          aboutMe: draft.aboutMe.trim(),
+          howToRespond: draft.howToRespond.trim(),
+        });
+      }}
+    >
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="font-medium">
+          What should the assistant know about you?
+        </span>
+        <Textarea
+          value={draft.aboutMe}
+          onChange={(event) =>
+            setDraft({ ...draft, aboutMe: event.target.value })
+          }
+          placeholder="I'm a backend developer working mostly in Go."
+          className="max-h-[30vh]"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="font-medium">How should it respond?</span>
+        <Textarea
+          value={draft.howToRespond}
+          onChange={(event) =>
+            setDraft({ ...draft, howToRespond: event.target.value })
+          }
+          placeholder="Be brief. Use code examples where they help."
+          className="max-h-[30vh]"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(event) =>
+            setDraft({ ...draft, enabled: event.target.checked })
+          }
+        />
+        Use in new and existing chats
+      </label>
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </DialogFooter>
+    </form>
+  );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import type { FC } from "react";
+import { GaugeIcon } from "lucide-react";
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  useMessageMetadata,
+  useThreadUsage,
+} from "@/hooks/use-message-metadata";
+import type { TokenUsage } from "@/lib/browser-chat-transport";
+
+const formatTokens = (count: number) =>
+  count >= 10_000
+    ? `${Math.round(count / 1000)}k`
+    : count >= 1000
+      ? `${(count / 1000).toFixed(1)}k`
+      : String(count);
+
+const formatDuration = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const formatParameters = (parameters: Record<string, unknown>) =>
+  Object.entries(parameters)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+
+const UsageBreakdown: FC<{ usage: TokenUsage }> = ({ usage }) => (
+  <>
+    <div>Prompt: {usage.promptTokens.toLocaleString()} tokens</div>
+    <div>Completion: {usage.completionTokens.toLocaleString()} tokens</div>
+    {usage.reasoningTokens ? (
+      <div>
+        of which reasoning: {usage.reasoningTokens.toLocaleString()} tokens
+      </div>
+    ) : null}
+    <div>Total: {usage.totalTokens.toLocaleString()} tokens</div>
+  </>
+);
+
+/**
+ * Token counts and latency of the current assistant message, shown in its
+ * footer, with the model and parameters it was generated with. Renders
+ * nothing until the response has finished.
+ */
+export const MessageUsage: FC = () => {
+  const metadata = useMessageMetadata();
+  const usage = metadata?.usage;
+  const latency = metadata?.latency;
+  const parameters = metadata?.parameters;
+
+  if (!usage && !latency) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="aui-message-usage flex cursor-default items-center gap-2 px-2 text-xs text-muted-foreground tabular-nums">
+          {usage ? (
+            <span>
+              {formatTokens(usage.promptTokens)} in ·{" "}
+              {formatTokens(usage.completionTokens)} out
+            </span>
+          ) : null}
+          {latency ? <span>{formatDuration(latency.totalMs)}</span> : null}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="text-xs">
+        {usage ? (
+          <UsageBreakdown usage={usage} />
+        ) : (
+          <div>No usage reported</div>
+        )}
+        {latency?.firstTokenMs !== undefined ? (
+          <div>First token: {formatDuration(latency.firstTokenMs)}</div>
+        ) : null}
+        {latency ? (
+          <div>Total time: {formatDuration(latency.totalMs)}</div>
+        ) : null}
+        {metadata?.model ? (
+          <div className="mt-1">Model: {metadata.model}</div>
+        ) : null}
+        {parameters && Object.keys(parameters).length > 0 ? (
+          <div className="max-w-64 break-words">
+            Parameters: {formatParameters(parameters)}
+          </div>
+        ) : null}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+/**
+ * Running token total of the current thread, for the header.
+ */
+export const ThreadUsage: FC = () => {
+  const usage = useThreadUsage();
+
+  if (!usage) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="aui-thread-usage flex cursor-default items-center gap-1 text-xs text-muted-foreground tabular-nums">
+          <GaugeIcon className="size-3.5" />
+          {formatTokens(usage.totalTokens)} tokens
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="text-xs">
+        <UsageBreakdown usage={usage} />
+      </TooltipContent>
+    </Tooltip>
+  );
+};
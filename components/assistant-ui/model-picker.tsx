@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState, type FC } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import { ChevronDownIcon, CpuIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getSubscriptionTier, useSubscriptionTier } from "@/lib/account-state";
+import { useModelStore, useThreadModel } from "@/lib/model-store";
+import {
+  fetchModels,
+  getModelRestriction,
+  rememberModels,
+  TIER_NAMES,
+  type ModelInfo,
+} from "@/lib/models";
+import { useThreadProvider } from "@/lib/provider-store";
+import {
+  getProviderHeaders,
+  isLLM7Provider,
+  type ProviderProfile,
+} from "@/lib/providers";
+
+const modelsRequests = new Map<string, Promise<ModelInfo[]>>();
+
+/**
+ * Load a provider's model list once per page; failures are retried on next
+ * mount.
+ */
+const loadModels = (provider: ProviderProfile) => {
+  const key = `${provider.id}:${provider.baseUrl}`;
+  let request = modelsRequests.get(key);
+  if (!request) {
+    request = fetchModels(provider.baseUrl, getProviderHeaders(provider)).then(
+      (models) => {
+        rememberModels(models);
+        return models;
+      },
+      (err) => {
+        modelsRequests.delete(key);
+        throw err;
+      },
+    );
+    modelsRequests.set(key, request);
+  }
+  return request;
+};
+
+const useModels = (provider: ProviderProfile) => {
+  const key = `${provider.id}:${provider.baseUrl}`;
+  const [result, setResult] = useState<{
+    key: string;
+    models: ModelInfo[];
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadModels(provider)
+      .then((models) => {
+        if (active) setResult({ key, models, error: null });
+      })
+      .catch((err) => {
+        if (active) {
+          setResult({
+            key,
+            models: [],
+            error: err instanceof Error ? err.message : "Failed to load models",
+          });
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [key, provider]);
+
+  // Ignore results for a provider the thread no longer uses.
+  return result?.key === key ? result : { models: [], error: null };
+};
+
+export const ModelPicker: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const model = useThreadModel(threadId);
+  const selectModel = useModelStore((state) => state.selectModel);
+  const provider = useThreadProvider(threadId);
+  const isLLM7 = isLLM7Provider(provider);
+  const { models, error } = useModels(provider);
+  const tier = useSubscriptionTier();
+  const sub = isLLM7 ? tier : undefined;
+
+  useEffect(() => {
+    void getSubscriptionTier();
+  }, []);
+
+  const current = models.find((m) => m.id === model);
+  const label = current?.label ?? model;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="aui-model-picker-trigger max-w-[14rem] text-muted-foreground"
+          aria-label="Select model"
+        >
+          <CpuIcon />
+          <span className="truncate">{label}</span>
+          <ChevronDownIcon className="opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="aui-model-picker-content max-h-96 w-72"
+      >
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Model</span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {!isLLM7
+              ? provider.name
+              : sub !== undefined
+                ? `${TIER_NAMES[sub] ?? `Tier ${sub}`} plan`
+                : "Not signed in"}
+          </span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {error && models.length === 0 ? (
+          <div className="px-2 py-1.5 text-xs text-destructive">{error}</div>
+        ) : null}
+        <DropdownMenuRadioGroup
+          value={model}
+          onValueChange={(value) => selectModel(threadId, value)}
+        >
+          {!current ? (
+            <DropdownMenuRadioItem value={model}>{model}</DropdownMenuRadioItem>
+          ) : null}
+          {models.map((m) => {
+            const restriction = isLLM7 ? getModelRestriction(m, sub) : null;
+            return (
+              <DropdownMenuRadioItem
+                key={m.id}
+                value={m.id}
+                disabled={restriction !== null}
+                className="aui-model-picker-item items-start"
+              >
+                <div className="flex min-w-0 flex-col">
+                  <span className="truncate">{m.label}</span>
+                  {restriction ? (
+                    <span className="text-xs text-muted-foreground">
+                      {restriction}
+                    </span>
+                  ) : m.description ? (
+                    <span className="line-clamp-2 text-xs text-muted-foreground">
+                      {m.description}
+                    </span>
+                  ) : null}
+                </div>
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, type FC, type ReactNode } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import { SlidersHorizontalIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  GENERATION_PARAM_LABELS,
+  getSupportedParams,
+  REASONING_EFFORTS,
+  validateGenerationParams,
+  type GenerationParam,
+  type GenerationParams,
+  type ReasoningEffort,
+} from "@/lib/generation-params";
+import { useThreadModel } from "@/lib/model-store";
+import { useParamsStore, useThreadParamOverrides } from "@/lib/params-store";
+import { useThreadProvider } from "@/lib/provider-store";
+import { isLLM7Provider } from "@/lib/providers";
+import { cn } from "@/lib/utils";
+
+type Scope = "thread" | "defaults";
+
+type Draft = Record<Exclude<GenerationParam, "reasoningEffort">, string> & {
+  reasoningEffort?: ReasoningEffort;
+};
+
+const toDraft = (params: GenerationParams | undefined): Draft => ({
+  temperature: params?.temperature?.toString() ?? "",
+  topP: params?.topP?.toString() ?? "",
+  maxTokens: params?.maxTokens?.toString() ?? "",
+  stop: params?.stop?.join("\n") ?? "",
+  seed: params?.seed?.toString() ?? "",
+  reasoningEffort: params?.reasoningEffort,
+});
+
+const parseNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value.trim());
+
+const fromDraft = (draft: Draft): GenerationParams => {
+  const stop = draft.stop.split("\n").filter((line) => line.length > 0);
+  return {
+    temperature: parseNumber(draft.temperature),
+    topP: parseNumber(draft.topP),
+    maxTokens: parseNumber(draft.maxTokens),
+    stop: stop.length > 0 ? stop : undefined,
+    seed: parseNumber(draft.seed),
+    reasoningEffort: draft.reasoningEffort,
+  };
+};
+
+/**
+ * Header button and side panel for sampling parameters, either for the
+ * current thread or as defaults for all threads.
+ */
+export const ParametersPanel: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const overrides = useThreadParamOverrides(threadId);
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>("thread");
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "aui-parameters-trigger relative size-8 text-muted-foreground",
+          overrides && "text-foreground",
+        )}
+        aria-label="Generation parameters"
+        title="Generation parameters"
+        onClick={() => setOpen(true)}
+      >
+        <SlidersHorizontalIcon />
+        {overrides ? (
+          <span className="absolute top-1 right-1 size-1.5 rounded-full bg-primary" />
+        ) : null}
+      </Button>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent className="aui-parameters-panel overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Parameters</SheetTitle>
+            <SheetDescription>
+              Empty fields use{" "}
+              {scope === "thread" ? "your defaults" : "the server's defaults"}.
+            </SheetDescription>
+            <div className="mt-2 flex gap-1 rounded-md bg-muted p-1">
+              {(["thread", "defaults"] as const).map((value) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={scope === value ? "secondary" : "ghost"}
+                  className={cn(
+                    "flex-1",
+                    scope === value && "bg-background shadow-xs",
+                  )}
+                  onClick={() => setScope(value)}
+                >
+                  {value === "thread" ? "This chat" : "Defaults"}
+                </Button>
+              ))}
+            </div>
+          </SheetHeader>
+          <ParametersForm
+            key={`${scope}:${threadId}`}
+            scope={scope}
+            threadId={threadId}
+            onDone={() => setOpen(false)}
+          />
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+const ParametersForm: FC<{
+  scope: Scope;
+  threadId: string;
+  onDone: () => void;
+}> = ({ scope, threadId, onDone }) => {
+  const defaults = useParamsStore((state) => state.defaults);
+  const overrides = useThreadParamOverrides(threadId);
+  const setDefaults = useParamsStore((state) => state.setDefaults);
+  const setThreadParams = useParamsStore((state) => state.setThreadParams);
+  const model = useThreadModel(threadId);
+  const llm7 = isLLM7Provider(useThreadProvider(threadId));
+  const [draft, setDraft] = useState(() =>
+    toDraft(scope === "thread" ? overrides : defaults),
+  );
+  const [submitted, setSubmitted] = useState(false);
+
+  const params = fromDraft(draft);
+  const errors = validateGenerationParams(params, model);
+  const supported = getSupportedParams(model, { llm7 });
+  const inherited = scope === "thread" ? toDraft(defaults) : undefined;
+
+  const field = (param: GenerationParam, control: ReactNode, hint?: string) => (
+    <div className="flex flex-col gap-1 text-sm">
+      <span className="font-medium">{GENERATION_PARAM_LABELS[param]}</span>
+      {control}
+      {submitted && errors[param] ? (
+        <span className="text-xs text-destructive">{errors[param]}</span>
+      ) : !supported.has(param) ? (
+        <span className="text-xs text-muted-foreground">
+          Not supported by {model}; it won&apos;t be sent.
+        </span>
+      ) : hint ? (
+        <span className="text-xs text-muted-foreground">{hint}</span>
+      ) : null}
+    </div>
+  );
+
+  const numberInput = (
+    param: Exclude<GenerationParam, "stop" | "reasoningEffort">,
+    props: { min?: number; max?: number; step?: number | "any" },
+  ) => (
+    <Input
+      type="number"
+      inputMode="decimal"
+      value={draft[param]}
+      placeholder={inherited?.[param] || "Default"}
+      aria-invalid={submitted && Boolean(errors[param])}
+      onChange={(event) => setDraft({ ...draft, [param]: event.target.value })}
+      {...props}
+    />
+  );
+
+  return (
+    <form
+      className="aui-parameters-form flex flex-1 flex-col gap-4 px-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        setSubmitted(true);
+        if (Object.keys(errors).length > 0) return;
+        if (scope === "thread") setThreadParams(threadId, params);
+        else setDefaults(params);
+        onDone();
+      }}
+    >
+      {field(
+        "temperature",
+        numberInput("temperature", { min: 0, max: 2, step: 0.1 }),
+        "0 to 2. Lower is more focused, higher more varied.",
+      )}
+      {field("topP", numberInput("topP", { min: 0, max: 1, step: 0.05 }))}
+      {field("maxTokens", numberInput("maxTokens", { min: 1, step: 1 }))}
+      {field(
+        "stop",
+        <Textarea
+          value={draft.stop}
+          placeholder={inherited?.stop || "One sequence per line"}
+          aria-invalid={submitted && Boolean(errors.stop)}
+          onChange={(event) => setDraft({ ...draft, stop: event.target.value })}
+          className="min-h-12"
+        />,
+      )}
+      {field(
+        "seed",
+        numberInput("seed", { step: 1 }),
+        "Same seed and settings give repeatable output on servers that support it.",
+      )}
+      {field(
+        "reasoningEffort",
+        <div className="flex flex-wrap gap-1">
+          {[undefined, ...REASONING_EFFORTS].map((effort) => (
+            <Button
+              key={effort ?? "default"}
+              type="button"
+              size="sm"
+              variant={
+                draft.reasoningEffort === effort ? "secondary" : "outline"
+              }
+              aria-pressed={draft.reasoningEffort === effort}
+              onClick={() => setDraft({ ...draft, reasoningEffort: effort })}
+            >
+              {effort ??
+                (inherited?.reasoningEffort
+                  ? `Default (${inherited.reasoningEffort})`
+                  : "Default")}
+            </Button>
+          ))}
+        </div>,
+      )}
+      <SheetFooter className="mt-auto px-0">
+        {scope === "thread" && overrides ? (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setThreadParams(threadId, {});
+              onDone();
+            }}
+          >
+            Use defaults for this chat
+          </Button>
+        ) : null}
+        <Button type="submit">Save</Button>
+      </SheetFooter>
+    </form>
+  );
+};
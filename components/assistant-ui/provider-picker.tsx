@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, type ComponentProps, type FC } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import {
+  ChevronDownIcon,
+  PencilIcon,
+  ServerIcon,
+  Trash2Icon,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { useModelStore } from "@/lib/model-store";
+import {
+  useProviderProfiles,
+  useProviderStore,
+  useThreadProvider,
+} from "@/lib/provider-store";
+import {
+  isLLM7Provider,
+  validateProviderProfile,
+  type ProviderProfile,
+} from "@/lib/providers";
+
+const EMPTY_PROFILE: Omit<ProviderProfile, "id"> = {
+  name: "",
+  baseUrl: "http://localhost:8080/v1",
+  authHeader: "Authorization",
+  apiKey: "",
+  defaultModel: "",
+};
+
+export const ProviderPicker: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const provider = useThreadProvider(threadId);
+  const profiles = useProviderProfiles();
+  const selectProvider = useProviderStore((state) => state.selectProvider);
+  const clearThreadModel = useModelStore((state) => state.clearThreadModel);
+  const [managing, setManaging] = useState(false);
+
+  const onSelect = (id: string) => {
+    if (id === provider.id) return;
+    selectProvider(threadId, id);
+    // The thread's model belongs to the old provider.
+    clearThreadModel(threadId);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="aui-provider-picker-trigger max-w-[10rem] text-muted-foreground"
+            aria-label="Select provider"
+          >
+            <ServerIcon />
+            <span className="truncate">{provider.name}</span>
+            <ChevronDownIcon className="opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          className="aui-provider-picker-content w-64"
+        >
+          <DropdownMenuLabel>Provider</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup value={provider.id} onValueChange={onSelect}>
+            {profiles.map((profile) => (
+              <DropdownMenuRadioItem
+                key={profile.id}
+                value={profile.id}
+                className="aui-provider-picker-item items-start"
+              >
+                <div className="flex min-w-0 flex-col">
+                  <span className="truncate">{profile.name}</span>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {profile.baseUrl}
+                  </span>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManaging(true)}>
+            <PencilIcon />
+            Manage providers…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ProviderProfilesDialog open={managing} onOpenChange={setManaging} />
+    </>
+  );
+};
+
+const ProviderProfilesDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}> = ({ open, onOpenChange }) => {
+  const profiles = useProviderProfiles().filter((p) => !isLLM7Provider(p));
+  const saveProfile = useProviderStore((state) => state.saveProfile);
+  const removeProfile = useProviderStore((state) => state.removeProfile);
+  const clearThreadModel = useModelStore((state) => state.clearThreadModel);
+  const [editing, setEditing] = useState<ProviderProfile | null>(null);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="aui-provider-profiles-dialog sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Providers</DialogTitle>
+          <DialogDescription>
+            OpenAI-compatible servers such as llama.cpp, vLLM or Ollama. The
+            server must allow requests from this site (CORS). Keys are stored in
+            this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <ProviderProfileForm
+            initial={editing}
+            onCancel={() => setEditing(null)}
+            onSave={(profile) => {
+              saveProfile(profile);
+              setEditing(null);
+            }}
+          />
+        ) : (
+          <>
+            <ul className="aui-provider-profiles-list flex flex-col divide-y rounded-md border">
+              {profiles.length === 0 ? (
+                <li className="px-3 py-4 text-sm text-muted-foreground">
+                  No custom providers yet.
+                </li>
+              ) : null}
+              {profiles.map((profile) => (
+                <li
+                  key={profile.id}
+                  className="flex items-center gap-2 px-3 py-2"
+                >
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate text-sm font-medium">
+                      {profile.name}
+                    </span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {profile.baseUrl} · {profile.defaultModel}
+                    </span>
+                  </div>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Edit ${profile.name}`}
+                    onClick={() => setEditing(profile)}
+                  >
+                    <PencilIcon />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Remove ${profile.name}`}
+                    onClick={() => {
+                      // Threads on this provider fall back to LLM7 and its models.
+                      const { threadProviders } = useProviderStore.getState();
+                      for (const [threadId, id] of Object.entries(
+                        threadProviders,
+                      )) {
+                        if (id === profile.id) clearThreadModel(threadId);
+                      }
+                      removeProfile(profile.id);
+                    }}
+                  >
+                    <Trash2Icon />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button
+                type="button"
+                onClick={() =>
+                  setEditing({ id: crypto.randomUUID(), ...EMPTY_PROFILE })
+                }
+              >
+                Add provider
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ProviderProfileForm: FC<{
+  initial: ProviderProfile;
+  onSave: (profile: ProviderProfile) => void;
+  onCancel: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(initial);
+  const [submitted, setSubmitted] = useState(false);
+  const errors = validateProviderProfile(draft);
+  const isValid = Object.keys(errors).length === 0;
+
+  const field = (
+    key: "name" | "baseUrl" | "authHeader" | "apiKey" | "defaultModel",
+    label: string,
+    props: ComponentProps<typeof Input> = {},
+  ) => (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="font-medium">{label}</span>
+      <Input
+        value={draft[key] ?? ""}
+        aria-invalid={submitted && Boolean(errors[key])}
+        onChange={(event) => setDraft({ ...draft, [key]: event.target.value })}
+        {...props}
+      />
+      {submitted && errors[key] ? (
+        <span className="text-xs text-destructive">{errors[key]}</span>
+      ) : null}
+    </label>
+  );
+
+  return (
+    <form
+      className="aui-provider-profile-form flex flex-col gap-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        setSubmitted(true);
+        if (!isValid) return;
+        onSave({
+          ...draft,
+          name: draft.name.trim(),
+          baseUrl: draft.baseUrl.trim().replace(/\/$/, ""),
+          authHeader: draft.authHeader.trim() || "Authorization",
+          apiKey: draft.apiKey?.trim() || undefined,
+          defaultModel: draft.defaultModel.trim(),
+        });
+      }}
+    >
+      {field("name", "Name", {
+        placeholder: "Local llama.cpp",
+        autoFocus: true,
+      })}
+      {field("baseUrl", "Base URL", {
+        placeholder: "http://localhost:8080/v1",
+      })}
+      <div className="grid gap-3 sm:grid-cols-2">
+        {field("authHeader", "Auth header", { placeholder: "Authorization" })}
+        {field("apiKey", "API key", {
+          type: "password",
+          placeholder: "Optional",
+        })}
+      </div>
+      {field("defaultModel", "Default model", { placeholder: "llama3.1:8b" })}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={Boolean(draft.tools)}
+          onChange={(event) =>
+            setDraft({ ...draft, tools: event.target.checked })
+          }
+        />
+        Let models call tools (calculator, date and time)
+      </label>
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </DialogFooter>
+    </form>
+  );
+};
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState, type FC, type ReactNode } from "react";
+import { useAssistantState } from "@assistant-ui/react";
+import { BugIcon, CheckIcon, CopyIcon, DownloadIcon } from "lucide-react";
+
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import {
+  toCurl,
+  useInspectedMessage,
+  useInspectorEnabled,
+  useInspectorStore,
+  type InspectedExchange,
+  type InspectedMessage,
+} from "@/lib/request-inspector";
+
+/**
+ * Sidebar switch for the developer inspector. Turning it off drops what was
+ * recorded.
+ */
+export const InspectorToggle: FC = () => {
+  const enabled = useInspectorEnabled();
+  const setEnabled = useInspectorStore((state) => state.setEnabled);
+
+  return (
+    <SidebarMenuButton
+      aria-pressed={enabled}
+      onClick={() => setEnabled(!enabled)}
+      title="Record raw requests and responses for each answer"
+    >
+      <BugIcon />
+      <span>Developer inspector</span>
+      {enabled ? <CheckIcon className="ml-auto" /> : null}
+    </SidebarMenuButton>
+  );
+};
+
+/**
+ * Action bar button that opens the recording for the current message. Only
+ * shown while the inspector is on and something was recorded.
+ */
+export const InspectMessageButton: FC<{ className?: string }> = ({
+  className,
+}) => {
+  const enabled = useInspectorEnabled();
+  const messageId = useAssistantState(({ message }) => message.id);
+  const recording = useInspectedMessage(enabled ? messageId : undefined);
+  const [open, setOpen] = useState(false);
+
+  if (!recording) return null;
+
+  return (
+    <>
+      <TooltipIconButton
+        tooltip="Inspect request"
+        className={className}
+        onClick={() => setOpen(true)}
+      >
+        <BugIcon />
+      </TooltipIconButton>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent className="aui-request-inspector w-full overflow-y-auto sm:max-w-2xl">
+          <SheetHeader>
+            <SheetTitle>Request inspector</SheetTitle>
+            <SheetDescription>
+              {summarize(recording)} Secrets in headers are redacted.
+            </SheetDescription>
+            <div className="mt-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => exportRecording(recording)}
+              >
+                <DownloadIcon />
+                Export JSON
+              </Button>
+            </div>
+          </SheetHeader>
+          <div className="flex flex-col gap-4 px-4 pb-4 text-sm">
+            {recording.exchanges.map((exchange, index) => (
+              <ExchangeView
+                key={index}
+                exchange={exchange}
+                index={index}
+                startedAt={recording.startedAt}
+              />
+            ))}
+            <Section title={`UI chunks (${recording.chunks.length})`}>
+              {recording.chunks
+                .map(
+                  ({ at, chunk }) =>
+                    `+${at - recording.startedAt}ms ${JSON.stringify(chunk)}`,
+                )
+                .join("\n")}
+            </Section>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+const ExchangeView: FC<{
+  exchange: InspectedExchange;
+  index: number;
+  startedAt: number;
+}> = ({ exchange, index, startedAt }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCurl = () => {
+    void navigator.clipboard.writeText(toCurl(exchange)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3">
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <div className="font-medium">
+            Request {index + 1}
+            {exchange.status !== undefined
+              ? ` • ${exchange.status} ${exchange.statusText ?? ""}`
+              : exchange.error
+                ? ` • ${exchange.error}`
+                : " • pending"}
+          </div>
+          <div className="truncate text-xs text-muted-foreground">
+            {exchange.method} {exchange.url}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Sent at +{exchange.sentAt - startedAt}ms
+            {exchange.respondedAt !== undefined
+              ? `, headers after ${exchange.respondedAt - exchange.sentAt}ms`
+              : ""}
+            {exchange.endedAt !== undefined
+              ? `, done after ${exchange.endedAt - exchange.sentAt}ms`
+              : ""}
+          </div>
+        </div>
+        <Button type="button" size="sm" variant="ghost" onClick={copyCurl}>
+          {copied ? <CheckIcon /> : <CopyIcon />}
+          Copy as curl
+        </Button>
+      </div>
+      <Section title="Request headers">{formatJson(exchange.headers)}</Section>
+      <Section title="Request body" open>
+        {formatJson(exchange.body)}
+      </Section>
+      {exchange.responseHeaders ? (
+        <Section title="Response headers">
+          {formatJson(exchange.responseHeaders)}
+        </Section>
+      ) : null}
+      {exchange.errorBody !== undefined ? (
+        <Section title="Response body" open>
+          {exchange.errorBody}
+        </Section>
+      ) : null}
+      {exchange.events.length > 0 ? (
+        <Section title={`SSE events (${exchange.events.length})`}>
+          {exchange.events
+            .map(
+              ({ at, event, data }) =>
+                `+${at - exchange.sentAt}ms ${event ? `event: ${event} ` : ""}data: ${data}`,
+            )
+            .join("\n")}
+        </Section>
+      ) : null}
+    </div>
+  );
+};
+
+const Section: FC<{ title: string; open?: boolean; children: ReactNode }> = ({
+  title,
+  open,
+  children,
+}) => (
+  <details open={open} className="text-xs">
+    <summary className="cursor-pointer font-medium">{title}</summary>
+    <pre className="mt-1 max-h-80 overflow-auto rounded-md bg-muted p-2 break-all whitespace-pre-wrap">
+      {children}
+    </pre>
+  </details>
+);
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2) ?? "";
+
+const summarize = (recording: InspectedMessage) => {
+  const requests = `${recording.exchanges.length} request${recording.exchanges.length === 1 ? "" : "s"}`;
+  return recording.finishedAt !== undefined
+    ? `${requests}, finished after ${recording.finishedAt - recording.startedAt}ms.`
+    : `${requests}, still streaming.`;
+};
+
+const exportRecording = (recording: InspectedMessage) => {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `request-${recording.messageId}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
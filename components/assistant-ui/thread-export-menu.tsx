@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, type FC, type ReactNode } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadThread,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "@/lib/thread-export";
+
+/**
+ * Menu to download a thread as Markdown, JSON or HTML. `children` is the
+ * trigger. A failed export is reported in a dialog.
+ */
+export const ExportThreadMenu: FC<{
+  threadId: string;
+  children: ReactNode;
+}> = ({ threadId, children }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = async (format: ExportFormat) => {
+    try {
+      await downloadThread(threadId, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed.");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="aui-thread-export-content">
+          <DropdownMenuLabel>Export chat</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {EXPORT_FORMATS.map((format) => (
+            <DropdownMenuItem
+              key={format.id}
+              onSelect={() => void runExport(format.id)}
+            >
+              {format.label}
+              <span className="ml-auto text-xs text-muted-foreground">
+                .{format.extension}
+              </span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog
+        open={error !== null}
+        onOpenChange={(open) => !open && setError(null)}
+      >
+        <DialogContent className="aui-thread-export-error sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Couldn&apos;t export the chat</DialogTitle>
+            <DialogDescription>{error}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" onClick={() => setError(null)}>
+              OK
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,19 +1,42 @@
-import type { FC } from "react";
+import {
+  useEffect,
+  useState,
+  type DragEvent,
+  type FC,
+  type ReactNode,
+} from "react";
 import {
   ThreadListItemPrimitive,
   ThreadListPrimitive,
   useAssistantState,
 } from "@assistant-ui/react";
-import { ArchiveIcon, PlusIcon } from "lucide-react";
+import { ArchiveIcon, DownloadIcon, PinIcon, PlusIcon } from "lucide-react";
+import { useShallow } from "zustand/shallow";
 
 import { Button } from "@/components/ui/button";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import { ExportThreadMenu } from "@/components/assistant-ui/thread-export-menu";
+import {
+  ThreadListFilterMenu,
+  ThreadListFolderHeader,
+  ThreadListItemMenu,
+  ThreadTagDots,
+} from "@/components/assistant-ui/thread-organizer";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  getThreadListSections,
+  useThreadOrganizerStore,
+} from "@/lib/thread-organizer";
+import { cn } from "@/lib/utils";
+
+// Drag data type of a thread list item; the data is the thread id.
+const THREAD_DRAG_TYPE = "application/x-llm7-thread";
 
 export const ThreadList: FC = () => {
   return (
     <ThreadListPrimitive.Root className="aui-root aui-thread-list-root flex flex-col items-stretch gap-1.5">
       <ThreadListNew />
+      <ThreadListFilterMenu />
       <ThreadListItems />
     </ThreadListPrimitive.Root>
   );
@@ -35,12 +58,132 @@ const ThreadListNew: FC = () => {
 
 const ThreadListItems: FC = () => {
   const isLoading = useAssistantState(({ threads }) => threads.isLoading);
+  const threadIds = useAssistantState(({ threads }) => threads.threadIds);
+  const organizer = useThreadOrganizerStore(
+    useShallow(({ threads, folders, filter }) => ({
+      threads,
+      folders,
+      filter,
+    })),
+  );
+  const collapsedFolders = useThreadOrganizerStore(
+    (state) => state.collapsedFolders,
+  );
+  const load = useThreadOrganizerStore((state) => state.load);
+  const setPinned = useThreadOrganizerStore((state) => state.setPinned);
+  const moveToFolder = useThreadOrganizerStore((state) => state.moveToFolder);
+
+  useEffect(() => {
+    void load().catch(() => undefined);
+  }, [load]);
 
   if (isLoading) {
     return <ThreadListSkeleton />;
   }
 
-  return <ThreadListPrimitive.Items components={{ ThreadListItem }} />;
+  const { pinned, folders, unfiled } = getThreadListSections(
+    threadIds,
+    organizer,
+  );
+  const renderItems = (ids: string[]) =>
+    ids.map((id) => (
+      <ThreadListPrimitive.ItemByIndex
+        key={id}
+        index={threadIds.indexOf(id)}
+        components={{ ThreadListItem }}
+      />
+    ));
+
+  return (
+    <>
+      {pinned.length > 0 ? (
+        <ThreadListDropZone
+          label="Pinned"
+          icon={<PinIcon className="size-3.5" />}
+          onDropThread={(threadId) => setPinned(threadId, true)}
+        >
+          {renderItems(pinned)}
+        </ThreadListDropZone>
+      ) : null}
+      {folders.map(({ folder, threadIds: ids }) => (
+        <ThreadListDropZone
+          key={folder.id}
+          header={<ThreadListFolderHeader folder={folder} count={ids.length} />}
+          onDropThread={(threadId) => {
+            setPinned(threadId, false);
+            moveToFolder(threadId, folder.id);
+          }}
+        >
+          {collapsedFolders[folder.id] ? null : (
+            <div className="aui-thread-list-folder-items flex flex-col gap-1.5 pl-3">
+              {renderItems(ids)}
+            </div>
+          )}
+        </ThreadListDropZone>
+      ))}
+      <ThreadListDropZone
+        label={pinned.length > 0 || folders.length > 0 ? "Chats" : undefined}
+        onDropThread={(threadId) => {
+          setPinned(threadId, false);
+          moveToFolder(threadId, null);
+        }}
+      >
+        {renderItems(unfiled)}
+      </ThreadListDropZone>
+    </>
+  );
+};
+
+/**
+ * Section of the thread list that threads can be dragged into.
+ */
+const ThreadListDropZone: FC<{
+  label?: string;
+  icon?: ReactNode;
+  header?: ReactNode;
+  onDropThread: (threadId: string) => void;
+  children: ReactNode;
+}> = ({ label, icon, header, onDropThread, children }) => {
+  const [isOver, setIsOver] = useState(false);
+
+  const acceptsDrag = (event: DragEvent) =>
+    event.dataTransfer.types.includes(THREAD_DRAG_TYPE);
+
+  return (
+    <div
+      className={cn(
+        "aui-thread-list-section flex flex-col gap-1.5 rounded-lg",
+        isOver && "bg-muted/60 ring-2 ring-ring/40",
+      )}
+      onDragOver={(event) => {
+        if (!acceptsDrag(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        setIsOver(true);
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setIsOver(false);
+        }
+      }}
+      onDrop={(event) => {
+        setIsOver(false);
+        const threadId = event.dataTransfer.getData(THREAD_DRAG_TYPE);
+        if (!threadId) return;
+        event.preventDefault();
+        onDropThread(threadId);
+      }}
+    >
+      {header ??
+        (label ? (
+          <div className="aui-thread-list-section-label flex items-center gap-1.5 px-2.5 pt-2 text-xs font-medium text-muted-foreground">
+            {icon}
+            {label}
+          </div>
+        ) : null)}
+      {children}
+    </div>
+  );
 };
 
 const ThreadListSkeleton: FC = () => {
@@ -62,11 +205,25 @@ const ThreadListSkeleton: FC = () => {
 };
 
 const ThreadListItem: FC = () => {
+  const threadId = useAssistantState(
+    ({ threadListItem }) => threadListItem.remoteId ?? threadListItem.id,
+  );
+
   return (
-    <ThreadListItemPrimitive.Root className="aui-thread-list-item flex items-center gap-2 rounded-lg transition-all hover:bg-muted focus-visible:bg-muted focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none data-active:bg-muted">
+    <ThreadListItemPrimitive.Root
+      className="aui-thread-list-item flex items-center gap-2 rounded-lg transition-all hover:bg-muted focus-visible:bg-muted focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none data-active:bg-muted"
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.setData(THREAD_DRAG_TYPE, threadId);
+        event.dataTransfer.effectAllowed = "move";
+      }}
+    >
       <ThreadListItemPrimitive.Trigger className="aui-thread-list-item-trigger flex-grow px-3 py-2 text-start">
         <ThreadListItemTitle />
+        <ThreadTagDots threadId={threadId} />
       </ThreadListItemPrimitive.Trigger>
+      <ThreadListItemMenu threadId={threadId} />
+      <ThreadListItemExport />
       <ThreadListItemArchive />
     </ThreadListItemPrimitive.Root>
   );
@@ -82,10 +239,24 @@ const ThreadListItemTitle: FC = () => {
         ? `${title.slice(0, 15)}...`
         : title;
 
+  return <span className="aui-thread-list-item-title text-sm">{display}</span>;
+};
+
+const ThreadListItemExport: FC = () => {
+  const threadId = useAssistantState(
+    ({ threadListItem }) => threadListItem.remoteId ?? threadListItem.id,
+  );
+
   return (
-    <span className="aui-thread-list-item-title text-sm">
-      {display}
-    </span>
+    <ExportThreadMenu threadId={threadId}>
+      <TooltipIconButton
+        className="aui-thread-list-item-export ml-auto size-4 p-0 text-foreground hover:text-primary"
+        variant="ghost"
+        tooltip="Export thread"
+      >
+        <DownloadIcon />
+      </TooltipIconButton>
+    </ExportThreadMenu>
   );
 };
 
@@ -93,7 +264,7 @@ const ThreadListItemArchive: FC = () => {
   return (
     <ThreadListItemPrimitive.Archive asChild>
       <TooltipIconButton
-        className="aui-thread-list-item-archive mr-3 ml-auto size-4 p-0 text-foreground hover:text-primary"
+        className="aui-thread-list-item-archive mr-3 size-4 p-0 text-foreground hover:text-primary"
         variant="ghost"
         tooltip="Archive thread"
       >
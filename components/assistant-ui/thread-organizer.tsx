@@ -0,0 +1,546 @@
+"use client";
+
+import { useState, type FC, type ReactNode } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FilterIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  MoreHorizontalIcon,
+  PencilIcon,
+  PinIcon,
+  PinOffIcon,
+  TagIcon,
+  Trash2Icon,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import {
+  TAG_COLORS,
+  tagColorClassName,
+  useThreadOrganizerStore,
+  type TagColor,
+  type ThreadListFilter,
+} from "@/lib/thread-organizer";
+import type { StoredFolder, StoredTag } from "@/lib/thread-storage";
+import { cn } from "@/lib/utils";
+
+const TagDot: FC<{ color: string; className?: string }> = ({
+  color,
+  className,
+}) => (
+  <span
+    aria-hidden
+    className={cn(
+      "inline-block size-2 shrink-0 rounded-full",
+      tagColorClassName(color),
+      className,
+    )}
+  />
+);
+
+const filterValue = (filter: ThreadListFilter) =>
+  filter.kind === "folder"
+    ? `folder:${filter.folderId}`
+    : filter.kind === "tag"
+      ? `tag:${filter.tagId}`
+      : "all";
+
+const parseFilterValue = (value: string): ThreadListFilter => {
+  const separator = value.indexOf(":");
+  const kind = value.slice(0, separator);
+  const id = value.slice(separator + 1);
+  if (kind === "folder") return { kind: "folder", folderId: id };
+  if (kind === "tag") return { kind: "tag", tagId: id };
+  return { kind: "all" };
+};
+
+/**
+ * Filter the thread list by folder or tag; also where folders and tags are
+ * created.
+ */
+export const ThreadListFilterMenu: FC = () => {
+  const folders = useThreadOrganizerStore((state) => state.folders);
+  const tags = useThreadOrganizerStore((state) => state.tags);
+  const filter = useThreadOrganizerStore((state) => state.filter);
+  const setFilter = useThreadOrganizerStore((state) => state.setFilter);
+  const [dialog, setDialog] = useState<"folder" | "tag" | StoredTag | null>(
+    null,
+  );
+
+  const activeFolder =
+    filter.kind === "folder"
+      ? folders.find((folder) => folder.id === filter.folderId)
+      : undefined;
+  const activeTag =
+    filter.kind === "tag"
+      ? tags.find((tag) => tag.id === filter.tagId)
+      : undefined;
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "aui-thread-list-filter h-8 min-w-0 justify-start gap-1.5 px-2.5 text-muted-foreground",
+              filter.kind !== "all" && "bg-muted text-foreground",
+            )}
+          >
+            {activeTag ? <TagDot color={activeTag.color} /> : <FilterIcon />}
+            <span className="truncate">
+              {activeFolder?.name ?? activeTag?.name ?? "All chats"}
+            </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="start"
+          className="aui-thread-list-filter-content w-56"
+        >
+          <DropdownMenuRadioGroup
+            value={filterValue(filter)}
+            onValueChange={(value) => setFilter(parseFilterValue(value))}
+          >
+            <DropdownMenuRadioItem value="all">All chats</DropdownMenuRadioItem>
+            {folders.length > 0 ? (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">
+                  Folders
+                </DropdownMenuLabel>
+                {folders.map((folder) => (
+                  <DropdownMenuRadioItem
+                    key={folder.id}
+                    value={`folder:${folder.id}`}
+                  >
+                    <span className="truncate">{folder.name}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </>
+            ) : null}
+            {tags.length > 0 ? (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">
+                  Tags
+                </DropdownMenuLabel>
+                {tags.map((tag) => (
+                  <DropdownMenuRadioItem key={tag.id} value={`tag:${tag.id}`}>
+                    <TagDot color={tag.color} />
+                    <span className="truncate">{tag.name}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </>
+            ) : null}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDialog("folder")}>
+            <FolderPlusIcon />
+            New folder…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setDialog("tag")}>
+            <TagIcon />
+            New tag…
+          </DropdownMenuItem>
+          {activeTag ? (
+            <DropdownMenuItem onSelect={() => setDialog(activeTag)}>
+              <PencilIcon />
+              Edit tag “{activeTag.name}”…
+            </DropdownMenuItem>
+          ) : null}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <FolderDialog
+        open={dialog === "folder"}
+        onOpenChange={() => setDialog(null)}
+      />
+      <TagDialog
+        open={dialog !== null && dialog !== "folder"}
+        onOpenChange={() => setDialog(null)}
+        tag={typeof dialog === "object" ? (dialog ?? undefined) : undefined}
+      />
+    </>
+  );
+};
+
+/**
+ * Collapsible heading of a folder in the thread list.
+ */
+export const ThreadListFolderHeader: FC<{
+  folder: StoredFolder;
+  count: number;
+}> = ({ folder, count }) => {
+  const collapsed = useThreadOrganizerStore((state) =>
+    Boolean(state.collapsedFolders[folder.id]),
+  );
+  const setFolderCollapsed = useThreadOrganizerStore(
+    (state) => state.setFolderCollapsed,
+  );
+  const deleteFolder = useThreadOrganizerStore((state) => state.deleteFolder);
+  const [renaming, setRenaming] = useState(false);
+
+  return (
+    <div className="aui-thread-list-folder-header group flex items-center gap-1 rounded-lg pr-1 text-sm text-muted-foreground hover:bg-muted">
+      <button
+        type="button"
+        className="flex min-w-0 flex-grow items-center gap-1.5 px-2.5 py-1.5 text-start"
+        aria-expanded={!collapsed}
+        onClick={() => setFolderCollapsed(folder.id, !collapsed)}
+      >
+        {collapsed ? (
+          <ChevronRightIcon className="size-4 shrink-0" />
+        ) : (
+          <ChevronDownIcon className="size-4 shrink-0" />
+        )}
+        <FolderIcon className="size-4 shrink-0" />
+        <span className="truncate font-medium text-foreground">
+          {folder.name}
+        </span>
+        <span className="ml-auto text-xs">{count}</span>
+      </button>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <TooltipIconButton
+            className="aui-thread-list-folder-menu size-6 p-1 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+            variant="ghost"
+            tooltip="Folder options"
+          >
+            <MoreHorizontalIcon />
+          </TooltipIconButton>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setRenaming(true)}>
+            <PencilIcon />
+            Rename…
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            variant="destructive"
+            onSelect={() => deleteFolder(folder.id)}
+          >
+            <Trash2Icon />
+            Delete folder
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <FolderDialog
+        open={renaming}
+        onOpenChange={setRenaming}
+        folder={folder}
+      />
+    </div>
+  );
+};
+
+/**
+ * Pin, folder and tag options of one thread.
+ */
+export const ThreadListItemMenu: FC<{ threadId: string }> = ({ threadId }) => {
+  const thread = useThreadOrganizerStore((state) => state.threads[threadId]);
+  const folders = useThreadOrganizerStore((state) => state.folders);
+  const tags = useThreadOrganizerStore((state) => state.tags);
+  const setPinned = useThreadOrganizerStore((state) => state.setPinned);
+  const moveToFolder = useThreadOrganizerStore((state) => state.moveToFolder);
+  const toggleTag = useThreadOrganizerStore((state) => state.toggleTag);
+  const [dialog, setDialog] = useState<"folder" | "tag" | null>(null);
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <TooltipIconButton
+            className="aui-thread-list-item-menu size-4 p-0 text-foreground hover:text-primary"
+            variant="ghost"
+            tooltip="Organize"
+          >
+            <MoreHorizontalIcon />
+          </TooltipIconButton>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          className="aui-thread-list-item-menu-content"
+        >
+          <DropdownMenuItem
+            onSelect={() => setPinned(threadId, !thread?.pinned)}
+          >
+            {thread?.pinned ? <PinOffIcon /> : <PinIcon />}
+            {thread?.pinned ? "Unpin" : "Pin to top"}
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FolderIcon />
+              Move to folder
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              <DropdownMenuRadioGroup
+                value={thread?.folderId ?? ""}
+                onValueChange={(value) => moveToFolder(threadId, value || null)}
+              >
+                <DropdownMenuRadioItem value="">
+                  No folder
+                </DropdownMenuRadioItem>
+                {folders.map((folder) => (
+                  <DropdownMenuRadioItem key={folder.id} value={folder.id}>
+                    <span className="truncate">{folder.name}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setDialog("folder")}>
+                <FolderPlusIcon />
+                New folder…
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <TagIcon />
+              Tags
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              {tags.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag.id}
+                  checked={thread?.tagIds?.includes(tag.id) ?? false}
+                  onSelect={(event) => event.preventDefault()}
+                  onCheckedChange={() => toggleTag(threadId, tag.id)}
+                >
+                  <TagDot color={tag.color} />
+                  <span className="truncate">{tag.name}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+              {tags.length > 0 ? <DropdownMenuSeparator /> : null}
+              <DropdownMenuItem onSelect={() => setDialog("tag")}>
+                <TagIcon />
+                New tag…
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <FolderDialog
+        open={dialog === "folder"}
+        onOpenChange={() => setDialog(null)}
+        onCreated={(folderId) => moveToFolder(threadId, folderId)}
+      />
+      <TagDialog
+        open={dialog === "tag"}
+        onOpenChange={() => setDialog(null)}
+        onCreated={(tagId) => toggleTag(threadId, tagId)}
+      />
+    </>
+  );
+};
+
+/**
+ * Colored dots for the tags of a thread.
+ */
+export const ThreadTagDots: FC<{ threadId: string }> = ({ threadId }) => {
+  const tagIds = useThreadOrganizerStore(
+    (state) => state.threads[threadId]?.tagIds,
+  );
+  const tags = useThreadOrganizerStore((state) => state.tags);
+  const threadTags = tags.filter((tag) => tagIds?.includes(tag.id));
+  if (threadTags.length === 0) return null;
+
+  return (
+    <span
+      className="aui-thread-list-item-tags ml-1.5 inline-flex gap-0.5 align-middle"
+      title={threadTags.map((tag) => tag.name).join(", ")}
+    >
+      {threadTags.map((tag) => (
+        <TagDot key={tag.id} color={tag.color} />
+      ))}
+    </span>
+  );
+};
+
+const NameForm: FC<{
+  title: string;
+  initialName: string;
+  submitLabel: string;
+  onSubmit: (name: string) => void;
+  children?: ReactNode;
+  extraActions?: ReactNode;
+}> = ({
+  title,
+  initialName,
+  submitLabel,
+  onSubmit,
+  children,
+  extraActions,
+}) => {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <form
+      className="flex flex-col gap-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (name.trim()) onSubmit(name.trim());
+      }}
+    >
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+      </DialogHeader>
+      <Input
+        autoFocus
+        aria-label="Name"
+        placeholder="Name"
+        maxLength={60}
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+      />
+      {children}
+      <DialogFooter>
+        {extraActions}
+        <Button type="submit" disabled={!name.trim()}>
+          {submitLabel}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+/**
+ * Create a folder, or rename `folder`.
+ */
+const FolderDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folder?: StoredFolder;
+  onCreated?: (folderId: string) => void;
+}> = ({ open, onOpenChange, folder, onCreated }) => {
+  const createFolder = useThreadOrganizerStore((state) => state.createFolder);
+  const renameFolder = useThreadOrganizerStore((state) => state.renameFolder);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="aui-folder-dialog sm:max-w-sm">
+        {open ? (
+          <NameForm
+            title={folder ? "Rename folder" : "New folder"}
+            initialName={folder?.name ?? ""}
+            submitLabel={folder ? "Rename" : "Create"}
+            onSubmit={(name) => {
+              if (folder) renameFolder(folder.id, name);
+              else onCreated?.(createFolder(name));
+              onOpenChange(false);
+            }}
+          />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Create a tag, or edit or delete `tag`.
+ */
+const TagDialog: FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tag?: StoredTag;
+  onCreated?: (tagId: string) => void;
+}> = ({ open, onOpenChange, tag, onCreated }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="aui-tag-dialog sm:max-w-sm">
+      {open ? (
+        <TagForm
+          tag={tag}
+          onCreated={onCreated}
+          onDone={() => onOpenChange(false)}
+        />
+      ) : null}
+    </DialogContent>
+  </Dialog>
+);
+
+const TagForm: FC<{
+  tag?: StoredTag;
+  onCreated?: (tagId: string) => void;
+  onDone: () => void;
+}> = ({ tag, onCreated, onDone }) => {
+  const createTag = useThreadOrganizerStore((state) => state.createTag);
+  const updateTag = useThreadOrganizerStore((state) => state.updateTag);
+  const deleteTag = useThreadOrganizerStore((state) => state.deleteTag);
+  const [color, setColor] = useState<TagColor>(
+    TAG_COLORS.find((option) => option.id === tag?.color)?.id ?? "blue",
+  );
+
+  return (
+    <NameForm
+      title={tag ? "Edit tag" : "New tag"}
+      initialName={tag?.name ?? ""}
+      submitLabel={tag ? "Save" : "Create"}
+      onSubmit={(name) => {
+        if (tag) updateTag(tag.id, { name, color });
+        else onCreated?.(createTag(name, color));
+        onDone();
+      }}
+      extraActions={
+        tag ? (
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-destructive sm:mr-auto"
+            onClick={() => {
+              deleteTag(tag.id);
+              onDone();
+            }}
+          >
+            Delete tag
+          </Button>
+        ) : null
+      }
+    >
+      <div
+        role="radiogroup"
+        aria-label="Color"
+        className="flex flex-wrap gap-2"
+      >
+        {TAG_COLORS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            role="radio"
+            aria-checked={color === option.id}
+            aria-label={option.label}
+            title={option.label}
+            className={cn(
+              "size-6 rounded-full ring-offset-2 ring-offset-background transition-shadow",
+              option.className,
+              color === option.id && "ring-2 ring-ring",
+            )}
+            onClick={() => setColor(option.id)}
+          />
+        ))}
+      </div>
+    </NameForm>
+  );
+};
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState, type FC } from "react";
+import { useAssistantApi } from "@assistant-ui/react";
+import { SearchIcon, XIcon } from "lucide-react";
+
+import { SidebarInput } from "@/components/ui/sidebar";
+import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
+import {
+  searchThreads,
+  useSearchFocusStore,
+  type ThreadSearchResult,
+} from "@/lib/thread-search";
+
+const SEARCH_DELAY_MS = 150;
+
+export const ThreadSearchInput: FC<{
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ value, onChange }) => (
+  <div className="aui-thread-search relative">
+    <SearchIcon className="pointer-events-none absolute top-1/2 left-2.5 size-4 -translate-y-1/2 text-muted-foreground" />
+    <SidebarInput
+      className="aui-thread-search-input pr-8 pl-8"
+      type="search"
+      placeholder="Search chats"
+      aria-label="Search chats"
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onChange("");
+      }}
+    />
+    {value ? (
+      <TooltipIconButton
+        className="aui-thread-search-clear absolute top-1/2 right-1 size-6 -translate-y-1/2 p-1"
+        variant="ghost"
+        tooltip="Clear search"
+        onClick={() => onChange("")}
+      >
+        <XIcon />
+      </TooltipIconButton>
+    ) : null}
+  </div>
+);
+
+/**
+ * Threads whose title or messages match `query`. Opening a result shows the
+ * matched message.
+ */
+export const ThreadSearchResults: FC<{ query: string }> = ({ query }) => {
+  const api = useAssistantApi();
+  const [search, setSearch] = useState<
+    | { query: string; results: ThreadSearchResult[] }
+    | { query: string; error: string }
+    | null
+  >(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchThreads(query).then(
+        (results) => {
+          if (!cancelled) setSearch({ query, results });
+        },
+        (err: unknown) => {
+          if (cancelled) return;
+          setSearch({
+            query,
+            error:
+              err instanceof Error
+                ? err.message
+                : "The chats could not be read.",
+          });
+        },
+      );
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const open = (result: ThreadSearchResult) => {
+    useSearchFocusStore
+      .getState()
+      .setFocus(
+        result.messageId
+          ? { threadId: result.threadId, messageId: result.messageId }
+          : null,
+      );
+    api.threads().switchToThread(result.threadId);
+  };
+
+  if (!search) {
+    return (
+      <p className="aui-thread-search-status px-3 py-2 text-sm text-muted-foreground">
+        Searching…
+      </p>
+    );
+  }
+  if ("error" in search) {
+    return (
+      <p className="aui-thread-search-status px-3 py-2 text-sm text-destructive">
+        Search failed: {search.error}
+      </p>
+    );
+  }
+  if (search.results.length === 0) {
+    return (
+      <p className="aui-thread-search-status px-3 py-2 text-sm text-muted-foreground">
+        No chats match “{search.query.trim()}”.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="aui-thread-search-results flex flex-col gap-1">
+      {search.results.map((result) => (
+        <li key={result.threadId}>
+          <button
+            type="button"
+            className="aui-thread-search-result flex w-full flex-col gap-0.5 rounded-lg px-3 py-2 text-start hover:bg-muted focus-visible:bg-muted focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none"
+            onClick={() => open(result)}
+          >
+            <span className="flex items-center gap-2 text-sm">
+              <span className="truncate font-medium">
+                {result.title || "New Chat"}
+              </span>
+              {result.status === "archived" ? (
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  Archived
+                </span>
+              ) : null}
+              {result.matches > 1 ? (
+                <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                  {result.matches}
+                </span>
+              ) : null}
+            </span>
+            {result.snippet ? (
+              <span className="line-clamp-3 text-xs text-muted-foreground">
+                {result.role === "user" ? "You: " : null}
+                {result.snippet.map((segment, index) =>
+                  segment.match ? (
+                    <mark
+                      key={index}
+                      className="rounded-sm bg-yellow-200/70 text-foreground dark:bg-yellow-500/30"
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  ),
+                )}
+              </span>
+            ) : null}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -7,7 +7,9 @@ import {
   ChevronLeftIcon,
   ChevronRightIcon,
   CopyIcon,
+  ImageIcon,
   PencilIcon,
+  PlayIcon,
   RefreshCwIcon,
   Square,
 } from "lucide-react";
@@ -19,9 +21,11 @@ import {
   ErrorPrimitive,
   MessagePrimitive,
   ThreadPrimitive,
+  useAssistantRuntime,
+  useAssistantState,
 } from "@assistant-ui/react";
 
-import type { FC } from "react";
+import { useEffect, useRef, useState, type FC } from "react";
 import { LazyMotion, MotionConfig, domAnimation } from "motion/react";
 import * as m from "motion/react-m";
 
@@ -29,6 +33,14 @@ import { Button } from "@/components/ui/button";
 import { MarkdownText } from "@/components/assistant-ui/markdown-text";
 import { Reasoning, ReasoningGroup } from "@/components/assistant-ui/reasoning";
 import { ToolFallback } from "@/components/assistant-ui/tool-fallback";
+import { MessageUsage } from "@/components/assistant-ui/message-usage";
+import { GeneratedImages } from "@/components/assistant-ui/image-card";
+import { ImageOptionsMenu } from "@/components/assistant-ui/image-options-menu";
+import {
+  ContextOmissionNotice,
+  PinMessageButton,
+} from "@/components/assistant-ui/context-indicator";
+import { InspectMessageButton } from "@/components/assistant-ui/request-inspector";
 import { TooltipIconButton } from "@/components/assistant-ui/tooltip-icon-button";
 import {
   ComposerAddAttachment,
@@ -38,14 +50,32 @@ import {
 
 import { cn } from "@/lib/utils";
 import { GoogleAuthWidget } from "@/components/auth/google-auth-widget";
-import { type TransportErrorInfo } from "@/lib/browser-chat-transport";
+import {
+  type TransportErrorInfo,
+  type TransportRetryInfo,
+} from "@/lib/browser-chat-transport";
+import {
+  continueGenerating,
+  regenerateAsText,
+  retryLastRequest,
+} from "@/lib/chat-runtime";
+import { useContextStore, useContextStrategy } from "@/lib/context-store";
+import { useImageMode, useImageModeStore } from "@/lib/image-mode-store";
+import { useThreadProvider } from "@/lib/provider-store";
+import { isLLM7Provider } from "@/lib/providers";
+import { useSearchFocusStore } from "@/lib/thread-search";
+import type { ImageRequestTrigger } from "@/lib/image-intent";
+import { useMessageMetadata } from "@/hooks/use-message-metadata";
 
 type ThreadProps = {
   transportError?: TransportErrorInfo | null;
   onClearTransportError?: () => void;
 };
 
-export const Thread: FC<ThreadProps> = ({ transportError, onClearTransportError }) => {
+export const Thread: FC<ThreadProps> = ({
+  transportError,
+  onClearTransportError,
+}) => {
   return (
     <LazyMotion features={domAnimation}>
       <MotionConfig reducedMotion="user">
@@ -55,6 +85,7 @@ export const Thread: FC<ThreadProps> = ({ transportError, onClearTransportError
             ["--thread-max-width" as string]: "44rem",
           }}
         >
+          <SearchResultFocus />
           <ThreadPrimitive.Viewport className="aui-thread-viewport relative flex flex-1 flex-col overflow-x-auto overflow-y-scroll px-4">
             <ThreadPrimitive.If empty>
               <ThreadWelcome />
@@ -87,10 +118,72 @@ export const Thread: FC<ThreadProps> = ({ transportError, onClearTransportError
   );
 };
 
+/**
+ * Shows the message opened from a search result: switches to its branch if
+ * another one is shown. `useSearchMatch` scrolls to it.
+ */
+const SearchResultFocus: FC = () => {
+  const runtime = useAssistantRuntime();
+  const focus = useSearchFocusStore((state) => state.focus);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const isLoading = useAssistantState(({ thread }) => thread.isLoading);
+  const messageIds = useAssistantState(({ thread }) =>
+    thread.messages.map((message) => message.id).join(","),
+  );
+
+  useEffect(() => {
+    if (!focus || focus.threadId !== threadId || isLoading) return;
+    if (messageIds.split(",").includes(focus.messageId)) return;
+    try {
+      runtime.thread
+        .getMessageById(focus.messageId)
+        .switchToBranch({ branchId: focus.messageId });
+    } catch {
+      // Not loaded yet; retried as messages come in.
+    }
+  }, [focus, threadId, isLoading, messageIds, runtime]);
+
+  return null;
+};
+
+const SEARCH_HIGHLIGHT_MS = 2500;
+
+/**
+ * Scroll to and briefly highlight the message if it was opened from a
+ * search result.
+ */
+const useSearchMatch = () => {
+  const ref = useRef<HTMLDivElement>(null);
+  const messageId = useAssistantState(({ message }) => message.id);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const isMatch = useSearchFocusStore(
+    ({ focus }) =>
+      focus?.threadId === threadId && focus.messageId === messageId,
+  );
+
+  useEffect(() => {
+    if (!isMatch) return;
+    const frame = requestAnimationFrame(() =>
+      ref.current?.scrollIntoView({ block: "center", behavior: "smooth" }),
+    );
+    const timer = setTimeout(
+      () => useSearchFocusStore.getState().setFocus(null),
+      SEARCH_HIGHLIGHT_MS,
+    );
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [isMatch]);
+
+  return { ref, isMatch };
+};
+
 type ErrorAction =
   | { kind: "auth"; heading: string; body: string }
   | { kind: "subscribe"; heading: string; body: string; label: string }
-  | { kind: "limit"; heading: string; body: string };
+  | { kind: "context"; heading: string; body: string }
+  | { kind: "notice"; heading: string; body: string };
 
 const SUBSCRIPTION_URL = "https://token.llm7.io/?subscription=show";
 
@@ -98,10 +191,17 @@ const TransportErrorCard: FC<{
   error: TransportErrorInfo;
   onDismiss?: () => void;
 }> = ({ error, onDismiss }) => {
+  if (error.retry) {
+    return <RetryNotice error={error} retry={error.retry} />;
+  }
+
   const action = pickErrorAction(error);
+  const showLimits =
+    !error.providerName &&
+    (error.category === "rate-limit" || error.category === "quota");
 
   return (
-    <div className="aui-transport-error mx-auto mb-4 mt-4 w-full max-w-[var(--thread-max-width)] rounded-xl border border-destructive/40 bg-destructive/5 p-4 text-sm shadow-sm dark:bg-destructive/10">
+    <div className="aui-transport-error mx-auto mt-4 mb-4 w-full max-w-[var(--thread-max-width)] rounded-xl border border-destructive/40 bg-destructive/5 p-4 text-sm shadow-sm dark:bg-destructive/10">
       <div className="flex flex-col gap-3">
         <div className="flex items-start gap-3">
           <div className="flex-1">
@@ -152,27 +252,181 @@ const TransportErrorCard: FC<{
           </div>
         ) : null}
 
+        {action.kind === "context" ? (
+          <ContextErrorActions onDone={onDismiss} />
+        ) : null}
+
         <div className="text-[11px] text-muted-foreground">
-          Error {error.status} {error.statusText || ""} • {error.message} •{" "}
-          <a
-            href="https://docs.llm7.io/limits"
-            target="_blank"
-            rel="noreferrer"
-            className="underline"
-          >
-            View limits
-          </a>
+          Error {error.status} {error.statusText || ""} • {error.message}
+          {error.code ? ` (${error.code})` : null}
+          {showLimits ? (
+            <>
+              {" "}
+              •{" "}
+              <a
+                href="https://docs.llm7.io/limits"
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                View limits
+              </a>
+            </>
+          ) : null}
         </div>
+        {error.details ? (
+          <details className="text-[11px] text-muted-foreground">
+            <summary className="cursor-pointer">Response body</summary>
+            <pre className="mt-1 max-h-40 overflow-auto rounded-md bg-background p-2 break-all whitespace-pre-wrap">
+              {error.details}
+            </pre>
+          </details>
+        ) : null}
       </div>
     </div>
   );
 };
 
+const ContextErrorActions: FC<{ onDone?: () => void }> = ({ onDone }) => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const strategy = useContextStrategy();
+  const setStrategy = useContextStore((state) => state.setStrategy);
+
+  const retry = () => {
+    onDone?.();
+    void retryLastRequest(threadId);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {strategy !== "summarize" ? (
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => {
+            setStrategy("summarize");
+            retry();
+          }}
+        >
+          Summarize older messages and retry
+        </Button>
+      ) : null}
+      <Button type="button" size="sm" variant="outline" onClick={retry}>
+        Retry
+      </Button>
+    </div>
+  );
+};
+
+const useSecondsUntil = (timestamp: number) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [timestamp]);
+
+  return Math.max(0, Math.ceil((timestamp - now) / 1000));
+};
+
+const RetryNotice: FC<{
+  error: TransportErrorInfo;
+  retry: TransportRetryInfo;
+}> = ({ error, retry }) => {
+  const seconds = useSecondsUntil(retry.retryAt);
+
+  return (
+    <div className="aui-transport-retry mx-auto mt-4 mb-4 flex w-full max-w-[var(--thread-max-width)] items-start gap-3 rounded-xl border bg-muted/40 p-4 text-sm shadow-sm">
+      <RefreshCwIcon className="mt-0.5 size-4 shrink-0 animate-spin text-muted-foreground" />
+      <div className="flex-1">
+        <div className="font-semibold">
+          {seconds > 0 ? `Retrying in ${seconds}s` : "Retrying…"}
+        </div>
+        <div className="mt-1 text-muted-foreground">
+          {error.status === 0
+            ? "The request could not reach the server."
+            : `The server responded with ${error.status}${error.statusText ? ` ${error.statusText}` : ""}.`}{" "}
+          Attempt {retry.attempt + 1} of {retry.maxAttempts}.
+        </div>
+      </div>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={retry.cancel}
+        className="shrink-0"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+const notice = (heading: string, body: string): ErrorAction => ({
+  kind: "notice",
+  heading,
+  body,
+});
+
 const pickErrorAction = (error: TransportErrorInfo): ErrorAction => {
+  const server = error.providerName ?? "LLM7";
+
+  switch (error.category) {
+    case "context-length":
+      return {
+        kind: "context",
+        heading: "This chat is too long for the model",
+        body: "Let the model summarize older messages, start a new chat, or pick a model with a larger context window.",
+      };
+    case "content-policy":
+      return notice(
+        "The request was blocked",
+        "It was flagged by the content policy. Rephrase your message and try again.",
+      );
+    case "invalid-model":
+      return notice(
+        "Model not available",
+        `${server} doesn't offer the selected model. Pick another one from the model menu.`,
+      );
+    case "invalid-request":
+      return notice(
+        "The request was rejected",
+        error.param
+          ? `The server didn't accept the value of "${error.param}". Check the generation parameters.`
+          : "The server didn't accept the request. Check the generation parameters and attachments.",
+      );
+    case "server":
+      return notice(
+        `${server} had a problem`,
+        "This is usually temporary. Try again in a moment.",
+      );
+    case "network":
+      return notice(
+        `Could not reach ${server}`,
+        error.providerName
+          ? "Is the server running, and does it allow requests from this site (CORS)?"
+          : "Check your internet connection and try again.",
+      );
+  }
+
+  if (error.providerName) {
+    return notice(
+      `${error.providerName} request failed`,
+      error.category === "auth"
+        ? "The server rejected the API key. Check the provider profile."
+        : error.category === "quota"
+          ? "The account behind the API key is out of credits."
+          : error.category === "rate-limit"
+            ? "The server is rate limiting requests. Wait a moment and try again."
+            : "The server returned an error.",
+    );
+  }
+
   if (!error.authed) {
-    const base = error.status === 429
-      ? "Anonymous requests have a strict rate limit."
-      : "You need to sign in to continue.";
+    const base =
+      error.category === "rate-limit"
+        ? "Anonymous requests have a strict rate limit."
+        : "You need to sign in to continue.";
     return {
       kind: "auth",
       heading: "Sign in with Google to keep chatting",
@@ -180,6 +434,14 @@ const pickErrorAction = (error: TransportErrorInfo): ErrorAction => {
     };
   }
 
+  if (error.category === "auth") {
+    return {
+      kind: "auth",
+      heading: "Your session has expired",
+      body: "Sign in again to keep chatting.",
+    };
+  }
+
   switch (error.sub) {
     case 0:
     case 1:
@@ -197,11 +459,10 @@ const pickErrorAction = (error: TransportErrorInfo): ErrorAction => {
         label: "Upgrade to Pro",
       };
     case 3:
-      return {
-        kind: "limit",
-        heading: "Pro limit reached",
-        body: "You’ve hit the Pro plan cap. Try again shortly.",
-      };
+      return notice(
+        "Pro limit reached",
+        "You’ve hit the Pro plan cap. Try again shortly.",
+      );
     default:
       return {
         kind: "auth",
@@ -312,14 +573,20 @@ const ThreadSuggestions: FC = () => {
 };
 
 const Composer: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const provider = useThreadProvider(threadId);
+  const imageMode = useImageMode(threadId) && isLLM7Provider(provider);
+
   return (
     <div className="aui-composer-wrapper sticky bottom-0 mx-auto flex w-full max-w-[var(--thread-max-width)] flex-col gap-4 overflow-visible rounded-t-3xl bg-background pb-4 md:pb-6">
       <ThreadScrollToBottom />
       <ComposerPrimitive.Root className="aui-composer-root relative flex w-full flex-col">
         <ComposerPrimitive.AttachmentDropzone className="aui-composer-attachment-dropzone group/input-group flex w-full flex-col rounded-3xl border border-input bg-background px-1 pt-2 shadow-xs transition-[color,box-shadow] outline-none has-[textarea:focus-visible]:border-ring has-[textarea:focus-visible]:ring-[3px] has-[textarea:focus-visible]:ring-ring/50 data-[dragging=true]:border-dashed data-[dragging=true]:border-ring data-[dragging=true]:bg-accent/50 dark:bg-background">
-          {/*<ComposerAttachments />*/}
+          <ComposerAttachments />
           <ComposerPrimitive.Input
-            placeholder="Send a message..."
+            placeholder={
+              imageMode ? "Describe an image..." : "Send a message..."
+            }
             className="aui-composer-input mb-1 max-h-32 min-h-16 w-full resize-none bg-transparent px-3.5 pt-1.5 pb-3 text-base outline-none placeholder:text-muted-foreground focus-visible:ring-0"
             rows={1}
             autoFocus
@@ -333,12 +600,18 @@ const Composer: FC = () => {
 };
 
 const ComposerAction: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const imageMode = useImageMode(threadId);
+  // Image generation is an LLM7 feature.
+  const imagesAvailable = isLLM7Provider(useThreadProvider(threadId));
+
   return (
-    <div
-      className="aui-composer-action-wrapper relative mx-1 mt-2 mb-2 flex items-center gap-2"
-      style={{ justifyContent: "flex-end" }}
-    >
-      {/*<ComposerAddAttachment />*/}
+    <div className="aui-composer-action-wrapper relative mx-1 mt-2 mb-2 flex items-center justify-between gap-2">
+      <div className="flex items-center gap-1">
+        <ComposerAddAttachment />
+        {imagesAvailable ? <ImageModeToggle /> : null}
+        {imagesAvailable && imageMode ? <ImageOptionsMenu /> : null}
+      </div>
 
       <ThreadPrimitive.If running={false}>
         <div style={{ display: "flex" }}>
@@ -385,11 +658,42 @@ const MessageError: FC = () => {
   );
 };
 
+const ImageModeToggle: FC = () => {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const imageMode = useImageMode(threadId);
+  const setImageMode = useImageModeStore((state) => state.setImageMode);
+
+  return (
+    <TooltipIconButton
+      tooltip={
+        imageMode ? "Image mode on" : "Image mode (or start with /image)"
+      }
+      side="bottom"
+      variant="ghost"
+      className={cn(
+        "aui-composer-image-mode size-[34px] rounded-full p-1 text-xs font-semibold hover:bg-muted-foreground/15 dark:border-muted-foreground/15 dark:hover:bg-muted-foreground/30",
+        imageMode && "bg-primary/10 text-primary hover:bg-primary/15",
+      )}
+      aria-label="Toggle image mode"
+      aria-pressed={imageMode}
+      onClick={() => setImageMode(threadId, !imageMode)}
+    >
+      <ImageIcon className="aui-composer-image-mode-icon size-5 stroke-[1.5px]" />
+    </TooltipIconButton>
+  );
+};
+
 const AssistantMessage: FC = () => {
+  const { ref, isMatch } = useSearchMatch();
+
   return (
     <MessagePrimitive.Root asChild>
       <div
-        className="aui-assistant-message-root relative mx-auto w-full max-w-[var(--thread-max-width)] animate-in py-4 duration-150 ease-out fade-in slide-in-from-bottom-1 last:mb-24"
+        ref={ref}
+        className={cn(
+          "aui-assistant-message-root relative mx-auto w-full max-w-[var(--thread-max-width)] animate-in rounded-xl py-4 duration-150 ease-out fade-in slide-in-from-bottom-1 last:mb-24",
+          isMatch && "bg-primary/5 ring-2 ring-primary/40",
+        )}
         data-role="assistant"
       >
         <div className="aui-assistant-message-content mx-2 leading-7 break-words text-foreground">
@@ -401,18 +705,116 @@ const AssistantMessage: FC = () => {
               tools: { Fallback: ToolFallback },
             }}
           />
+          <GeneratedImages />
           <MessageError />
+          <InterruptedNotice />
+          <ImageRequestNotice />
+          <ContextOmissionNotice className="mt-1" />
         </div>
 
         <div className="aui-assistant-message-footer mt-2 ml-2 flex">
           <BranchPicker />
           <AssistantActionBar />
+          <ContinueAction />
+          <MessageUsage />
         </div>
       </div>
     </MessagePrimitive.Root>
   );
 };
 
+const InterruptedNotice: FC = () => {
+  const metadata = useMessageMetadata();
+  const isLast = useAssistantState(({ message }) => message.isLast);
+  const isRunning = useAssistantState(({ thread }) => thread.isRunning);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+
+  if (!metadata?.interrupted) return null;
+
+  return (
+    <div className="aui-interrupted-notice mt-2 flex flex-wrap items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm text-muted-foreground">
+      <span className="flex-1">This response was interrupted.</span>
+      {isLast && !isRunning ? (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => void continueGenerating(threadId)}
+        >
+          <PlayIcon />
+          Continue generating
+        </Button>
+      ) : null}
+    </div>
+  );
+};
+
+/**
+ * Offered when the model stopped at the token limit; the continuation is
+ * appended to the same message.
+ */
+const ContinueAction: FC = () => {
+  const metadata = useMessageMetadata();
+  const isLast = useAssistantState(({ message }) => message.isLast);
+  const isRunning = useAssistantState(({ thread }) => thread.isRunning);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+
+  // Interrupted messages get their own notice with the same action.
+  if (metadata?.finishReason !== "length" || metadata.interrupted) return null;
+  if (!isLast || isRunning) return null;
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant="ghost"
+      className="aui-continue-action h-6 gap-1 px-2 text-xs text-muted-foreground"
+      title="The response stopped at the token limit"
+      onClick={() => void continueGenerating(threadId)}
+    >
+      <PlayIcon className="size-3.5" />
+      Continue
+    </Button>
+  );
+};
+
+const IMAGE_TRIGGER_LABELS: Record<ImageRequestTrigger, string> = {
+  command: "via /image",
+  "image-mode": "image mode",
+  heuristic: "detected automatically",
+  detector: "detected automatically",
+};
+
+const ImageRequestNotice: FC = () => {
+  const metadata = useMessageMetadata();
+  const messageId = useAssistantState(({ message }) => message.id);
+  const isLast = useAssistantState(({ message }) => message.isLast);
+  const isRunning = useAssistantState(({ thread }) => thread.isRunning);
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+
+  const trigger = metadata?.imageRequest?.trigger;
+  if (!trigger) return null;
+
+  return (
+    <div className="aui-image-request-notice mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+      <ImageIcon className="size-3.5" />
+      <span>Sent as image request ({IMAGE_TRIGGER_LABELS[trigger]})</span>
+      {isLast && !isRunning ? (
+        <>
+          <span aria-hidden>·</span>
+          <button
+            type="button"
+            className="underline underline-offset-2 hover:text-foreground"
+            onClick={() => void regenerateAsText(threadId, messageId)}
+          >
+            Send as text instead
+          </button>
+        </>
+      ) : null}
+    </div>
+  );
+};
+
 const AssistantActionBar: FC = () => {
   return (
     <ActionBarPrimitive.Root
@@ -436,15 +838,23 @@ const AssistantActionBar: FC = () => {
           <RefreshCwIcon />
         </TooltipIconButton>
       </ActionBarPrimitive.Reload>
+      <PinMessageButton />
+      <InspectMessageButton />
     </ActionBarPrimitive.Root>
   );
 };
 
 const UserMessage: FC = () => {
+  const { ref, isMatch } = useSearchMatch();
+
   return (
     <MessagePrimitive.Root asChild>
       <div
-        className="aui-user-message-root mx-auto grid w-full max-w-[var(--thread-max-width)] animate-in auto-rows-auto grid-cols-[minmax(72px,1fr)_auto] gap-y-2 px-2 py-4 duration-150 ease-out fade-in slide-in-from-bottom-1 first:mt-3 last:mb-5 [&:where(>*)]:col-start-2"
+        ref={ref}
+        className={cn(
+          "aui-user-message-root mx-auto grid w-full max-w-[var(--thread-max-width)] animate-in auto-rows-auto grid-cols-[minmax(72px,1fr)_auto] gap-y-2 rounded-xl px-2 py-4 duration-150 ease-out fade-in slide-in-from-bottom-1 first:mt-3 last:mb-5 [&:where(>*)]:col-start-2",
+          isMatch && "bg-primary/5 ring-2 ring-primary/40",
+        )}
         data-role="user"
       >
         <UserMessageAttachments />
@@ -458,6 +868,8 @@ const UserMessage: FC = () => {
           </div>
         </div>
 
+        <ContextOmissionNotice className="justify-end" />
+
         <BranchPicker className="aui-user-branch-picker col-span-full col-start-1 row-start-3 -mr-1 justify-end" />
       </div>
     </MessagePrimitive.Root>
@@ -476,6 +888,7 @@ const UserActionBar: FC = () => {
           <PencilIcon />
         </TooltipIconButton>
       </ActionBarPrimitive.Edit>
+      <PinMessageButton className="aui-user-action-pin p-4" />
     </ActionBarPrimitive.Root>
   );
 };
@@ -13,11 +13,20 @@ import {
   SidebarRail,
 } from "@/components/ui/sidebar";
 import { ThreadList } from "@/components/assistant-ui/thread-list";
+import {
+  ThreadSearchInput,
+  ThreadSearchResults,
+} from "@/components/assistant-ui/thread-search";
 import { GoogleAuthWidget } from "@/components/auth/google-auth-widget";
+import { CustomInstructionsButton } from "@/components/assistant-ui/instructions-dialog";
+import { ImportChatsButton } from "@/components/assistant-ui/import-dialog";
+import { InspectorToggle } from "@/components/assistant-ui/request-inspector";
 
 export function ThreadListSidebar({
   ...props
 }: React.ComponentProps<typeof Sidebar>) {
+  const [query, setQuery] = React.useState("");
+
   return (
     <Sidebar {...props}>
       <SidebarHeader className="aui-sidebar-header mb-2 border-b">
@@ -25,11 +34,16 @@ export function ThreadListSidebar({
           <SidebarMenu>
             <SidebarMenuItem>
               <SidebarMenuButton size="lg" asChild>
-                <Link
-                  href="#"
-                >
-                  <div  style={{ background: "transparent" }} className="aui-sidebar-header-icon-wrapper flex aspect-square size-8 items-center justify-center rounded-lg bg-sidebar-primary text-sidebar-primary-foreground">
-                    <img className="aui-sidebar-header-icon size-8" src="/llm7.png" alt="LLM7 Logo" />
+                <Link href="#">
+                  <div
+                    style={{ background: "transparent" }}
+                    className="aui-sidebar-header-icon-wrapper flex aspect-square size-8 items-center justify-center rounded-lg bg-sidebar-primary text-sidebar-primary-foreground"
+                  >
+                    <img
+                      className="aui-sidebar-header-icon size-8"
+                      src="/llm7.png"
+                      alt="LLM7 Logo"
+                    />
                   </div>
                   <div className="aui-sidebar-header-heading mr-6 flex flex-col gap-0.5 leading-none">
                     <span className="aui-sidebar-header-title font-semibold">
@@ -42,12 +56,24 @@ export function ThreadListSidebar({
           </SidebarMenu>
         </div>
       </SidebarHeader>
-      <SidebarContent className="aui-sidebar-content px-2">
-        <ThreadList />
+      <SidebarContent className="aui-sidebar-content gap-2 px-2">
+        <ThreadSearchInput value={query} onChange={setQuery} />
+        {query.trim() ? <ThreadSearchResults query={query} /> : <ThreadList />}
       </SidebarContent>
       <SidebarRail />
       <SidebarFooter className="aui-sidebar-footer border-t">
-        <div className="px-2 pb-2 pt-1">
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <CustomInstructionsButton />
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <ImportChatsButton />
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <InspectorToggle />
+          </SidebarMenuItem>
+        </SidebarMenu>
+        <div className="px-2 pt-1 pb-2">
           <GoogleAuthWidget />
         </div>
       </SidebarFooter>
@@ -1,5 +1,11 @@
 import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
-import { CheckIcon, ChevronDownIcon, ChevronUpIcon } from "lucide-react";
+import {
+  CheckIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  LoaderIcon,
+  XIcon,
+} from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 
@@ -7,14 +13,23 @@ export const ToolFallback: ToolCallMessagePartComponent = ({
   toolName,
   argsText,
   result,
+  isError,
+  status,
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(true);
+  const isRunning = status?.type === "running" && result === undefined;
   return (
     <div className="aui-tool-fallback-root mb-4 flex w-full flex-col gap-3 rounded-lg border py-3">
       <div className="aui-tool-fallback-header flex items-center gap-2 px-4">
-        <CheckIcon className="aui-tool-fallback-icon size-4" />
+        {isRunning ? (
+          <LoaderIcon className="aui-tool-fallback-icon size-4 animate-spin" />
+        ) : isError ? (
+          <XIcon className="aui-tool-fallback-icon size-4 text-destructive" />
+        ) : (
+          <CheckIcon className="aui-tool-fallback-icon size-4" />
+        )}
         <p className="aui-tool-fallback-title flex-grow">
-          Used tool: <b>{toolName}</b>
+          {isRunning ? "Using tool" : "Used tool"}: <b>{toolName}</b>
         </p>
         <Button onClick={() => setIsCollapsed(!isCollapsed)}>
           {isCollapsed ? <ChevronUpIcon /> : <ChevronDownIcon />}
@@ -2,14 +2,15 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import { API_TOKEN_KEY, ID_TOKEN_KEY } from "@/lib/auth";
+import { invalidateAccount, verifyAccount } from "@/lib/account-state";
+import { API_TOKEN_KEY, getTokenExpiry, ID_TOKEN_KEY } from "@/lib/auth";
+import { createMockIdToken, isMockBackend } from "@/lib/mock-backend";
 
 const GA_CLIENT_ID =
   "264062651955-8qamru5vjtu9kc1tk2trsgte5e10hm0m.apps.googleusercontent.com";
 const BASE_API_URL = "https://llm7-api.chigwel137.workers.dev";
 const API_TOKEN_FALLBACK_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
 
-type VerifyResponse = { email?: string; sub?: string };
 type GsiCredentialResponse = { credential?: string };
 
 declare global {
@@ -18,11 +19,11 @@ declare global {
       accounts?: {
         id?: {
           initialize: (
-            config: Record<string, unknown> & { client_id: string }
+            config: Record<string, unknown> & { client_id: string },
           ) => void;
           renderButton: (
             container: HTMLElement,
-            options: Record<string, unknown>
+            options: Record<string, unknown>,
           ) => void;
         };
       };
@@ -56,13 +57,13 @@ function buildCookieAttrs(maxAgeSeconds?: number) {
 
 function setCookie(name: string, value: string, maxAgeSeconds?: number) {
   document.cookie = `${encodeURIComponent(name)}=${encodeURIComponent(
-    value
+    value,
   )}; ${buildCookieAttrs(maxAgeSeconds)}`;
 }
 
 function deleteCookie(name: string) {
   document.cookie = `${encodeURIComponent(name)}=; ${buildCookieAttrs(
-    0
+    0,
   )}; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
 }
 
@@ -73,16 +74,10 @@ function getCookie(name: string) {
 }
 
 function jwtMaxAgeSeconds(jwt: string): number {
-  try {
-    const [, payloadB64] = jwt.split(".");
-    const json = atob(payloadB64.replace(/-/g, "+").replace(/_/g, "/"));
-    const { exp } = JSON.parse(json);
-    const ms = Math.max(0, exp * 1000 - Date.now());
-    return Math.floor(ms / 1000);
-  } catch {
-    // Default to 1 hour if parsing fails.
-    return 3600;
-  }
+  const expiresAt = getTokenExpiry(jwt);
+  // Default to 1 hour if parsing fails.
+  if (expiresAt === undefined) return 3600;
+  return Math.floor(Math.max(0, expiresAt - Date.now()) / 1000);
 }
 
 export function GoogleAuthWidget() {
@@ -111,9 +106,7 @@ export function GoogleAuthWidget() {
         expiresAt != null
           ? Math.max(
               0,
-              Math.floor(
-                (new Date(expiresAt).getTime() - Date.now()) / 1000,
-              ),
+              Math.floor((new Date(expiresAt).getTime() - Date.now()) / 1000),
             )
           : API_TOKEN_FALLBACK_MAX_AGE_SECONDS;
       try {
@@ -139,6 +132,7 @@ export function GoogleAuthWidget() {
     }
     deleteCookie(ID_TOKEN_KEY);
     deleteCookie(API_TOKEN_KEY);
+    invalidateAccount();
     setUserEmail(null);
     buttonRenderedRef.current = false;
     if (buttonRef.current) {
@@ -152,9 +146,7 @@ export function GoogleAuthWidget() {
         headers: { Authorization: `Bearer ${idToken}` },
       });
       if (!res.ok) {
-        throw new Error(
-          `Failed to fetch API token (${res.status})`,
-        );
+        throw new Error(`Failed to fetch API token (${res.status})`);
       }
       const data = (await res.json()) as {
         token?: string;
@@ -169,48 +161,45 @@ export function GoogleAuthWidget() {
     [persistApiToken],
   );
 
-  const verifyToken = useCallback(async (token: string) => {
-    if (verifyingRef.current) return;
-    verifyingRef.current = true;
-    setIsLoading(true);
-    setError(null);
+  const verifyToken = useCallback(
+    async (token: string) => {
+      if (verifyingRef.current) return;
+      verifyingRef.current = true;
+      setIsLoading(true);
+      setError(null);
 
-    try {
-      const res = await fetch(`${BASE_API_URL}/verify`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!res.ok) {
-        throw new Error(`Verify failed (${res.status})`);
-      }
-      const data = (await res.json()) as VerifyResponse;
-      if (!data?.email) {
-        throw new Error("Email missing from verify response");
+      try {
+        const { email } = await verifyAccount(token);
+        setUserEmail(email);
+        persistIdToken(token);
+        await fetchApiToken(token);
+      } catch (err) {
+        clearAuth();
+        setError("Could not verify Google sign-in. Please try again.");
+        // eslint-disable-next-line no-console
+        console.error("Auth verify failed", err);
+      } finally {
+        verifyingRef.current = false;
+        setIsLoading(false);
       }
-      setUserEmail(data.email);
-      persistIdToken(token);
-      await fetchApiToken(token);
-    } catch (err) {
-      clearAuth();
-      setError("Could not verify Google sign-in. Please try again.");
-      // eslint-disable-next-line no-console
-      console.error("Auth verify failed", err);
-    } finally {
-      verifyingRef.current = false;
-      setIsLoading(false);
-    }
-  }, [clearAuth, persistIdToken]);
+    },
+    [clearAuth, persistIdToken],
+  );
 
   const handleCredentialResponse = useCallback(
     async (response: GsiCredentialResponse) => {
       if (!response?.credential) return;
+      // A fresh sign-in may come with a different plan.
+      invalidateAccount();
       await verifyToken(response.credential);
     },
-    [verifyToken]
+    [verifyToken],
   );
 
   // Load Google GSI script once.
   useEffect(() => {
-    if (scriptReady) return;
+    // The mock backend signs in without Google.
+    if (scriptReady || isMockBackend()) return;
     if (document.getElementById("gsi-client")) {
       setScriptReady(true);
       return;
@@ -226,7 +215,12 @@ export function GoogleAuthWidget() {
 
   // Render the Google button when the script is ready and user is logged out.
   useEffect(() => {
-    if (!scriptReady || userEmail || !buttonRef.current || buttonRenderedRef.current)
+    if (
+      !scriptReady ||
+      userEmail ||
+      !buttonRef.current ||
+      buttonRenderedRef.current
+    )
       return;
     const google = window.google;
     const gsi = google?.accounts?.id;
@@ -275,11 +269,14 @@ export function GoogleAuthWidget() {
     : null;
 
   return (
-    <div className="rounded-lg px-3 py-3 text-sm" style={{ paddingLeft: "0px" }}>
+    <div
+      className="rounded-lg px-3 py-3 text-sm"
+      style={{ paddingLeft: "0px" }}
+    >
       {userEmail ? (
         <div className="flex items-center gap-3">
           <div className="flex-1">
-            <div className="font-semibold leading-tight" title={userEmail}>
+            <div className="leading-tight font-semibold" title={userEmail}>
               {displayEmail}
             </div>
             <div className="text-xs text-muted-foreground">Signed in</div>
@@ -293,9 +290,22 @@ export function GoogleAuthWidget() {
           </button>
         </div>
       ) : (
-        <div className="text-xs text-muted-foreground">Sign in with Google to use LLM7.chat</div>
+        <div className="text-xs text-muted-foreground">
+          Sign in with Google to use LLM7.chat
+        </div>
       )}
 
+      {!userEmail && isMockBackend() ? (
+        <button
+          type="button"
+          className="mt-2 rounded-md border border-border px-2 py-1 text-xs font-medium text-foreground transition hover:bg-muted"
+          onClick={() =>
+            handleCredentialResponse({ credential: createMockIdToken() })
+          }
+        >
+          Sign in (mock)
+        </button>
+      ) : null}
       <div
         ref={buttonRef}
         className={`mt-2 flex w-full justify-start ${userEmail ? "hidden" : ""}`}
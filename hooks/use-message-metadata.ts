@@ -0,0 +1,127 @@
+import {
+  getExternalStoreMessages,
+  useAssistantState,
+} from "@assistant-ui/react";
+import type { FileUIPart, UIMessage } from "ai";
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  addUsage,
+  type ChatMessageMetadata,
+  type TokenUsage,
+} from "@/lib/browser-chat-transport";
+import {
+  AI_SDK_FORMAT,
+  loadStoredMessages,
+  subscribeToStoredThreads,
+} from "@/lib/thread-storage";
+
+/**
+ * Metadata of the current message as set by the transport. assistant-ui's
+ * AI SDK converter drops UIMessage metadata, so read it off the original
+ * message instead.
+ */
+export function useMessageMetadata(): ChatMessageMetadata | undefined {
+  return useAssistantState(
+    ({ message }) =>
+      getExternalStoreMessages<UIMessage>(message)[0]?.metadata as
+        | ChatMessageMetadata
+        | undefined,
+  );
+}
+
+/**
+ * Image `file` parts of the current message. assistant-ui drops file parts
+ * from assistant messages, so they are read off the original message too.
+ */
+export function useMessageImages(): FileUIPart[] {
+  const message = useAssistantState(
+    ({ message }) => getExternalStoreMessages<UIMessage>(message)[0],
+  );
+
+  return useMemo(
+    () =>
+      (message?.parts ?? []).filter(
+        (part): part is FileUIPart =>
+          part.type === "file" && part.mediaType.startsWith("image/"),
+      ),
+    [message],
+  );
+}
+
+/**
+ * Token usage summed over every message of the current thread, including
+ * branches that aren't shown (regenerated and edited turns). Messages come
+ * from storage, with the shown ones taking precedence while they stream.
+ */
+export function useThreadUsage(): TokenUsage | undefined {
+  const threadId = useAssistantState(({ threads }) => threads.mainThreadId);
+  const messages = useAssistantState(({ thread }) => thread.messages);
+  const [stored, setStored] = useState<{
+    threadId: string;
+    messages: UIMessage[];
+  }>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      loadStoredMessages(threadId, AI_SDK_FORMAT)
+        .then((result) => {
+          if (cancelled) return;
+          setStored({
+            threadId,
+            messages: result.messages.map(
+              ({ content }) => content as UIMessage,
+            ),
+          });
+        })
+        .catch(() => undefined);
+    void load();
+    const unsubscribe = subscribeToStoredThreads((changed) => {
+      if (changed === threadId) void load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [threadId]);
+
+  return useMemo(() => {
+    const byId = new Map<string, UIMessage>();
+    if (stored?.threadId === threadId) {
+      for (const message of stored.messages) byId.set(message.id, message);
+    }
+    for (const message of messages) {
+      const original = getExternalStoreMessages<UIMessage>(message)[0];
+      if (original) byId.set(original.id, original);
+    }
+
+    let total: TokenUsage | undefined;
+    for (const message of byId.values()) {
+      const usage = (message.metadata as ChatMessageMetadata | undefined)
+        ?.usage;
+      if (usage) total = addUsage(total, usage);
+    }
+    return total;
+  }, [stored, threadId, messages]);
+}
+
+/**
+ * Whether the current message was left out of the latest request to fit the
+ * context window, and if so whether it was sent as part of a summary.
+ */
+export function useContextOmission(): "omitted" | "summarized" | null {
+  const messageId = useAssistantState(({ message }) => message.id);
+  const context = useAssistantState(({ thread }) => {
+    const last = thread.messages.at(-1);
+    if (last?.role !== "assistant") return undefined;
+    return (
+      getExternalStoreMessages<UIMessage>(last)[0]?.metadata as
+        | ChatMessageMetadata
+        | undefined
+    )?.context;
+  });
+
+  if (!context?.omittedMessageIds.includes(messageId)) return null;
+  return context.summarized ? "summarized" : "omitted";
+}
@@ -0,0 +1,131 @@
+import { create } from "zustand";
+
+import {
+  getStoredToken,
+  getTokenExpiry,
+  ID_TOKEN_KEY,
+  VERIFY_URL,
+} from "@/lib/auth";
+
+/**
+ * Fallback cache lifetime when the ID token carries no readable `exp`.
+ */
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+export type Account = {
+  email: string;
+  /**
+   * Subscription tier; undefined when the verify service doesn't report one.
+   */
+  sub?: number;
+};
+
+type AccountState = {
+  /**
+   * ID token the cached account was verified with.
+   */
+  idToken: string | null;
+  account: Account | null;
+  /**
+   * Epoch ms after which the cached account must be re-verified.
+   */
+  expiresAt: number;
+};
+
+const EMPTY_STATE: AccountState = {
+  idToken: null,
+  account: null,
+  expiresAt: 0,
+};
+
+export const useAccountStore = create<AccountState>()(() => EMPTY_STATE);
+
+let pending: { idToken: string; promise: Promise<Account> } | null = null;
+
+const parseSub = (value: unknown) => {
+  const sub =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Number.parseInt(value, 10)
+        : undefined;
+  return Number.isFinite(sub) ? sub : undefined;
+};
+
+const requestAccount = async (idToken: string): Promise<Account> => {
+  const res = await fetch(VERIFY_URL, {
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  if (!res.ok) {
+    throw new Error(`Verify failed (${res.status})`);
+  }
+  const data = (await res.json()) as { email?: string; sub?: unknown };
+  if (!data?.email) {
+    throw new Error("Email missing from verify response");
+  }
+  return { email: data.email, sub: parseSub(data.sub) };
+};
+
+/**
+ * Verified account for an ID token. Served from cache until the token
+ * expires; concurrent calls for the same token share one `/verify` request.
+ * Rejects when the token is not accepted.
+ */
+export const verifyAccount = (idToken: string): Promise<Account> => {
+  const cached = useAccountStore.getState();
+  if (
+    cached.idToken === idToken &&
+    cached.account &&
+    Date.now() < cached.expiresAt
+  ) {
+    return Promise.resolve(cached.account);
+  }
+  if (pending?.idToken === idToken) return pending.promise;
+
+  const promise = requestAccount(idToken)
+    .then((account) => {
+      // Ignore results that were invalidated while in flight.
+      if (pending?.promise === promise) {
+        useAccountStore.setState({
+          idToken,
+          account,
+          expiresAt: getTokenExpiry(idToken) ?? Date.now() + DEFAULT_TTL_MS,
+        });
+      }
+      return account;
+    })
+    .finally(() => {
+      if (pending?.promise === promise) pending = null;
+    });
+  pending = { idToken, promise };
+  return promise;
+};
+
+/**
+ * Subscription tier of the signed-in user, or undefined when signed out or
+ * the token can't be verified.
+ */
+export const getSubscriptionTier = async (
+  idToken = getStoredToken(ID_TOKEN_KEY),
+): Promise<number | undefined> => {
+  if (!idToken) return undefined;
+  try {
+    return (await verifyAccount(idToken)).sub;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Drop the cached account, e.g. on login or logout.
+ */
+export const invalidateAccount = () => {
+  pending = null;
+  useAccountStore.setState(EMPTY_STATE);
+};
+
+/**
+ * Subscription tier of the cached account, for rendering.
+ */
+export const useSubscriptionTier = () =>
+  useAccountStore((state) => state.account?.sub);
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import { describeApiError, parseApiErrorBody } from "@/lib/api-errors";
+
+describe("parseApiErrorBody", () => {
+  it("reads OpenAI-style error objects", () => {
+    expect(
+      parseApiErrorBody(
+        JSON.stringify({
+          error: {
+            message: "Invalid temperature",
+            type: "invalid_request_error",
+            code: 400,
+            param: "temperature",
+          },
+        }),
+      ),
+    ).toEqual({
+      message: "Invalid temperature",
+      type: "invalid_request_error",
+      code: "400",
+      param: "temperature",
+    });
+  });
+
+  it("reads string errors, messages and details", () => {
+    expect(parseApiErrorBody('{"error":"Bad key"}')).toEqual({
+      message: "Bad key",
+    });
+    expect(parseApiErrorBody('{"message":"Slow down"}')).toEqual({
+      message: "Slow down",
+    });
+    expect(parseApiErrorBody('{"detail":"Not found"}')).toEqual({
+      message: "Not found",
+    });
+  });
+
+  it("falls back to the raw text", () => {
+    expect(parseApiErrorBody(" Bad Gateway \n")).toEqual({
+      message: "Bad Gateway",
+    });
+    expect(parseApiErrorBody('{"ok":false}')).toEqual({
+      message: '{"ok":false}',
+    });
+  });
+});
+
+describe("describeApiError", () => {
+  const error = (message: string, code?: string, type?: string) =>
+    JSON.stringify({ error: { message, code, type } });
+
+  it.each([
+    [0, "", "network"],
+    [400, error("Too long", "context_length_exceeded"), "context-length"],
+    [
+      400,
+      error("This model's maximum context length is 8192 tokens"),
+      "context-length",
+    ],
+    [
+      400,
+      error("Your prompt was flagged by our safety system"),
+      "content-policy",
+    ],
+    [404, error("The model `gpt-9` does not exist"), "invalid-model"],
+    [429, error("You exceeded your current quota"), "quota"],
+    [402, "Payment Required", "quota"],
+    [429, error("Rate limit reached", "rate_limit_exceeded"), "rate-limit"],
+    [429, "Too Many Requests", "rate-limit"],
+    [401, error("Incorrect API key provided", "invalid_api_key"), "auth"],
+    [400, error("Bad key", undefined, "authentication_error"), "auth"],
+    [403, "Forbidden", "auth"],
+    [503, "Service Unavailable", "server"],
+    [422, error("Unknown parameter: foo"), "invalid-request"],
+    [200, "", "unknown"],
+  ])("classifies %i %s as %s", (status, body, category) => {
+    expect(describeApiError(status, body).category).toBe(category);
+  });
+
+  it("checks specific causes before the status", () => {
+    // Context length errors come back as 429 from some providers.
+    expect(
+      describeApiError(429, error("Request too large: too many tokens")),
+    ).toMatchObject({
+      category: "context-length",
+      message: "Request too large: too many tokens",
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * What went wrong with an API request, coarse enough to pick guidance and
+ * actions for the user.
+ */
+export type ApiErrorCategory =
+  | "auth"
+  | "quota"
+  | "rate-limit"
+  | "context-length"
+  | "content-policy"
+  | "invalid-model"
+  | "invalid-request"
+  | "server"
+  | "network"
+  | "unknown";
+
+export type ApiErrorDetails = {
+  category: ApiErrorCategory;
+  /**
+   * Human-readable message: `error.message` from an OpenAI-style body, else
+   * the body text itself.
+   */
+  message: string;
+  /** OpenAI `error.type`, e.g. `invalid_request_error`. */
+  type?: string;
+  /** OpenAI `error.code`, e.g. `context_length_exceeded`. */
+  code?: string;
+  /** Request field the error is about, e.g. `temperature`. */
+  param?: string;
+};
+
+const asString = (value: unknown) =>
+  typeof value === "string" && value.length > 0
+    ? value
+    : typeof value === "number"
+      ? String(value)
+      : undefined;
+
+/**
+ * Pull message, type, code and param out of an error body. Understands
+ * `{ "error": { "message", "type", "code", "param" } }`, `{ "error": "..." }`
+ * and `{ "message": "..." }`; anything else is used as plain text.
+ */
+export const parseApiErrorBody = (
+  text: string,
+): Omit<ApiErrorDetails, "category"> => {
+  try {
+    const parsed = JSON.parse(text) as {
+      error?: unknown;
+      message?: unknown;
+      detail?: unknown;
+    };
+    const error = parsed?.error;
+    if (error && typeof error === "object") {
+      const { message, type, code, param } = error as Record<string, unknown>;
+      return {
+        message: asString(message) ?? text,
+        type: asString(type),
+        code: asString(code),
+        param: asString(param),
+      };
+    }
+    const message =
+      asString(error) ?? asString(parsed?.message) ?? asString(parsed?.detail);
+    if (message) return { message };
+  } catch {
+    // Not JSON; use the raw text.
+  }
+  return { message: text.trim() };
+};
+
+const CONTEXT_LENGTH =
+  /context[ _]length|context window|maximum context|too many tokens|prompt is too long|reduce the length/i;
+const CONTENT_POLICY =
+  /content[ _](?:policy|filter|management)|safety system|flagged|moderation/i;
+const INVALID_MODEL =
+  /model[^.]*(?:does not exist|not found|not available|not supported)|(?:unknown|invalid|unsupported) model/i;
+const QUOTA =
+  /quota|billing|insufficient (?:funds|credits?|balance)|payment required/i;
+
+/**
+ * Classify a failed request by status and whatever the body revealed.
+ * Specific causes (context length, content policy, model, quota) are checked
+ * before the generic status classes, since servers report them with 400,
+ * 404 or 429 alike.
+ */
+export const classifyApiError = (
+  status: number,
+  { message, type, code }: Omit<ApiErrorDetails, "category">,
+): ApiErrorCategory => {
+  const signals = [code, type, message].filter(Boolean).join(" ");
+
+  if (status === 0) return "network";
+  if (code === "context_length_exceeded" || CONTEXT_LENGTH.test(signals)) {
+    return "context-length";
+  }
+  if (
+    code === "content_filter" ||
+    code === "content_policy_violation" ||
+    CONTENT_POLICY.test(signals)
+  ) {
+    return "content-policy";
+  }
+  if (code === "model_not_found" || INVALID_MODEL.test(signals))
+    return "invalid-model";
+  if (status === 402 || code === "insufficient_quota" || QUOTA.test(signals)) {
+    return "quota";
+  }
+  if (status === 429 || code === "rate_limit_exceeded") return "rate-limit";
+  if (
+    status === 401 ||
+    status === 403 ||
+    code === "invalid_api_key" ||
+    type === "authentication_error"
+  ) {
+    return "auth";
+  }
+  if (status >= 500) return "server";
+  if (status >= 400) return "invalid-request";
+  return "unknown";
+};
+
+/**
+ * Parse and classify an error response body.
+ */
+export const describeApiError = (
+  status: number,
+  text: string,
+): ApiErrorDetails => {
+  const details = parseApiErrorBody(text);
+  return { ...details, category: classifyApiError(status, details) };
+};
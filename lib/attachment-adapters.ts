@@ -0,0 +1,279 @@
+import {
+  CompositeAttachmentAdapter,
+  type AttachmentAdapter,
+  type PendingAttachment,
+} from "@assistant-ui/react";
+
+const MAX_IMAGE_DIMENSION = 1568;
+const IMAGE_QUALITY = 0.85;
+const MAX_TEXT_FILE_BYTES = 512 * 1024;
+
+/**
+ * File extensions treated as plain text even when the browser reports no
+ * (or a non-text) MIME type, which is common for source code.
+ */
+const TEXT_FILE_EXTENSIONS = [
+  ".txt",
+  ".md",
+  ".markdown",
+  ".csv",
+  ".tsv",
+  ".json",
+  ".jsonl",
+  ".xml",
+  ".yaml",
+  ".yml",
+  ".toml",
+  ".ini",
+  ".log",
+  ".html",
+  ".css",
+  ".scss",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".py",
+  ".rb",
+  ".go",
+  ".rs",
+  ".java",
+  ".kt",
+  ".c",
+  ".h",
+  ".cpp",
+  ".hpp",
+  ".cs",
+  ".php",
+  ".swift",
+  ".sh",
+  ".bash",
+  ".sql",
+  ".r",
+  ".lua",
+  ".dart",
+  ".vue",
+  ".svelte",
+];
+
+const readAsDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Encode text as a UTF-8 `data:` URL so it survives as a `file` message part.
+ */
+export const textToDataURL = (text: string, mediaType = "text/plain") => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return `data:${mediaType};charset=utf-8;base64,${btoa(binary)}`;
+};
+
+/**
+ * Decode a `data:` URL produced by `textToDataURL` (or any base64/percent
+ * encoded text data URL) back into a string.
+ */
+export const dataURLToText = (url: string) => {
+  const comma = url.indexOf(",");
+  if (!url.startsWith("data:") || comma === -1) return "";
+  const meta = url.slice(5, comma);
+  const payload = url.slice(comma + 1);
+  if (!meta.endsWith(";base64")) return decodeURIComponent(payload);
+  const binary = atob(payload);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image "${file.name}".`));
+    };
+    img.src = url;
+  });
+
+/**
+ * Downscale an image so its longest side fits MAX_IMAGE_DIMENSION and return
+ * it as a data URL. Small images and animated GIFs are passed through as-is.
+ */
+const toDownscaledDataURL = async (file: File) => {
+  if (file.type === "image/gif" || file.type === "image/svg+xml") {
+    return readAsDataURL(file);
+  }
+
+  const img = await loadImage(file);
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight),
+  );
+  if (scale === 1) return readAsDataURL(file);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return readAsDataURL(file);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const mediaType = file.type === "image/png" ? "image/png" : "image/jpeg";
+  return canvas.toDataURL(mediaType, IMAGE_QUALITY);
+};
+
+/**
+ * Extract the text layer of a PDF in the browser. pdf.js is loaded lazily so
+ * it only costs bandwidth when someone actually attaches a PDF.
+ */
+const extractPdfText = async (file: File) => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc ||= new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url,
+  ).toString();
+
+  const doc = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise;
+  const pages: string[] = [];
+  try {
+    for (let i = 1; i <= doc.numPages; i += 1) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item) =>
+          "str" in item ? item.str + (item.hasEOL ? "\n" : "") : "",
+        )
+        .join("")
+        .trim();
+      if (text) pages.push(`--- Page ${i} ---\n${text}`);
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  if (pages.length === 0) {
+    throw new Error(`"${file.name}" has no extractable text (is it scanned?).`);
+  }
+  return pages.join("\n\n");
+};
+
+const pendingAttachment = (
+  file: File,
+  type: PendingAttachment["type"],
+): PendingAttachment => ({
+  id: crypto.randomUUID(),
+  type,
+  name: file.name,
+  contentType: file.type || "text/plain",
+  file,
+  status: { type: "requires-action", reason: "composer-send" },
+});
+
+/**
+ * Images are downscaled client-side and sent as data URLs.
+ */
+export const imageAttachmentAdapter: AttachmentAdapter = {
+  accept: "image/*",
+  async add({ file }) {
+    return pendingAttachment(file, "image");
+  },
+  async send(attachment) {
+    return {
+      ...attachment,
+      status: { type: "complete" },
+      content: [
+        { type: "image", image: await toDownscaledDataURL(attachment.file) },
+      ],
+    };
+  },
+  async remove() {},
+};
+
+/**
+ * Plain text and source files are read as UTF-8 and kept as `text/plain`
+ * file parts; the transport inlines them as fenced code blocks.
+ */
+export const textAttachmentAdapter: AttachmentAdapter = {
+  // CompositeAttachmentAdapter only expands image/audio/video wildcards, so
+  // text types are listed explicitly.
+  accept: [
+    "text/plain",
+    "text/markdown",
+    "text/csv",
+    "text/html",
+    "text/css",
+    "text/xml",
+    "text/javascript",
+    "application/json",
+    "application/xml",
+    ...TEXT_FILE_EXTENSIONS,
+  ].join(","),
+  async add({ file }) {
+    if (file.size > MAX_TEXT_FILE_BYTES) {
+      throw new Error(
+        `"${file.name}" is larger than ${MAX_TEXT_FILE_BYTES / 1024} KB.`,
+      );
+    }
+    return pendingAttachment(file, "document");
+  },
+  async send(attachment) {
+    return {
+      ...attachment,
+      status: { type: "complete" },
+      content: [
+        {
+          type: "file",
+          filename: attachment.name,
+          mimeType: "text/plain",
+          data: textToDataURL(await attachment.file.text()),
+        },
+      ],
+    };
+  },
+  async remove() {},
+};
+
+/**
+ * PDFs are reduced to their text layer, so the message stores exactly the
+ * text the model received rather than the original binary.
+ */
+export const pdfAttachmentAdapter: AttachmentAdapter = {
+  accept: "application/pdf,.pdf",
+  async add({ file }) {
+    return pendingAttachment(file, "document");
+  },
+  async send(attachment) {
+    return {
+      ...attachment,
+      status: { type: "complete" },
+      content: [
+        {
+          type: "file",
+          filename: attachment.name,
+          mimeType: "text/plain",
+          data: textToDataURL(await extractPdfText(attachment.file)),
+        },
+      ],
+    };
+  },
+  async remove() {},
+};
+
+export const createAttachmentAdapter = () =>
+  new CompositeAttachmentAdapter([
+    imageAttachmentAdapter,
+    pdfAttachmentAdapter,
+    textAttachmentAdapter,
+  ]);
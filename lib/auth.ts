@@ -21,3 +21,20 @@ export const getStoredToken = (key: string): string | null => {
 
   return null;
 };
+
+export const VERIFY_URL = "https://llm7-api.chigwel137.workers.dev/verify";
+
+/**
+ * Expiry of a JWT (e.g. the Google ID token) as epoch ms, from its `exp`
+ * claim. Undefined when the token can't be decoded.
+ */
+export const getTokenExpiry = (jwt: string): number | undefined => {
+  try {
+    const [, payloadB64] = jwt.split(".");
+    const json = atob(payloadB64.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === "number" ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -1,204 +1,1134 @@
-import { ChatTransport, UIMessage, UIMessageChunk } from "ai";
+import {
+  ChatTransport,
+  FinishReason,
+  generateId,
+  getToolOrDynamicToolName,
+  isToolOrDynamicToolUIPart,
+  UIMessage,
+  UIMessageChunk,
+} from "ai";
+import { getSubscriptionTier } from "@/lib/account-state";
+import { describeApiError, type ApiErrorCategory } from "@/lib/api-errors";
+import { dataURLToText } from "@/lib/attachment-adapters";
+import {
+  DEFAULT_CONTEXT_STRATEGY,
+  estimateTokens,
+  getContextWindow,
+  getResponseReserve,
+  IMAGE_TOKEN_ESTIMATE,
+  MESSAGE_TOKEN_OVERHEAD,
+  selectContext,
+  type ContextSettings,
+} from "@/lib/context-window";
 import { getStoredToken, ID_TOKEN_KEY } from "@/lib/auth";
+import {
+  toOpenAITools,
+  validateToolInput,
+  type BrowserToolRegistry,
+} from "@/lib/browser-tools";
+import {
+  classifyImagePrompt,
+  parseImageCommand,
+  type ImageRequestTrigger,
+} from "@/lib/image-intent";
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  MAX_IMAGE_COUNT,
+  NOLOGO_MIN_TIER,
+  randomSeed,
+  type ImageGenerationInfo,
+  type ImageOptions,
+} from "@/lib/image-options";
+import { DEFAULT_MODEL } from "@/lib/models";
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  parseRetryAfter,
+  sleep,
+  type RetryPolicy,
+} from "@/lib/retry";
+import {
+  recordMessage,
+  type ExchangeRecorder,
+  type MessageRecorder,
+} from "@/lib/request-inspector";
+import { decodeSseStream, getSseErrorMessage, type SseEvent } from "@/lib/sse";
+import {
+  composeMiddleware,
+  getAuthHeader,
+  injectHeaders,
+  lookupTier,
+  routeImages,
+  type HeaderResolver,
+  type TransportMiddleware,
+  type TransportRequest,
+} from "@/lib/transport-middleware";
+import {
+  deleteJournalEntry,
+  journalStream,
+  readLatestJournalEntry,
+  replayJournalEntry,
+} from "@/lib/stream-journal";
 
-type HeaderValue = Record<string, string> | Headers | undefined;
-type HeaderResolver = () => Promise<Record<string, string>> | Record<string, string>;
+type ModelResolver = (chatId: string) => string;
 
-type BrowserChatTransportOptions = {
+/**
+ * Where a chat's requests go. Lets each thread use a different
+ * OpenAI-compatible server.
+ */
+export type ChatEndpoint = {
+  baseUrl: string;
+  /**
+   * Display name, used in error messages for non-LLM7 endpoints.
+   */
+  name?: string;
+  /**
+   * Headers sent instead of those from `getHeaders`.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Whether this is the LLM7 API. Subscription tiers, image generation and
+   * LLM7 request extensions are only used when it is.
+   */
+  llm7: boolean;
+};
+
+type BrowserChatTransportOptions<UI_MESSAGE extends UIMessage = UIMessage> = {
   /**
    * Optional header factory, e.g. to inject an Authorization token.
    */
   getHeaders?: HeaderResolver;
   /**
-   * Override the base URL of the OpenAI-compatible endpoint.
+   * Override the base URL of the LLM7 API. Also the default chat endpoint.
    */
   baseUrl?: string;
   /**
-   * Model to use for chat completions.
+   * Endpoint for a given chat (thread) id, resolved at request time.
+   * Defaults to the LLM7 API at `baseUrl`.
    */
-  model?: string;
+  endpoint?: (chatId: string) => ChatEndpoint;
+  /**
+   * Model to use for chat completions, or a resolver that picks the model for
+   * a given chat (thread) id at request time.
+   */
+  model?: string | ModelResolver;
+  /**
+   * Whether a chat's composer is in image mode, in which case every new
+   * message is sent as an image generation request.
+   */
+  imageMode?: (chatId: string) => boolean;
+  /**
+   * Ask the remote detector when the local heuristic can't tell whether a
+   * prompt wants an image. Off by default: it costs a round trip and sends
+   * the prompt in a URL.
+   */
+  remoteImageDetection?: boolean;
+  /**
+   * Options for image generation requests, resolved at request time.
+   */
+  imageOptions?: ImageOptions | (() => ImageOptions);
+  /**
+   * System prompt for a chat (thread prompt, custom instructions), sent as
+   * the first message of every chat request.
+   */
+  systemPrompt?: (chatId: string) => string | undefined;
+  /**
+   * How to fit a chat's history into the model's context window. Defaults
+   * to dropping the oldest messages.
+   */
+  context?: (chatId: string) => ContextSettings;
+  /**
+   * Extra properties to include in the request body of every chat request,
+   * e.g. sampling parameters, or a resolver that picks them for a given chat
+   * (thread) id at request time. Per-request `body` values win.
+   */
+  body?:
+    | Record<string, unknown>
+    | ((chatId: string) => Record<string, unknown>);
+  /**
+   * Tools the model may call. Executors run in the browser and their results
+   * are sent back in follow-up requests until the model stops calling tools.
+   */
+  tools?: BrowserToolRegistry;
+  /**
+   * Whether a chat's model accepts tool definitions. Tools are left out of
+   * requests when it returns false; they are always sent without it.
+   */
+  supportsTools?: (chatId: string, model: string) => boolean;
+  /**
+   * Upper bound on request/tool round trips for a single response.
+   */
+  maxToolSteps?: number;
   /**
-   * Extra properties to include in the request body for every call.
+   * Retry policy for transient failures (network errors, 429, 5xx). Retries
+   * only happen before the first byte of the response stream.
    */
-  body?: Record<string, unknown>;
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Interceptors run on every request, in order, after credentials and the
+   * subscription tier are resolved (`injectHeaders`, `lookupTier`) and
+   * before image requests are routed (`routeImages`). See
+   * `TransportMiddleware`.
+   */
+  middleware?: TransportMiddleware<UI_MESSAGE>[];
   /**
    * Called when the transport encounters a non-OK response or network error.
    */
   onError?: (info: TransportErrorInfo | null) => void;
 };
 
+/**
+ * Metadata the transport attaches to assistant messages.
+ */
+export type ChatMessageMetadata = {
+  /**
+   * Set when the message answers an image generation request.
+   */
+  imageRequest?: { trigger: ImageRequestTrigger };
+  /**
+   * Settings (and resulting seeds) of the images in this message.
+   */
+  imageGeneration?: ImageGenerationInfo;
+  /**
+   * Set when the response was cut off (e.g. by a reload) and replayed from
+   * the stream journal. Cleared once the message is continued.
+   */
+  interrupted?: boolean;
+  /**
+   * Token counts reported by the API, summed over all steps (tool calls,
+   * continuations and summaries of older messages included).
+   */
+  usage?: TokenUsage;
+  /**
+   * Wall-clock timings of the latest request for this message, in ms.
+   */
+  latency?: {
+    /** Time from sending the request to the first streamed token. */
+    firstTokenMs?: number;
+    /** Time from sending the request to the end of the stream. */
+    totalMs: number;
+  };
+  /**
+   * Why the model stopped, as reported by the API. `length` means the answer
+   * hit the token limit and can be continued.
+   */
+  finishReason?: FinishReason;
+  /**
+   * Model of the latest request for this message.
+   */
+  model?: string;
+  /**
+   * Extra request body fields (sampling parameters) of the latest request,
+   * so a response can be reproduced.
+   */
+  parameters?: Record<string, unknown>;
+  /**
+   * Set when older messages were left out of the request to fit the
+   * model's context window.
+   */
+  context?: ContextInfo;
+};
+
+export type ContextInfo = {
+  /**
+   * Thread messages that were not sent, oldest first.
+   */
+  omittedMessageIds: string[];
+  /**
+   * Whether the omitted messages were sent as a summary instead.
+   */
+  summarized: boolean;
+  /**
+   * Estimated prompt size of the request, in tokens.
+   */
+  estimatedTokens: number;
+  contextWindow: number;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * Part of `completionTokens` spent on reasoning, when the API reports it.
+   */
+  reasoningTokens?: number;
+  totalTokens: number;
+};
+
+/**
+ * Per-request options, passed as `metadata` to `sendMessage`/`regenerate`.
+ */
+export type ChatRequestMetadata = {
+  /**
+   * Send as a regular chat request even if it looks like an image request.
+   */
+  forceText?: boolean;
+  /**
+   * Overrides for this image request, e.g. a fixed seed to regenerate an
+   * image.
+   */
+  image?: Partial<ImageOptions>;
+  /**
+   * Send as an image request regardless of mode or classifier, recorded with
+   * this trigger (e.g. when regenerating an image).
+   */
+  imageTrigger?: ImageRequestTrigger;
+};
+
 export type TransportErrorInfo = {
   status: number;
   statusText: string;
   authed: boolean;
   sub?: number;
+  /**
+   * Readable message, taken from an OpenAI-style error body when there is
+   * one.
+   */
   message: string;
+  category: ApiErrorCategory;
+  /** `error.code` from the response body. */
+  code?: string;
+  /** `error.type` from the response body. */
+  type?: string;
+  /** `error.param` from the response body: the request field at fault. */
+  param?: string;
+  /**
+   * Raw response body, when it says more than `message`.
+   */
+  details?: string;
+  /**
+   * Name of the endpoint when it isn't the LLM7 API; LLM7 account hints
+   * don't apply then.
+   */
+  providerName?: string;
+  /**
+   * Present while the transport waits to retry the failed request.
+   */
+  retry?: TransportRetryInfo;
 };
 
-const DEFAULT_BASE_URL = "https://api.llm7.io/v1";
-const DEFAULT_MODEL = "gpt-5-nano";
+export type TransportRetryInfo = {
+  /**
+   * The attempt that just failed (1-based).
+   */
+  attempt: number;
+  maxAttempts: number;
+  /**
+   * Epoch ms at which the next attempt starts.
+   */
+  retryAt: number;
+  /**
+   * Give up waiting and fail the request with the last error.
+   */
+  cancel: () => void;
+};
+
+export const DEFAULT_BASE_URL = "https://api.llm7.io/v1";
 const TEXT_STREAM_ID = "text-1";
-const VERIFY_URL = "https://llm7-api.chigwel137.workers.dev/verify";
 const DETECT_IMAGE_GEN_PATH = "/is-image-gen-request";
+const DEFAULT_MAX_TOOL_STEPS = 5;
+const CONTINUE_PROMPT =
+  "Continue exactly where your previous message stopped. Do not repeat anything you already wrote.";
+const SUMMARY_PROMPT =
+  "Summarize the conversation below for another assistant who will continue it. Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. If it starts with an earlier summary, merge it in. Answer with the summary only, in at most 250 words.";
+const SUMMARY_TOKEN_RESERVE = 500;
+
+/**
+ * A single streamed delta from the upstream SSE response, tagged with the
+ * kind of message part it belongs to. Tool call deltas carry fragments of the
+ * call keyed by `index`, as in OpenAI's `delta.tool_calls`.
+ */
+type StreamDelta =
+  | {
+      type: "text" | "reasoning";
+      delta: string;
+    }
+  | {
+      type: "usage";
+      usage: TokenUsage;
+    }
+  | {
+      type: "error";
+      errorText: string;
+    }
+  | {
+      type: "finish-reason";
+      reason: FinishReason;
+    }
+  | {
+      type: "tool-call";
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta: string;
+    };
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type OpenAIChatMessage =
+  | {
+      role: "system" | "assistant";
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | {
+      role: "user";
+      content: string | OpenAIContentPart[];
+    }
+  | {
+      role: "tool";
+      tool_call_id: string;
+      content: string;
+    };
+
+type ChatCompletionRequest = {
+  endpoint: ChatEndpoint;
+  model: string;
+  messages: OpenAIChatMessage[];
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  /** Tools sent with the request; empty when the model doesn't take tools. */
+  tools: BrowserToolRegistry;
+  abortSignal: AbortSignal | undefined;
+  authed: boolean;
+  sub?: number;
+  /** Set while the request inspector is recording. */
+  recorder?: MessageRecorder;
+};
 
 /**
  * Minimal client-only transport that calls the LLM directly from the browser
- * and turns the streaming response into UIMessageChunk events. Text only.
+ * and turns the streaming response into UIMessageChunk events (text,
+ * reasoning and client-side tool calls).
  */
-export class BrowserChatTransport<UI_MESSAGE extends UIMessage = UIMessage>
-  implements ChatTransport<UI_MESSAGE>
-{
+export class BrowserChatTransport<
+  UI_MESSAGE extends UIMessage = UIMessage,
+> implements ChatTransport<UI_MESSAGE> {
   private getHeaders?: HeaderResolver;
   private baseUrl: string;
-  private model: string;
-  private extraBody?: Record<string, unknown>;
+  private endpoint?: (chatId: string) => ChatEndpoint;
+  private model: string | ModelResolver;
+  private imageMode?: (chatId: string) => boolean;
+  private remoteImageDetection: boolean;
+  private imageOptions: ImageOptions | (() => ImageOptions);
+  private systemPrompt?: (chatId: string) => string | undefined;
+  private context?: (chatId: string) => ContextSettings;
+  // Last summary per chat, extended as more messages fall out of the window.
+  private summaries = new Map<string, { ids: string[]; summary: string }>();
+  private extraBody?:
+    | Record<string, unknown>
+    | ((chatId: string) => Record<string, unknown>);
+  private tools: BrowserToolRegistry;
+  private supportsTools?: (chatId: string, model: string) => boolean;
+  private maxToolSteps: number;
+  private retryPolicy: RetryPolicy;
+  private middleware: TransportMiddleware<UI_MESSAGE>[];
   private onError?: (info: TransportErrorInfo | null) => void;
 
-  constructor(options: BrowserChatTransportOptions = {}) {
+  constructor(options: BrowserChatTransportOptions<UI_MESSAGE> = {}) {
     this.getHeaders = options.getHeaders;
     this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.endpoint = options.endpoint;
     this.model = options.model ?? DEFAULT_MODEL;
+    this.imageMode = options.imageMode;
+    this.remoteImageDetection = options.remoteImageDetection ?? false;
+    this.imageOptions = options.imageOptions ?? DEFAULT_IMAGE_OPTIONS;
+    this.systemPrompt = options.systemPrompt;
+    this.context = options.context;
     this.extraBody = options.body;
+    this.tools = options.tools ?? {};
+    this.supportsTools = options.supportsTools;
+    this.maxToolSteps = options.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.middleware = options.middleware ?? [];
     this.onError = options.onError;
   }
 
   async sendMessages({
+    chatId,
+    trigger,
     messages,
     abortSignal,
     headers,
     body,
+    metadata,
   }: Parameters<ChatTransport<UI_MESSAGE>["sendMessages"]>[0]) {
-    const resolvedHeaders = await this.resolveHeaders(headers);
-    const authHeader = this.getAuthHeader(resolvedHeaders);
-    const authed = this.hasAuthHeader(resolvedHeaders);
-    const sub = authed ? await this.getSubscriptionTier(authHeader) : undefined;
-    const lastUserText = this.getLastUserText(messages);
-
     // Clear previous error hint (if any) before we start a new call.
     this.onError?.(null);
 
-    // If the latest user message looks like an image generation request, short-circuit to images.
-    if (lastUserText && (await this.isImageGenRequest(lastUserText, resolvedHeaders, abortSignal))) {
-      return this.createImageStream({
-        prompt: lastUserText,
-        headers: resolvedHeaders,
-        abortSignal,
-        nologo: sub !== undefined && sub >= 2,
-        sub,
-      });
-    }
+    const send = composeMiddleware(
+      [
+        injectHeaders(this.getHeaders),
+        lookupTier((authHeader) => this.getSubscriptionTier(authHeader)),
+        ...this.middleware,
+        routeImages((request) => this.createImageResponse(request)),
+      ],
+      (request) => this.streamChatCompletion(request),
+    );
+    return send({
+      chatId,
+      trigger,
+      messages,
+      endpoint: this.resolveEndpoint(chatId),
+      headers:
+        headers instanceof Headers
+          ? Object.fromEntries(headers.entries())
+          : { ...headers },
+      body: {
+        ...(typeof this.extraBody === "function"
+          ? this.extraBody(chatId)
+          : this.extraBody),
+        ...body,
+      },
+      metadata: metadata as ChatRequestMetadata | undefined,
+      abortSignal,
+    });
+  }
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...resolvedHeaders,
+  /**
+   * Generated images for an image generation request, or `null` when the
+   * request is for a chat completion. See `routeImages`.
+   */
+  private async createImageResponse({
+    chatId,
+    messages,
+    metadata,
+    endpoint,
+    headers,
+    abortSignal,
+    sub,
+  }: TransportRequest<UI_MESSAGE>): Promise<ReadableStream<UIMessageChunk> | null> {
+    const imageRequest = await this.resolveImageRequest({
+      chatId,
+      text: this.getLastUserText(messages),
+      forceText: metadata?.forceText,
+      forceImage: metadata?.imageTrigger,
+      endpoint,
+      headers,
+      abortSignal,
+    });
+    if (!imageRequest) return null;
+
+    const imageOptions = {
+      ...(typeof this.imageOptions === "function"
+        ? this.imageOptions()
+        : this.imageOptions),
+      ...metadata?.image,
+    };
+    return this.createImageStream({
+      ...imageRequest,
+      options: {
+        ...imageOptions,
+        count: Math.min(
+          MAX_IMAGE_COUNT,
+          Math.max(1, Math.round(imageOptions.count)),
+        ),
+        nologo:
+          imageOptions.nologo && sub !== undefined && sub >= NOLOGO_MIN_TIER,
       },
-      body: JSON.stringify({
-        model: this.model,
-        messages: this.toOpenAIMessages(messages),
-        stream: true,
-        reasoning_effort: "low",
-        reasoning_summary: "auto",
-        ...this.extraBody,
-        ...body,
-      }),
-      signal: abortSignal,
-    }).catch((err) => {
-      this.onError?.({
-        status: 0,
-        statusText: "Network error",
-        authed,
-        sub,
-        message: err instanceof Error ? err.message : "Network error",
-      });
-      throw err;
+      endpoint,
+      headers,
+      abortSignal,
+      sub,
+      messageId: generateId(),
     });
+  }
+
+  /**
+   * End of the pipeline: fit the thread into the context window, stream the
+   * chat completion (with tool call round trips) and journal it.
+   */
+  private async streamChatCompletion({
+    chatId,
+    messages,
+    endpoint,
+    headers,
+    body,
+    abortSignal,
+    sub,
+  }: TransportRequest<UI_MESSAGE>): Promise<ReadableStream<UIMessageChunk>> {
+    // Sending with an assistant message last means "continue that message":
+    // new chunks are appended to it instead of starting a new turn.
+    const lastMessage = messages.at(-1);
+    const isContinuation = lastMessage?.role === "assistant";
+    const messageId = isContinuation ? lastMessage.id : generateId();
+    const journalKey = { chatId, messageId };
+
+    const model =
+      typeof this.model === "function" ? this.model(chatId) : this.model;
+    const request: ChatCompletionRequest = {
+      endpoint,
+      model,
+      messages: [],
+      headers,
+      body,
+      tools: this.supportsTools?.(chatId, model) === false ? {} : this.tools,
+      abortSignal,
+      authed: this.hasAuthHeader(headers),
+      sub,
+      // The endpoint's headers carry its credentials, whatever they're named.
+      recorder: recordMessage(
+        chatId,
+        messageId,
+        Object.keys(endpoint.headers ?? {}),
+      ),
+    };
+    const { history, context, summaryUsage } = await this.fitToContext(
+      chatId,
+      messages,
+      request,
+    );
+    if (isContinuation) {
+      history.push({ role: "user", content: CONTINUE_PROMPT });
+    }
+    request.messages = history;
+
+    const startedAt = Date.now();
+    const deltaStream = await this.fetchChatCompletion(request, {
+      retry: true,
+    });
+
+    const messageMetadata: ChatMessageMetadata = {
+      ...(isContinuation ? { interrupted: false } : {}),
+      ...(context ? { context } : {}),
+      model: request.model,
+      parameters: request.body,
+    };
+    const stream = this.toUiMessageStream(deltaStream, {
+      messageId,
+      messageMetadata,
+      usage: [
+        isContinuation
+          ? (lastMessage.metadata as ChatMessageMetadata | undefined)?.usage
+          : undefined,
+        summaryUsage,
+      ].reduce<TokenUsage | undefined>(
+        (total, usage) => (usage ? addUsage(total, usage) : total),
+        undefined,
+      ),
+      startedAt,
+      history: request.messages,
+      abortSignal,
+      requestNextStep: (history) =>
+        this.fetchChatCompletion({ ...request, messages: history }),
+    });
+    return journalStream(
+      request.recorder ? request.recorder.tap(stream) : stream,
+      journalKey,
+      abortSignal,
+    );
+  }
+
+  /**
+   * Replay a response that was still streaming when the page went away. The
+   * replayed message ends with `interrupted` metadata; it is not re-requested.
+   */
+  async reconnectToStream({
+    chatId,
+  }: Parameters<
+    ChatTransport<UI_MESSAGE>["reconnectToStream"]
+  >[0]): Promise<ReadableStream<UIMessageChunk> | null> {
+    const entry = await readLatestJournalEntry(chatId);
+    if (!entry || entry.chunks.length === 0) return null;
+
+    await deleteJournalEntry(entry.chatId, entry.messageId);
+    return replayJournalEntry(entry);
+  }
+
+  /**
+   * POST one `/chat/completions` request and return its parsed delta stream.
+   * Failures are reported through `onError` (unless `report` is off) before
+   * being thrown. With `retry`, transient failures are retried per the retry
+   * policy; once the response is OK nothing is retried.
+   */
+  private async fetchChatCompletion(
+    request: ChatCompletionRequest,
+    {
+      retry = false,
+      report = true,
+    }: { retry?: boolean; report?: boolean } = {},
+  ): Promise<ReadableStream<StreamDelta>> {
+    const { abortSignal, authed, sub } = request;
+    const onError = report ? this.onError : undefined;
+    const providerName = request.endpoint.llm7
+      ? undefined
+      : (request.endpoint.name ?? request.endpoint.baseUrl);
+    const policy = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt += 1) {
+      const canRetry = retry && attempt < policy.maxAttempts;
+      const { url, init } = this.toChatCompletionFetch(request);
+      const exchange = request.recorder?.exchange(url, init);
+      let response: Response;
+
+      try {
+        response = await fetch(url, init);
+      } catch (err) {
+        exchange?.fail(err instanceof Error ? err.message : "Network error");
+        const info: TransportErrorInfo = {
+          status: 0,
+          statusText: "Network error",
+          authed,
+          sub,
+          message: err instanceof Error ? err.message : "Network error",
+          category: "network",
+          providerName,
+        };
+        if (abortSignal?.aborted || !canRetry) {
+          onError?.(abortSignal?.aborted ? null : info);
+          throw err;
+        }
+        await this.waitForRetry(
+          info,
+          attempt,
+          getBackoffDelay(attempt, policy),
+          abortSignal,
+        );
+        continue;
+      }
+
+      exchange?.response(response);
+      if (response.ok) {
+        if (attempt > 1) onError?.(null);
+        if (!response.body) {
+          exchange?.fail("The response body is empty.");
+          throw new Error("The response body is empty.");
+        }
+        return this.parseSseToDeltaStream(response.body, exchange);
+      }
 
-    if (!response.ok) {
       const errorText = await response.text().catch(() => response.statusText);
+      exchange?.fail(
+        `${response.status} ${response.statusText}`.trim(),
+        errorText,
+      );
 
       const info: TransportErrorInfo = {
         status: response.status,
         statusText: response.statusText,
         authed,
         sub,
-        message: errorText || response.statusText || "Request failed",
+        ...toErrorDetails(response, errorText, "Request failed"),
+        providerName,
       };
 
-      this.onError?.(info);
+      const serverDelay = parseRetryAfter(response.headers);
+      if (
+        canRetry &&
+        policy.retryableStatuses.includes(response.status) &&
+        // An exhausted quota doesn't come back within seconds.
+        info.category !== "quota" &&
+        (serverDelay === undefined || serverDelay <= policy.maxDelayMs)
+      ) {
+        await this.waitForRetry(
+          info,
+          attempt,
+          serverDelay ?? getBackoffDelay(attempt, policy),
+          abortSignal,
+        );
+        continue;
+      }
 
-      throw new Error(errorText || "Failed to fetch the chat response.");
-    }
+      onError?.(info);
 
-    if (!response.body) {
-      throw new Error("The response body is empty.");
+      throw new Error(info.message || "Failed to fetch the chat response.");
     }
-
-    const textStream = this.parseSseToTextStream(response.body);
-    return this.toUiMessageStream(textStream);
   }
 
-  reconnectToStream(): Promise<ReadableStream<UIMessageChunk> | null> {
-    return Promise.resolve(null);
+  /**
+   * URL and fetch options for a `/chat/completions` request.
+   */
+  private toChatCompletionFetch({
+    endpoint,
+    model,
+    messages,
+    headers,
+    body,
+    tools: registry,
+    abortSignal,
+  }: ChatCompletionRequest) {
+    const tools = toOpenAITools(registry);
+    const url = `${endpoint.baseUrl.replace(/\/$/, "")}/chat/completions`;
+    const init = {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(tools.length > 0 ? { tools } : {}),
+        ...body,
+      }),
+      signal: abortSignal,
+    };
+    return { url, init };
   }
 
-  private async resolveHeaders(headers: HeaderValue) {
-    const baseHeaders = this.getHeaders ? await this.getHeaders() : undefined;
-    const resolvedHeaders =
-      headers instanceof Headers ? Object.fromEntries(headers.entries()) : headers;
+  /**
+   * Report a pending retry through `onError` and wait for it. Rejects when the
+   * request is aborted, or when the user cancels the retry (after reporting
+   * the original error without retry info).
+   */
+  private async waitForRetry(
+    info: TransportErrorInfo,
+    attempt: number,
+    delayMs: number,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const cancelled = new AbortController();
+    const signal = abortSignal
+      ? AbortSignal.any([abortSignal, cancelled.signal])
+      : cancelled.signal;
 
-    return {
-      ...(baseHeaders ?? {}),
-      ...(resolvedHeaders ?? {}),
-    };
+    this.onError?.({
+      ...info,
+      retry: {
+        attempt,
+        maxAttempts: this.retryPolicy.maxAttempts,
+        retryAt: Date.now() + delayMs,
+        cancel: () => cancelled.abort(),
+      },
+    });
+
+    try {
+      await sleep(delayMs, signal);
+    } catch (err) {
+      if (abortSignal?.aborted) {
+        this.onError?.(null);
+        throw err;
+      }
+      this.onError?.(info);
+      throw new Error(info.message || "Failed to fetch the chat response.");
+    }
   }
 
-  private getAuthHeader(headers: Record<string, string>) {
-    return headers.Authorization ?? headers.authorization;
+  private resolveEndpoint(chatId: string): ChatEndpoint {
+    return this.endpoint?.(chatId) ?? { baseUrl: this.baseUrl, llm7: true };
   }
 
   private hasAuthHeader(headers: Record<string, string>) {
-    return Boolean(this.getAuthHeader(headers));
+    return Boolean(getAuthHeader(headers));
   }
 
-  private async getSubscriptionTier(authHeader?: string): Promise<number | undefined> {
+  private async getSubscriptionTier(
+    authHeader?: string,
+  ): Promise<number | undefined> {
     const token =
       this.getIdToken() ??
       (authHeader ? this.stripBearer(authHeader) : undefined);
     if (!token) return undefined;
 
-    try {
-      const res = await fetch(VERIFY_URL, {
-        headers: { Authorization: `Bearer ${token}` },
+    return getSubscriptionTier(token);
+  }
+
+  /**
+   * Convert the thread to OpenAI messages, leaving out the oldest ones when
+   * the estimate exceeds the model's context window (minus room for the
+   * response and tool definitions). The system prompt, system messages and
+   * the latest turn are always sent.
+   */
+  private async fitToContext(
+    chatId: string,
+    messages: UI_MESSAGE[],
+    request: ChatCompletionRequest,
+  ): Promise<{
+    history: OpenAIChatMessage[];
+    context?: ContextInfo;
+    /** Tokens spent summarizing the left-out messages. */
+    summaryUsage?: TokenUsage;
+  }> {
+    const settings = this.context?.(chatId) ?? {
+      strategy: DEFAULT_CONTEXT_STRATEGY,
+      pinnedMessageIds: [],
+    };
+    const contextWindow = getContextWindow(request.model);
+    const lastUserIndex = messages.findLastIndex((msg) => msg.role === "user");
+    const entries = messages.map((message, index) => {
+      const converted = this.toOpenAIMessages([message]);
+      return {
+        message,
+        converted,
+        id: message.id,
+        tokens: converted.reduce(
+          (sum, msg) => sum + estimateMessageTokens(msg),
+          0,
+        ),
+        required: message.role === "system" || index >= lastUserIndex,
+        pinned: settings.pinnedMessageIds.includes(message.id),
+      };
+    });
+
+    const systemPrompt = this.systemPrompt?.(chatId);
+    const systemMessages: OpenAIChatMessage[] = systemPrompt
+      ? [{ role: "system", content: systemPrompt }]
+      : [];
+
+    const budget =
+      contextWindow -
+      getResponseReserve(contextWindow) -
+      systemMessages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0) -
+      estimateTokens(JSON.stringify(toOpenAITools(request.tools))) -
+      estimateTokens(CONTINUE_PROMPT);
+    let omitted = selectContext(entries, budget, settings.strategy);
+    if (omitted.length > 0 && settings.strategy === "summarize") {
+      omitted = selectContext(
+        entries,
+        budget - SUMMARY_TOKEN_RESERVE,
+        settings.strategy,
+      );
+    }
+
+    const kept = entries.filter((entry) => !omitted.includes(entry.id));
+    const history = [
+      ...systemMessages,
+      ...kept.flatMap((entry) => entry.converted),
+    ];
+    if (omitted.length === 0) return { history };
+
+    const { summary, usage: summaryUsage } =
+      settings.strategy === "summarize"
+        ? await this.summarizeMessages(
+            chatId,
+            entries.filter((entry) => omitted.includes(entry.id)),
+            request,
+          )
+        : { summary: null };
+    if (summary) {
+      const firstTurn = history.findIndex((msg) => msg.role !== "system");
+      history.splice(firstTurn === -1 ? history.length : firstTurn, 0, {
+        role: "system",
+        content: `Summary of the earlier conversation, left out to fit the context window:\n\n${summary}`,
       });
-      if (!res.ok) return undefined;
-      const data = (await res.json()) as { sub?: unknown };
-      const subNum =
-        typeof data?.sub === "number"
-          ? data.sub
-          : typeof data?.sub === "string"
-            ? Number.parseInt(data.sub, 10)
-            : undefined;
-      return Number.isFinite(subNum) ? (subNum as number) : undefined;
-    } catch {
-      return undefined;
     }
+
+    return {
+      history,
+      context: {
+        omittedMessageIds: omitted,
+        summarized: Boolean(summary),
+        estimatedTokens: history.reduce(
+          (sum, msg) => sum + estimateMessageTokens(msg),
+          0,
+        ),
+        contextWindow,
+      },
+      summaryUsage,
+    };
+  }
+
+  /**
+   * Ask the chat's model to summarize messages that no longer fit. Builds on
+   * the previous summary when the omitted messages only grew. The summary is
+   * null when summarizing fails, in which case the messages are just left
+   * out. Goes through the regular request path, so it shows up in the
+   * inspector and its usage is counted.
+   */
+  private async summarizeMessages(
+    chatId: string,
+    entries: Array<{ id: string; converted: OpenAIChatMessage[] }>,
+    request: ChatCompletionRequest,
+  ): Promise<{ summary: string | null; usage?: TokenUsage }> {
+    const { model, abortSignal } = request;
+    const ids = entries.map((entry) => entry.id);
+    const previous = this.summaries.get(chatId);
+    if (previous && previous.ids.join() === ids.join()) {
+      return { summary: previous.summary };
+    }
+
+    const extendsPrevious =
+      previous && previous.ids.every((id, index) => ids[index] === id);
+    const fresh = extendsPrevious
+      ? entries.slice(previous.ids.length)
+      : entries;
+    const transcript = [
+      ...(extendsPrevious ? [`Earlier summary:\n${previous.summary}`] : []),
+      ...fresh.flatMap((entry) => entry.converted).map(toTranscriptLine),
+    ].join("\n\n");
+    // Keep the summary request itself within the window; the newest text
+    // matters most.
+    const maxChars = Math.max(
+      1000,
+      (getContextWindow(model) - getResponseReserve(getContextWindow(model))) *
+        3,
+    );
+
+    let text = "";
+    let usage: TokenUsage | undefined;
+    try {
+      const deltas = await this.fetchChatCompletion(
+        {
+          ...request,
+          messages: [
+            { role: "system", content: SUMMARY_PROMPT },
+            { role: "user", content: transcript.slice(-maxChars) },
+          ],
+          body: {},
+          tools: {},
+        },
+        { report: false },
+      );
+      const reader = deltas.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value.type === "text") text += value.delta;
+        else if (value.type === "usage") usage = value.usage;
+        else if (value.type === "error") return { summary: null, usage };
+      }
+    } catch (err) {
+      if (abortSignal?.aborted) throw err;
+      return { summary: null, usage };
+    }
+
+    const summary = text.trim();
+    if (!summary) return { summary: null, usage };
+    this.summaries.set(chatId, { ids, summary });
+    return { summary, usage };
   }
 
-  private toOpenAIMessages(messages: UI_MESSAGE[]) {
+  private toOpenAIMessages(messages: UI_MESSAGE[]): OpenAIChatMessage[] {
     return messages
-      .filter((msg) =>
-        msg.role === "system" || msg.role === "user" || msg.role === "assistant"
+      .filter(
+        (msg) =>
+          msg.role === "system" ||
+          msg.role === "user" ||
+          msg.role === "assistant",
       )
-      .map((msg) => {
-        const content = this.extractText(msg);
-        return {
-          role: msg.role as "system" | "user" | "assistant",
-          content,
-        };
+      .flatMap((msg): OpenAIChatMessage[] => {
+        if (
+          msg.role === "assistant" &&
+          msg.parts?.some(isToolOrDynamicToolUIPart)
+        ) {
+          return this.toolStepsToOpenAIMessages(msg);
+        }
+        if (msg.role === "user") {
+          return [{ role: "user", content: this.toOpenAIUserContent(msg) }];
+        }
+        let content = this.extractText(msg);
+        // Generated images can't be sent back as assistant content; leave a
+        // note so the model knows what it "answered".
+        const imageGeneration = (
+          msg.metadata as ChatMessageMetadata | undefined
+        )?.imageGeneration;
+        if (msg.role === "assistant" && imageGeneration && !content.trim()) {
+          content = `[Generated an image for: ${imageGeneration.prompt}]`;
+        }
+        return [
+          {
+            role: msg.role as "system" | "assistant",
+            content,
+          },
+        ];
       })
-      .filter((msg) => msg.content.trim().length > 0);
+      .filter((msg) => {
+        if (msg.role === "tool") return true;
+        if (msg.role === "assistant" && msg.tool_calls?.length) return true;
+        if (Array.isArray(msg.content)) return msg.content.length > 0;
+        return (msg.content ?? "").trim().length > 0;
+      });
+  }
+
+  /**
+   * Build user content. Plain text stays a string; file parts turn it into an
+   * OpenAI content array with images as `image_url` and text files (including
+   * text extracted from PDFs) inlined as fenced blocks.
+   */
+  private toOpenAIUserContent(
+    message: UI_MESSAGE,
+  ): string | OpenAIContentPart[] {
+    const rawText = this.extractText(message);
+    const text = parseImageCommand(rawText) ?? rawText;
+    const files = message.parts.filter((part) => part.type === "file");
+    if (files.length === 0) return text;
+
+    const content: OpenAIContentPart[] = [];
+    if (text.trim().length > 0) content.push({ type: "text", text });
+
+    for (const file of files) {
+      if (file.mediaType.startsWith("image/")) {
+        content.push({ type: "image_url", image_url: { url: file.url } });
+      } else if (file.mediaType.startsWith("text/")) {
+        const name = file.filename ?? "attachment.txt";
+        const body = dataURLToText(file.url);
+        const fence = body.includes("```") ? "````" : "```";
+        content.push({
+          type: "text",
+          text: `File: ${name}\n${fence}${fenceLanguage(name)}\n${body}\n${fence}`,
+        });
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * Split an assistant message that used tools back into the per-step
+   * assistant/tool message pairs the model originally saw.
+   */
+  private toolStepsToOpenAIMessages(message: UI_MESSAGE): OpenAIChatMessage[] {
+    const result: OpenAIChatMessage[] = [];
+    let text: string[] = [];
+    let toolCalls: OpenAIToolCall[] = [];
+    let toolMessages: OpenAIChatMessage[] = [];
+
+    const flush = () => {
+      const content = text.join("\n");
+      if (toolCalls.length > 0) {
+        result.push({
+          role: "assistant",
+          content: content || null,
+          tool_calls: toolCalls,
+        });
+        result.push(...toolMessages);
+      } else if (content.trim().length > 0) {
+        result.push({ role: "assistant", content });
+      }
+      text = [];
+      toolCalls = [];
+      toolMessages = [];
+    };
+
+    for (const part of message.parts) {
+      if (part.type === "step-start") {
+        flush();
+      } else if (part.type === "text") {
+        text.push(part.text);
+      } else if (isToolOrDynamicToolUIPart(part)) {
+        if (part.state !== "output-available" && part.state !== "output-error")
+          continue;
+        toolCalls.push({
+          id: part.toolCallId,
+          type: "function",
+          function: {
+            name: getToolOrDynamicToolName(part),
+            arguments: JSON.stringify(part.input ?? {}),
+          },
+        });
+        toolMessages.push({
+          role: "tool",
+          tool_call_id: part.toolCallId,
+          content:
+            part.state === "output-available"
+              ? JSON.stringify(part.output ?? null)
+              : `Error: ${part.errorText}`,
+        });
+      }
+    }
+    flush();
+
+    return result;
   }
 
   private getLastUserText(messages: UI_MESSAGE[]) {
@@ -243,72 +1173,103 @@ export class BrowserChatTransport<UI_MESSAGE extends UIMessage = UIMessage>
   }
 
   /**
-   * Convert OpenAI-style SSE stream to a plain text stream.
+   * Convert an OpenAI-style SSE stream into text, reasoning, tool call and
+   * usage deltas. The stream ends at `[DONE]`; upstream error events and
+   * unparseable chunks become `error` deltas.
    */
-  private parseSseToTextStream(
+  private parseSseToDeltaStream(
     upstream: ReadableStream<Uint8Array>,
-  ): ReadableStream<string> {
-    const reader = upstream.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+    exchange?: ExchangeRecorder,
+  ): ReadableStream<StreamDelta> {
+    const reader = decodeSseStream(upstream).getReader();
 
-    return new ReadableStream<string>({
+    return new ReadableStream<StreamDelta>({
       async pull(controller) {
         while (true) {
           const { value, done } = await reader.read();
-
           if (done) {
-            buffer = buffer.trim();
-            if (buffer) {
-              // Process any trailing chunk without final \n\n.
-              const { deltas } = extractTextChunks(buffer);
-              for (const delta of deltas) {
-                controller.enqueue(delta);
-              }
-            }
+            exchange?.end();
             controller.close();
             return;
           }
 
-          buffer += decoder.decode(value, { stream: true });
-
-          let boundary = buffer.indexOf("\n\n");
-          while (boundary !== -1) {
-            const rawEvent = buffer.slice(0, boundary);
-            buffer = buffer.slice(boundary + 2);
-            const { deltas, done: isDone } = extractTextChunks(rawEvent);
-            for (const delta of deltas) {
-              controller.enqueue(delta);
-            }
-            if (isDone) {
-              controller.close();
-              await reader.cancel().catch(() => {});
-              return;
-            }
-            boundary = buffer.indexOf("\n\n");
+          exchange?.event(value);
+          const { deltas, done: isDone } = extractDeltas(value);
+          for (const delta of deltas) {
+            controller.enqueue(delta);
           }
+          if (isDone) {
+            exchange?.end();
+            controller.close();
+            await reader.cancel().catch(() => {});
+            return;
+          }
+          if (deltas.length > 0) return;
         }
       },
       cancel(reason) {
+        exchange?.end();
         reader.cancel(reason).catch(() => {});
       },
     });
   }
 
   /**
-   * Detect if a prompt is an image generation request.
+   * Decide whether the latest user message should be sent as an image
+   * generation request: an explicit `/image` command or image mode win,
+   * otherwise a local heuristic guesses, optionally backed by the remote
+   * detector when it is unsure.
+   */
+  private async resolveImageRequest({
+    chatId,
+    text,
+    forceText,
+    forceImage,
+    endpoint,
+    headers,
+    abortSignal,
+  }: {
+    chatId: string;
+    text: string;
+    forceText?: boolean;
+    forceImage?: ImageRequestTrigger;
+    endpoint: ChatEndpoint;
+    headers: Record<string, string>;
+    abortSignal: AbortSignal | undefined;
+  }): Promise<{ prompt: string; trigger: ImageRequestTrigger } | null> {
+    if (forceText || !text.trim()) return null;
+
+    const command = parseImageCommand(text);
+    if (forceImage) return { prompt: command ?? text, trigger: forceImage };
+    if (command !== null)
+      return command ? { prompt: command, trigger: "command" } : null;
+    if (this.imageMode?.(chatId))
+      return { prompt: text, trigger: "image-mode" };
+
+    const guess = classifyImagePrompt(text);
+    if (guess) return { prompt: text, trigger: "heuristic" };
+    if (
+      guess === undefined &&
+      this.remoteImageDetection &&
+      (await this.isImageGenRequest(text, endpoint, headers, abortSignal))
+    ) {
+      return { prompt: text, trigger: "detector" };
+    }
+    return null;
+  }
+
+  /**
+   * Ask the remote detector if a prompt is an image generation request.
    */
   private async isImageGenRequest(
     prompt: string,
+    endpoint: ChatEndpoint,
     headers: Record<string, string>,
     abortSignal: AbortSignal | undefined,
   ) {
     try {
-      const detectUrl = `${this.getApiRoot()}${DETECT_IMAGE_GEN_PATH}?user_input=${encodeURIComponent(prompt)}`;
-      const res = await fetch(
-        detectUrl,
-        { headers, signal: abortSignal },
-      );
+      const detectUrl = `${this.getApiRoot(endpoint.baseUrl)}${DETECT_IMAGE_GEN_PATH}?user_input=${encodeURIComponent(prompt)}`;
+      const res = await fetch(detectUrl, { headers, signal: abortSignal });
       if (!res.ok) return false;
       const data = (await res.json()) as { is_image_gen_request?: boolean };
       return Boolean(data?.is_image_gen_request);
@@ -318,149 +1279,519 @@ export class BrowserChatTransport<UI_MESSAGE extends UIMessage = UIMessage>
   }
 
   /**
-   * Create a UIMessageChunk stream for image generation.
+   * Generate a single image with the chat's endpoint and return it as a URL
+   * (remote or data URL). `headers` are that endpoint's, as resolved for the
+   * chat request.
    */
-  private createImageStream(options: {
+  private async generateImage({
+    prompt,
+    options,
+    seed,
+    endpoint,
+    headers,
+    abortSignal,
+    sub,
+  }: {
     prompt: string;
+    options: ImageOptions;
+    seed: number;
+    endpoint: ChatEndpoint;
     headers: Record<string, string>;
-    nologo: boolean;
     abortSignal: AbortSignal | undefined;
     sub?: number;
-  }): ReadableStream<UIMessageChunk> {
-    const { prompt, headers, nologo, abortSignal, sub } = options;
-    const seed = Math.floor(Math.random() * 1_000_000);
-
-    const generateImage = async () => {
-      const response = await fetch(`${this.baseUrl}/images/generations`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...headers,
-        },
-        body: JSON.stringify({
-          model: "flux",
-          prompt,
-          nologo,
-          seed,
-        }),
-        signal: abortSignal,
-      });
-
-      if (!response.ok) {
-        const text = await response.text().catch(() => response.statusText);
-        this.onError?.({
-          status: response.status,
-          statusText: response.statusText,
-          authed: this.hasAuthHeader(headers),
-          sub,
-          message: text || "Image generation failed",
-        });
-        throw new Error(text || "Image generation failed");
-      }
+  }): Promise<{ url: string; mediaType: string }> {
+    const url = `${endpoint.baseUrl.replace(/\/$/, "")}/images/generations`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({
+        model: options.model,
+        prompt,
+        size: options.size,
+        n: 1,
+        nologo: options.nologo,
+        seed,
+      }),
+      signal: abortSignal,
+    });
 
-      const data = (await response.json()) as {
-        data?: Array<{ url?: string; b64_json?: string; mime_type?: string }>;
+    if (!response.ok) {
+      const text = await response.text().catch(() => response.statusText);
+      const info: TransportErrorInfo = {
+        status: response.status,
+        statusText: response.statusText,
+        authed: this.hasAuthHeader(headers),
+        sub,
+        ...toErrorDetails(response, text, "Image generation failed"),
+        providerName: endpoint.llm7
+          ? undefined
+          : (endpoint.name ?? endpoint.baseUrl),
       };
-      const first = data?.data?.[0];
-      if (!first) throw new Error("No image returned");
-
-      if (first.url) return { url: first.url, mediaType: first.mime_type ?? "image/png" };
-      if (first.b64_json) {
-        return {
-          url: `data:image/png;base64,${first.b64_json}`,
-          mediaType: "image/png",
-        };
-      }
-      throw new Error("No usable image returned");
+      this.onError?.(info);
+      throw new Error(info.message);
+    }
+
+    const first = response.headers
+      .get("content-type")
+      ?.includes("text/event-stream")
+      ? await readImageEventStream(response.body)
+      : (
+          (await response.json()) as {
+            data?: GeneratedImageData[];
+          }
+        )?.data?.[0];
+    if (!first) throw new Error("No image returned");
+
+    if (first.url)
+      return { url: first.url, mediaType: first.mime_type ?? "image/png" };
+    if (first.b64_json) {
+      const mediaType = first.mime_type ?? "image/png";
+      return { url: `data:${mediaType};base64,${first.b64_json}`, mediaType };
+    }
+    throw new Error("No usable image returned");
+  }
+
+  /**
+   * Create a UIMessageChunk stream for image generation. Images are requested
+   * in parallel (one seed each) and emitted as `file` parts in seed order;
+   * the seeds that produced an image are recorded in the message metadata.
+   */
+  private createImageStream({
+    prompt,
+    trigger,
+    options,
+    endpoint,
+    headers,
+    abortSignal,
+    sub,
+    messageId,
+  }: {
+    prompt: string;
+    trigger: ImageRequestTrigger;
+    options: ImageOptions;
+    endpoint: ChatEndpoint;
+    headers: Record<string, string>;
+    abortSignal: AbortSignal | undefined;
+    sub?: number;
+    messageId: string;
+  }): ReadableStream<UIMessageChunk> {
+    const firstSeed = options.seed ?? randomSeed();
+    const seeds = Array.from(
+      { length: options.count },
+      (_, i) => firstSeed + i,
+    );
+    const imageGeneration: ImageGenerationInfo = {
+      prompt,
+      model: options.model,
+      size: options.size,
+      count: options.count,
+      nologo: options.nologo,
     };
+    let cancelled = false;
 
     return new ReadableStream<UIMessageChunk>({
       start: async (controller) => {
-        controller.enqueue({ type: "start" });
+        controller.enqueue({
+          type: "start",
+          messageId,
+          messageMetadata: {
+            imageRequest: { trigger },
+            imageGeneration,
+          } satisfies ChatMessageMetadata,
+        });
         controller.enqueue({ type: "start-step" });
-        controller.enqueue({ type: "text-start", id: TEXT_STREAM_ID });
+
+        // Every request is settled as it is started, so the ones left
+        // waiting after a cancel, an abort or an earlier failure never
+        // reject unhandled.
+        const requests = seeds.map((seed) =>
+          this.generateImage({
+            prompt,
+            options,
+            seed,
+            endpoint,
+            headers,
+            abortSignal,
+            sub,
+          }).then(
+            (image) => ({ image }),
+            (error: unknown) => ({ error }),
+          ),
+        );
+        const generatedSeeds: number[] = [];
+        const errors: string[] = [];
+
+        for (const [index, request] of requests.entries()) {
+          const result = await request;
+          if (cancelled) return;
+          if ("image" in result) {
+            controller.enqueue({
+              type: "file",
+              url: result.image.url,
+              mediaType: result.image.mediaType,
+            });
+            generatedSeeds.push(seeds[index]);
+          } else {
+            if (abortSignal?.aborted) break;
+            errors.push(
+              result.error instanceof Error
+                ? result.error.message
+                : "Image generation failed",
+            );
+          }
+        }
+
+        if (!abortSignal?.aborted) {
+          if (generatedSeeds.length === 0) {
+            controller.enqueue({
+              type: "error",
+              errorText: errors[0] ?? "Image generation failed",
+            });
+          } else if (errors.length > 0) {
+            controller.enqueue({ type: "text-start", id: TEXT_STREAM_ID });
+            controller.enqueue({
+              type: "text-delta",
+              id: TEXT_STREAM_ID,
+              delta: `${errors.length} of ${seeds.length} images failed: ${errors[0]}`,
+            });
+            controller.enqueue({ type: "text-end", id: TEXT_STREAM_ID });
+          }
+        }
+
+        controller.enqueue({ type: "finish-step" });
         controller.enqueue({
-          type: "text-delta",
-          id: TEXT_STREAM_ID,
-          delta: "🖼️ Generating image...",
+          type: "finish",
+          messageMetadata: {
+            imageGeneration: { ...imageGeneration, seeds: generatedSeeds },
+          } satisfies ChatMessageMetadata,
         });
+        controller.close();
+      },
+      cancel() {
+        // In-flight requests stop through `abortSignal`.
+        cancelled = true;
+      },
+    });
+  }
+
+  /**
+   * Wrap a delta stream into the UIMessageChunk stream expected by the UI.
+   * Each request becomes one step; when a step ends with tool calls, the
+   * tools are executed and their results sent back as the next step.
+   */
+  private toUiMessageStream(
+    firstStep: ReadableStream<StreamDelta>,
+    options: {
+      messageId: string;
+      messageMetadata?: ChatMessageMetadata;
+      /** Usage already recorded on the message, when continuing it. */
+      usage?: TokenUsage;
+      /** When the first request was sent, for latency metadata. */
+      startedAt: number;
+      history: OpenAIChatMessage[];
+      abortSignal: AbortSignal | undefined;
+      requestNextStep: (
+        history: OpenAIChatMessage[],
+      ) => Promise<ReadableStream<StreamDelta>>;
+    },
+  ): ReadableStream<UIMessageChunk> {
+    const {
+      messageId,
+      messageMetadata,
+      startedAt,
+      abortSignal,
+      requestNextStep,
+    } = options;
+    const history = [...options.history];
+    let reader: ReadableStreamDefaultReader<StreamDelta> | null = null;
+    let cancelled = false;
+    let usage = options.usage;
+    let firstTokenAt: number | undefined;
+    let finishReason: FinishReason | undefined;
+
+    const finishMetadata = (): ChatMessageMetadata => ({
+      ...(usage ? { usage } : {}),
+      finishReason,
+      latency: {
+        firstTokenMs:
+          firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+        totalMs: Date.now() - startedAt,
+      },
+    });
+
+    return new ReadableStream<UIMessageChunk>({
+      start: async (controller) => {
+        controller.enqueue({ type: "start", messageId, messageMetadata });
 
         try {
-          const image = await generateImage();
-          // Close the placeholder step.
-          controller.enqueue({ type: "text-end", id: TEXT_STREAM_ID });
-          controller.enqueue({ type: "finish-step" });
-
-          // Start a new step with the final image only.
-          controller.enqueue({ type: "start-step" });
-          controller.enqueue({ type: "text-start", id: TEXT_STREAM_ID });
+          let stepStream = firstStep;
+          for (let step = 1; ; step += 1) {
+            controller.enqueue({ type: "start-step" });
+            reader = stepStream.getReader();
+            const result = await this.pipeStep(reader, controller, step);
+            const { text, toolCalls } = result;
+            firstTokenAt ??= result.firstTokenAt;
+            finishReason = result.finishReason;
+            if (result.usage) usage = addUsage(usage, result.usage);
+            const toolMessages = await this.executeToolCalls(
+              toolCalls,
+              controller,
+              abortSignal,
+            );
+            controller.enqueue({ type: "finish-step" });
+
+            if (toolCalls.length === 0 || step >= this.maxToolSteps) break;
+
+            history.push(
+              {
+                role: "assistant",
+                content: text || null,
+                tool_calls: toolCalls,
+              },
+              ...toolMessages,
+            );
+            stepStream = await requestNextStep(history);
+          }
+
           controller.enqueue({
-            type: "text-delta",
-            id: TEXT_STREAM_ID,
-            delta: `![Generated image](${image.url})`,
+            type: "finish",
+            finishReason,
+            messageMetadata: finishMetadata(),
           });
-          controller.enqueue({ type: "text-end", id: TEXT_STREAM_ID });
-          controller.enqueue({ type: "finish-step" });
-          controller.enqueue({ type: "finish" });
         } catch (err) {
-          const message = err instanceof Error ? err.message : "Image generation failed";
+          if (cancelled || abortSignal?.aborted) return;
           controller.enqueue({
             type: "error",
-            errorText: message,
+            errorText:
+              err instanceof Error ? err.message : "Chat request failed",
+          });
+          finishReason = "error";
+          controller.enqueue({
+            type: "finish",
+            finishReason,
+            messageMetadata: finishMetadata(),
           });
-          controller.enqueue({ type: "text-end", id: TEXT_STREAM_ID });
-          controller.enqueue({ type: "finish-step" });
-          controller.enqueue({ type: "finish" });
-        } finally {
-          controller.close();
         }
+
+        if (!cancelled) controller.close();
       },
-      cancel: async (reason) => {
-        // Best-effort abort; fetch respects abortSignal.
-        void reason;
+      async cancel(reason) {
+        cancelled = true;
+        await reader?.cancel(reason);
       },
     });
   }
 
   /**
-   * Wrap a text stream into the UIMessageChunk stream expected by the UI.
+   * Forward one step's deltas as text/reasoning/tool-input chunks. Consecutive
+   * deltas of the same type share one part; switching between reasoning and
+   * text closes the open part and starts a new one.
    */
-  private toUiMessageStream(
-    textStream: ReadableStream<string>,
-  ): ReadableStream<UIMessageChunk> {
-    const reader = textStream.getReader();
+  private async pipeStep(
+    reader: ReadableStreamDefaultReader<StreamDelta>,
+    controller: ReadableStreamDefaultController<UIMessageChunk>,
+    step: number,
+  ): Promise<{
+    text: string;
+    toolCalls: OpenAIToolCall[];
+    usage?: TokenUsage;
+    firstTokenAt?: number;
+    finishReason?: FinishReason;
+  }> {
+    // Cast so TS doesn't narrow to `null`; closeOpenPart resets it in a closure.
+    let openPart = null as { type: "text" | "reasoning"; id: string } | null;
+    let partCount = 0;
+    let text = "";
+    let usage: TokenUsage | undefined;
+    let firstTokenAt: number | undefined;
+    let finishReason: FinishReason | undefined;
+    const toolCalls = new Map<
+      number,
+      { id?: string; name?: string; arguments: string; started: boolean }
+    >();
 
-    return new ReadableStream<UIMessageChunk>({
-      start(controller) {
-        controller.enqueue({ type: "start" });
-        controller.enqueue({ type: "start-step" });
-        controller.enqueue({ type: "text-start", id: TEXT_STREAM_ID });
-      },
-      async pull(controller) {
-        const { value, done } = await reader.read();
-
-        if (done) {
-          controller.enqueue({ type: "text-end", id: TEXT_STREAM_ID });
-          controller.enqueue({ type: "finish-step" });
-          controller.enqueue({ type: "finish" });
-          controller.close();
-          return;
+    const closeOpenPart = () => {
+      if (!openPart) return;
+      controller.enqueue({ type: `${openPart.type}-end`, id: openPart.id });
+      openPart = null;
+    };
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      if (value.type === "usage") {
+        usage = value.usage;
+        continue;
+      }
+      if (value.type === "error") {
+        closeOpenPart();
+        throw new Error(value.errorText);
+      }
+      if (value.type === "finish-reason") {
+        finishReason = value.reason;
+        continue;
+      }
+      firstTokenAt ??= Date.now();
+
+      if (value.type === "tool-call") {
+        closeOpenPart();
+        const call = toolCalls.get(value.index) ?? {
+          arguments: "",
+          started: false,
+        };
+        toolCalls.set(value.index, call);
+        call.id ??= value.id;
+        call.name ??= value.name;
+        call.arguments += value.argumentsDelta;
+
+        if (!call.started && call.id && call.name) {
+          call.started = true;
+          controller.enqueue({
+            type: "tool-input-start",
+            toolCallId: call.id,
+            toolName: call.name,
+            dynamic: true,
+          });
+          if (call.arguments) {
+            controller.enqueue({
+              type: "tool-input-delta",
+              toolCallId: call.id,
+              inputTextDelta: call.arguments,
+            });
+          }
+        } else if (call.started && call.id && value.argumentsDelta) {
+          controller.enqueue({
+            type: "tool-input-delta",
+            toolCallId: call.id,
+            inputTextDelta: value.argumentsDelta,
+          });
+        }
+        continue;
+      }
+
+      if (openPart?.type !== value.type) {
+        closeOpenPart();
+        partCount += 1;
+        openPart = {
+          type: value.type,
+          id: `${value.type}-${step}-${partCount}`,
+        };
+        controller.enqueue({ type: `${value.type}-start`, id: openPart.id });
+      }
+
+      if (value.type === "text") text += value.delta;
+      controller.enqueue({
+        type: `${value.type}-delta`,
+        id: openPart.id,
+        delta: value.delta,
+      });
+    }
+    closeOpenPart();
+
+    return {
+      text,
+      usage,
+      firstTokenAt,
+      finishReason,
+      toolCalls: [...toolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, call]) => ({
+          id: call.id ?? `call_${index}`,
+          type: "function" as const,
+          function: { name: call.name ?? "unknown", arguments: call.arguments },
+        })),
+    };
+  }
+
+  /**
+   * Run the step's tool calls in the browser, emitting input/output chunks,
+   * and return the `tool` messages to send back to the model.
+   */
+  private async executeToolCalls(
+    toolCalls: OpenAIToolCall[],
+    controller: ReadableStreamDefaultController<UIMessageChunk>,
+    abortSignal: AbortSignal | undefined,
+  ): Promise<OpenAIChatMessage[]> {
+    return Promise.all(
+      toolCalls.map(async (call): Promise<OpenAIChatMessage> => {
+        const { id: toolCallId, function: fn } = call;
+        const tool = this.tools[fn.name];
+
+        let input: unknown;
+        let errorText: string | null;
+        try {
+          input = fn.arguments.trim() ? JSON.parse(fn.arguments) : {};
+          errorText = tool ? validateToolInput(tool.parameters, input) : null;
+        } catch {
+          input = fn.arguments;
+          errorText = "The tool arguments are not valid JSON.";
+        }
+        if (errorText) {
+          controller.enqueue({
+            type: "tool-input-error",
+            toolCallId,
+            toolName: fn.name,
+            input,
+            errorText,
+            dynamic: true,
+          });
+          return {
+            role: "tool",
+            tool_call_id: toolCallId,
+            content: `Error: ${errorText}`,
+          };
         }
 
         controller.enqueue({
-          type: "text-delta",
-          id: TEXT_STREAM_ID,
-          delta: value,
+          type: "tool-input-available",
+          toolCallId,
+          toolName: fn.name,
+          input,
+          dynamic: true,
         });
-      },
-      async cancel(reason) {
-        await reader.cancel(reason);
-      },
-    });
+
+        try {
+          if (!tool) throw new Error(`Unknown tool "${fn.name}".`);
+          const output = await tool.execute(input as never, {
+            toolCallId,
+            abortSignal,
+          });
+          controller.enqueue({
+            type: "tool-output-available",
+            toolCallId,
+            output,
+            dynamic: true,
+          });
+          return {
+            role: "tool",
+            tool_call_id: toolCallId,
+            content: JSON.stringify(output ?? null),
+          };
+        } catch (err) {
+          const errorText =
+            err instanceof Error ? err.message : "Tool execution failed";
+          controller.enqueue({
+            type: "tool-output-error",
+            toolCallId,
+            errorText,
+            dynamic: true,
+          });
+          return {
+            role: "tool",
+            tool_call_id: toolCallId,
+            content: `Error: ${errorText}`,
+          };
+        }
+      }),
+    );
   }
 
-  private getApiRoot() {
-    return this.baseUrl.replace(/\/v1\/?$/, "");
+  private getApiRoot(baseUrl: string) {
+    return baseUrl.replace(/\/v1\/?$/, "");
   }
 
   private getIdToken() {
@@ -472,37 +1803,288 @@ export class BrowserChatTransport<UI_MESSAGE extends UIMessage = UIMessage>
   }
 }
 
-const extractTextChunks = (
-  rawEvent: string,
-): { deltas: string[]; done: boolean } => {
-  const lines = rawEvent.split("\n");
-  const deltas: string[] = [];
-  let done = false;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed.startsWith("data:")) continue;
-
-    const payload = trimmed.slice(5).trim();
-    if (!payload) continue;
-    if (payload === "[DONE]") {
-      done = true;
-      continue;
-    }
+/**
+ * Guess a fenced code block language from a file name's extension.
+ */
+const fenceLanguage = (filename: string) => {
+  const ext = filename.split(".").pop()?.toLowerCase() ?? "";
+  const aliases: Record<string, string> = {
+    md: "markdown",
+    py: "python",
+    rb: "ruby",
+    rs: "rust",
+    kt: "kotlin",
+    yml: "yaml",
+    sh: "bash",
+    txt: "",
+    pdf: "",
+  };
+  return ext in aliases ? aliases[ext] : ext;
+};
 
-    try {
-      const parsed = JSON.parse(payload) as {
-        choices?: Array<{ delta?: { content?: string } }>;
+export const addUsage = (
+  a: TokenUsage | undefined,
+  b: TokenUsage,
+): TokenUsage => {
+  if (!a) return b;
+  const reasoningTokens =
+    a.reasoningTokens === undefined && b.reasoningTokens === undefined
+      ? undefined
+      : (a.reasoningTokens ?? 0) + (b.reasoningTokens ?? 0);
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    ...(reasoningTokens !== undefined ? { reasoningTokens } : {}),
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+};
+
+type ChatCompletionUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number } | null;
+};
+
+const toTokenUsage = (usage: ChatCompletionUsage): TokenUsage => {
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens;
+  return {
+    promptTokens,
+    completionTokens,
+    ...(typeof reasoningTokens === "number" ? { reasoningTokens } : {}),
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+};
+
+type ChatCompletionDelta = {
+  content?: string | null;
+  tool_calls?: Array<{
+    index?: number;
+    id?: string;
+    function?: { name?: string; arguments?: string };
+  }>;
+  reasoning_content?: string | null;
+  reasoning?: string | { summary?: string; text?: string } | null;
+  reasoning_summary?: string | null;
+  reasoning_details?: Array<{ type?: string; text?: string; summary?: string }>;
+};
+
+/**
+ * Pull the reasoning text out of a delta. Providers disagree on the field
+ * name, so check the common ones in order of specificity.
+ */
+const extractReasoning = (delta: ChatCompletionDelta): string => {
+  if (typeof delta.reasoning_content === "string")
+    return delta.reasoning_content;
+  if (typeof delta.reasoning === "string") return delta.reasoning;
+  if (delta.reasoning && typeof delta.reasoning === "object") {
+    return delta.reasoning.summary ?? delta.reasoning.text ?? "";
+  }
+  if (typeof delta.reasoning_summary === "string")
+    return delta.reasoning_summary;
+  if (Array.isArray(delta.reasoning_details)) {
+    return delta.reasoning_details
+      .map((detail) => detail?.summary ?? detail?.text ?? "")
+      .join("");
+  }
+  return "";
+};
+
+type GeneratedImageData = {
+  url?: string;
+  b64_json?: string;
+  mime_type?: string;
+};
+
+/**
+ * Read a streamed image response (`stream: true` servers send partial images
+ * before the final one) and return the last image it carried.
+ */
+const readImageEventStream = async (
+  body: ReadableStream<Uint8Array> | null,
+): Promise<GeneratedImageData | undefined> => {
+  if (!body) return undefined;
+  let image: GeneratedImageData | undefined;
+  const reader = decodeSseStream(body).getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value.event === "error")
+        throw new Error(getSseErrorMessage(value.data));
+      if (value.data.trim() === "[DONE]") break;
+
+      let parsed: GeneratedImageData & {
+        error?: unknown;
+        data?: GeneratedImageData[];
       };
-      const delta = parsed.choices?.[0]?.delta?.content;
-      if (typeof delta === "string" && delta.length > 0) {
-        deltas.push(delta);
+      try {
+        parsed = JSON.parse(value.data);
+      } catch {
+        continue;
       }
-    } catch (err) {
-      // eslint-disable-next-line no-console
-      console.error("Failed to parse SSE chunk", err);
+      if (parsed?.error) throw new Error(getSseErrorMessage(value.data));
+      const candidate = parsed?.data?.[0] ?? parsed;
+      if (candidate?.url || candidate?.b64_json) image = candidate;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return image;
+};
+
+/**
+ * Parsed and classified error body of a failed response, for
+ * `TransportErrorInfo`.
+ */
+const toErrorDetails = (response: Response, text: string, fallback: string) => {
+  const { message, ...details } = describeApiError(response.status, text);
+  return {
+    ...details,
+    message: message || response.statusText || fallback,
+    details: text && text.trim() !== message ? text : undefined,
+  };
+};
+
+/**
+ * Map an OpenAI `finish_reason` to the AI SDK's finish reasons.
+ */
+const toFinishReason = (reason: string): FinishReason => {
+  switch (reason) {
+    case "stop":
+    case "length":
+      return reason;
+    case "content_filter":
+      return "content-filter";
+    case "tool_calls":
+    case "function_call":
+      return "tool-calls";
+    default:
+      return "other";
+  }
+};
+
+/**
+ * Estimated prompt tokens of one message, including attached images and
+ * tool calls.
+ */
+const estimateMessageTokens = (message: OpenAIChatMessage): number => {
+  let tokens = MESSAGE_TOKEN_OVERHEAD;
+  if (typeof message.content === "string") {
+    tokens += estimateTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      tokens +=
+        part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKEN_ESTIMATE;
     }
   }
+  if (message.role === "assistant" && message.tool_calls) {
+    tokens += estimateTokens(JSON.stringify(message.tool_calls));
+  }
+  return tokens;
+};
+
+/**
+ * Plain-text rendering of a message for the summary prompt.
+ */
+const toTranscriptLine = (message: OpenAIChatMessage): string => {
+  const content =
+    typeof message.content === "string"
+      ? message.content
+      : Array.isArray(message.content)
+        ? message.content
+            .map((part) => (part.type === "text" ? part.text : "[image]"))
+            .join("\n")
+        : "";
+  if (message.role === "tool") return `Tool result: ${content}`;
+  if (message.role === "assistant" && message.tool_calls?.length) {
+    const calls = message.tool_calls
+      .map((call) => call.function.name)
+      .join(", ");
+    return `Assistant (called ${calls}): ${content}`;
+  }
+  const role = message.role.charAt(0).toUpperCase() + message.role.slice(1);
+  return `${role}: ${content}`;
+};
+
+const extractDeltas = (
+  event: SseEvent,
+): { deltas: StreamDelta[]; done: boolean } => {
+  if (event.event === "error") {
+    return {
+      deltas: [{ type: "error", errorText: getSseErrorMessage(event.data) }],
+      done: true,
+    };
+  }
+
+  const payload = event.data.trim();
+  if (!payload) return { deltas: [], done: false };
+  if (payload === "[DONE]") return { deltas: [], done: true };
+
+  let parsed: {
+    choices?: Array<{
+      delta?: ChatCompletionDelta;
+      finish_reason?: string | null;
+    }>;
+    usage?: ChatCompletionUsage | null;
+    error?: unknown;
+  };
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return {
+      deltas: [
+        {
+          type: "error",
+          errorText: "Received a malformed chunk from the server.",
+        },
+      ],
+      done: true,
+    };
+  }
+
+  // Some servers report mid-stream failures as a data chunk with `error`.
+  if (parsed?.error) {
+    return {
+      deltas: [{ type: "error", errorText: getSseErrorMessage(payload) }],
+      done: true,
+    };
+  }
+
+  const deltas: StreamDelta[] = [];
+  // With `include_usage`, the last chunk carries usage and no choices.
+  if (parsed.usage) {
+    deltas.push({ type: "usage", usage: toTokenUsage(parsed.usage) });
+  }
+  const choice = parsed.choices?.[0];
+  if (choice?.finish_reason) {
+    deltas.push({
+      type: "finish-reason",
+      reason: toFinishReason(choice.finish_reason),
+    });
+  }
+  const delta = choice?.delta;
+  if (!delta) return { deltas, done: false };
+
+  // Reasoning precedes the answer within a chunk when both are present.
+  const reasoning = extractReasoning(delta);
+  if (reasoning.length > 0) {
+    deltas.push({ type: "reasoning", delta: reasoning });
+  }
+  if (typeof delta.content === "string" && delta.content.length > 0) {
+    deltas.push({ type: "text", delta: delta.content });
+  }
+  for (const [position, call] of (delta.tool_calls ?? []).entries()) {
+    deltas.push({
+      type: "tool-call",
+      index: call.index ?? position,
+      id: call.id || undefined,
+      name: call.function?.name || undefined,
+      argumentsDelta: call.function?.arguments ?? "",
+    });
+  }
 
-  return { deltas, done };
+  return { deltas, done: false };
 };
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  calculatorTool,
+  evaluateExpression,
+  validateToolInput,
+  type JSONSchema,
+} from "@/lib/browser-tools";
+
+describe("validateToolInput", () => {
+  const schema: JSONSchema = {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+      limit: { type: "integer" },
+      tags: { type: "array", items: { type: "string" } },
+      filter: {
+        type: "object",
+        properties: { after: { type: ["string", "null"] } },
+        additionalProperties: false,
+      },
+    },
+    required: ["query"],
+    additionalProperties: false,
+  };
+
+  it("accepts valid input", () => {
+    expect(validateToolInput(schema, { query: "weather" })).toBeNull();
+    expect(
+      validateToolInput(schema, {
+        query: "weather",
+        unit: "celsius",
+        limit: 3,
+        tags: ["a", "b"],
+        filter: { after: null },
+      }),
+    ).toBeNull();
+  });
+
+  it.each<[string, unknown, string]>([
+    ["a non-object", "weather", "input must be of type object."],
+    ["an array", [], "input must be of type object."],
+    ["null", null, "input must be of type object."],
+    ["a missing field", {}, "input.query is required."],
+    ["a wrong type", { query: 42 }, "input.query must be of type string."],
+    [
+      "a fraction for an integer",
+      { query: "a", limit: 1.5 },
+      "input.limit must be of type integer.",
+    ],
+    [
+      "a value outside the enum",
+      { query: "a", unit: "kelvin" },
+      'input.unit must be one of "celsius", "fahrenheit".',
+    ],
+    ["an extra field", { query: "a", page: 2 }, "input.page is not allowed."],
+    [
+      "a bad array item",
+      { query: "a", tags: ["ok", 3] },
+      "input.tags[1] must be of type string.",
+    ],
+    [
+      "a bad nested field",
+      { query: "a", filter: { after: 5 } },
+      "input.filter.after must be of type string or null.",
+    ],
+    [
+      "an extra nested field",
+      { query: "a", filter: { before: "x" } },
+      "input.filter.before is not allowed.",
+    ],
+  ])("reports %s", (_, input, message) => {
+    expect(validateToolInput(schema, input)).toBe(message);
+  });
+
+  it("allows extra fields unless additionalProperties is false", () => {
+    expect(
+      validateToolInput(
+        { type: "object", properties: { a: { type: "number" } } },
+        { a: 1, b: 2 },
+      ),
+    ).toBeNull();
+  });
+
+  it("rejects non-finite numbers", () => {
+    expect(validateToolInput({ type: "number" }, Number.NaN)).toBe(
+      "input must be of type number.",
+    );
+    expect(validateToolInput({ type: "number" }, 2.5)).toBeNull();
+  });
+
+  it("compares enum options by value", () => {
+    const options = { enum: [{ a: 1 }, [1, 2], null] };
+
+    expect(validateToolInput(options, { a: 1 })).toBeNull();
+    expect(validateToolInput(options, [1, 2])).toBeNull();
+    expect(validateToolInput(options, null)).toBeNull();
+    expect(validateToolInput(options, { a: 2 }, "value")).toBe(
+      'value must be one of {"a":1}, [1,2], null.',
+    );
+  });
+
+  it("accepts anything when the schema has no constraints", () => {
+    expect(validateToolInput({}, undefined)).toBeNull();
+    expect(validateToolInput({}, { any: ["thing"] })).toBeNull();
+  });
+});
+
+describe("evaluateExpression", () => {
+  it.each<[string, number]>([
+    ["1 + 2 * 3", 7],
+    ["(1 + 2) * 3", 9],
+    ["10 - 4 - 3", 3],
+    ["12 / 4 / 3", 1],
+    ["7 % 4", 3],
+    ["2 ^ 3 ^ 2", 512],
+    ["-2 ^ 2", -4],
+    ["2 ^ -1", 0.5],
+    ["--3", 3],
+    ["+4 - -1", 5],
+    ["1.5e3 + 2E-1", 1500.2],
+    ["2 * (3 + 4) ^ 2", 98],
+    ["sqrt(16) + abs(-2)", 6],
+    ["log(1000) + ln(e)", 4],
+    ["round(2.5) + floor(-1.5) + ceil(1.2)", 3],
+    ["SIN(0) + Cos(0)", 1],
+    ["2 * PI", 2 * Math.PI],
+  ])("evaluates %s", (expression, expected) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(expected, 10);
+  });
+
+  it("follows IEEE rules for division by zero", () => {
+    expect(evaluateExpression("1 / 0")).toBe(Infinity);
+    expect(evaluateExpression("0 / 0")).toBeNaN();
+  });
+
+  it.each<[string, string]>([
+    ["", "Unexpected end of expression"],
+    ["1 +", "Unexpected end of expression"],
+    ["(1 + 2", 'Expected ")"'],
+    ["sqrt 4", 'Expected "("'],
+    ["1 + 2)", 'Unexpected token ")"'],
+    ["2 3", 'Unexpected token "3"'],
+    ["foo(1)", 'Unexpected token "foo"'],
+    ["alert(1)", 'Unexpected token "alert"'],
+    ["1 = 1", 'Unexpected token "="'],
+  ])("rejects %j", (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+});
+
+describe("calculatorTool", () => {
+  const execute = (expression: string) =>
+    calculatorTool.execute({ expression }, { toolCallId: "call-1" });
+
+  it("returns the expression with its result", async () => {
+    await expect(execute("6 * 7")).resolves.toEqual({
+      expression: "6 * 7",
+      result: 42,
+    });
+  });
+
+  it("rejects results that are not finite", async () => {
+    await expect(execute("1 / 0")).rejects.toThrow(
+      "The expression does not evaluate to a finite number.",
+    );
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * JSON schema describing a tool's input, sent verbatim as the OpenAI
+ * `function.parameters` field.
+ */
+export type JSONSchema = Record<string, unknown>;
+
+export type BrowserToolExecuteOptions = {
+  toolCallId: string;
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * A tool the model can call. Executors run in the browser, so they must not
+ * rely on server-only APIs.
+ */
+export type BrowserTool<INPUT = unknown, OUTPUT = unknown> = {
+  description?: string;
+  parameters: JSONSchema;
+  execute: (
+    input: INPUT,
+    options: BrowserToolExecuteOptions,
+  ) => Promise<OUTPUT>;
+};
+
+/**
+ * Tools keyed by the name the model uses to call them. Inputs are checked
+ * against each tool's `parameters` (see `validateToolInput`) before it runs.
+ */
+export type BrowserToolRegistry = Record<string, BrowserTool<never, unknown>>;
+
+/**
+ * Identity helper that infers the executor's input and output types.
+ */
+export const defineTool = <INPUT, OUTPUT>(
+  tool: BrowserTool<INPUT, OUTPUT>,
+): BrowserTool<INPUT, OUTPUT> => tool;
+
+const JSON_TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  object: (value) =>
+    typeof value === "object" && value !== null && !Array.isArray(value),
+  array: Array.isArray,
+  string: (value) => typeof value === "string",
+  number: (value) => typeof value === "number" && Number.isFinite(value),
+  integer: Number.isInteger,
+  boolean: (value) => typeof value === "boolean",
+  null: (value) => value === null,
+};
+
+/**
+ * Check a tool input against the parts of JSON schema tools use: `type`,
+ * `enum`, `properties`, `required`, `additionalProperties` and `items`.
+ * Returns the first mismatch, or null when the input is valid.
+ */
+export const validateToolInput = (
+  schema: JSONSchema,
+  value: unknown,
+  path = "input",
+): string | null => {
+  const types = [schema.type ?? []].flat() as string[];
+  if (
+    types.length > 0 &&
+    !types.some((type) => JSON_TYPE_CHECKS[type]?.(value))
+  ) {
+    return `${path} must be of type ${types.join(" or ")}.`;
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some(
+      (option) => JSON.stringify(option) === JSON.stringify(value),
+    )
+  ) {
+    return `${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}.`;
+  }
+
+  if (JSON_TYPE_CHECKS.object(value)) {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in object)) return `${path}.${key} is required.`;
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (key in properties) {
+        const error = validateToolInput(
+          properties[key],
+          item,
+          `${path}.${key}`,
+        );
+        if (error) return error;
+      } else if (schema.additionalProperties === false) {
+        return `${path}.${key} is not allowed.`;
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      const error = validateToolInput(
+        schema.items as JSONSchema,
+        item,
+        `${path}[${index}]`,
+      );
+      if (error) return error;
+    }
+  }
+  return null;
+};
+
+/**
+ * Convert a registry into the `tools` array of a `/chat/completions` body.
+ */
+export const toOpenAITools = (registry: BrowserToolRegistry) =>
+  Object.entries(registry).map(([name, tool]) => ({
+    type: "function" as const,
+    function: {
+      name,
+      ...(tool.description ? { description: tool.description } : {}),
+      parameters: tool.parameters,
+    },
+  }));
+
+const MATH_FUNCTIONS: Record<string, (value: number) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluate an arithmetic expression without `eval`. Supports + - * / % ^,
+ * parentheses, unary minus and the functions in MATH_FUNCTIONS.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens =
+    expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|\S/gi) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = parseSum();
+      expect(")");
+      return value;
+    }
+    if (/^\d/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    if (name in MATH_FUNCTIONS) {
+      expect("(");
+      const value = parseSum();
+      expect(")");
+      return MATH_FUNCTIONS[name](value);
+    }
+    throw new Error(`Unexpected token "${token}"`);
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === "^") {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const rhs = parseUnary();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      const op = next();
+      const rhs = parseProduct();
+      value = op === "+" ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected token "${peek()}"`);
+  return result;
+};
+
+export const calculatorTool = defineTool({
+  description:
+    "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and sqrt, sin, cos, tan, log, ln, abs, round, floor, ceil.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: {
+        type: "string",
+        description: "The expression to evaluate, e.g. `2 * (3 + 4) ^ 2`.",
+      },
+    },
+    required: ["expression"],
+    additionalProperties: false,
+  },
+  execute: async ({ expression }: { expression: string }) => {
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) {
+      throw new Error("The expression does not evaluate to a finite number.");
+    }
+    return { expression, result };
+  },
+});
+
+export const dateTimeTool = defineTool({
+  description:
+    "Get the current date and time, optionally in a specific IANA time zone.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: {
+        type: "string",
+        description:
+          "IANA time zone such as `Europe/London`. Defaults to the user's local zone.",
+      },
+    },
+    additionalProperties: false,
+  },
+  execute: async ({ timeZone }: { timeZone?: string }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const local = now.toLocaleString("en-US", {
+      timeZone: zone,
+      dateStyle: "full",
+      timeStyle: "long",
+    });
+    return { iso: now.toISOString(), timeZone: zone, local };
+  },
+});
+
+/**
+ * Tools available to every chat unless the caller passes its own registry.
+ */
+export const defaultBrowserTools: BrowserToolRegistry = {
+  calculator: calculatorTool,
+  current_datetime: dateTimeTool,
+};
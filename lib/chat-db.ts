@@ -0,0 +1,111 @@
+const DB_NAME = "llm7-chat";
+
+export const JOURNAL_STORE = "stream-journal";
+export const THREADS_STORE = "threads";
+export const MESSAGES_STORE = "messages";
+export const FOLDERS_STORE = "folders";
+export const TAGS_STORE = "tags";
+
+/**
+ * Schema changes, one per database version: upgrading from version n runs
+ * every step from index n on. Only ever append; shipped steps must not
+ * change.
+ */
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  // 1: chunks of in-flight responses, for stream resumption.
+  (db) => {
+    const journal = db.createObjectStore(JOURNAL_STORE, {
+      keyPath: ["chatId", "messageId"],
+    });
+    journal.createIndex("chatId", "chatId");
+  },
+  // 2: threads and their messages (every branch).
+  (db) => {
+    const threads = db.createObjectStore(THREADS_STORE, { keyPath: "id" });
+    threads.createIndex("updatedAt", "updatedAt");
+    const messages = db.createObjectStore(MESSAGES_STORE, {
+      keyPath: ["threadId", "id"],
+    });
+    messages.createIndex("threadId", "threadId");
+  },
+  // 3: folders and tags to organize threads.
+  (db) => {
+    db.createObjectStore(FOLDERS_STORE, { keyPath: "id" });
+    db.createObjectStore(TAGS_STORE, { keyPath: "id" });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isChatDatabaseAvailable = () => typeof indexedDB !== "undefined";
+
+/**
+ * Open the app's database, upgrading its schema if needed. Shared by every
+ * module that stores data in IndexedDB so they agree on the version.
+ */
+export const openChatDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (
+          let version = event.oldVersion;
+          version < DB_VERSION;
+          version += 1
+        ) {
+          MIGRATIONS[version](request.result);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading; let it, and reopen on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a single request against one object store.
+ */
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openChatDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run several requests in one transaction; resolves once it commits.
+ */
+export const runTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (transaction: IDBTransaction) => void,
+): Promise<void> => {
+  const db = await openChatDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    fn(transaction);
+  });
+};
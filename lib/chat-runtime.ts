@@ -0,0 +1,149 @@
+import { useEffect } from "react";
+import { useChat } from "@ai-sdk/react";
+import {
+  unstable_useRemoteThreadListRuntime,
+  useAssistantState,
+} from "@assistant-ui/react";
+import {
+  useAISDKRuntime,
+  type UseChatRuntimeOptions,
+} from "@assistant-ui/react-ai-sdk";
+import type { ChatTransport, UIMessage } from "ai";
+
+import type { ChatRequestMetadata } from "@/lib/browser-chat-transport";
+import type { ImageRequestTrigger } from "@/lib/image-intent";
+import { MAX_IMAGE_COUNT } from "@/lib/image-options";
+import {
+  indexedDBThreadListAdapter,
+  updateStoredMessage,
+} from "@/lib/thread-storage";
+
+type ChatHelpers = ReturnType<typeof useChat>;
+
+/**
+ * AI SDK chat helpers for every mounted thread, keyed by thread id. The
+ * assistant-ui runtime does not expose them, but continuing a message needs
+ * `sendMessage()` without a new user message.
+ */
+const activeChats = new Map<string, ChatHelpers>();
+
+/**
+ * Ask the model to continue the last assistant message of a thread. New
+ * chunks are appended to that message rather than starting a new turn.
+ */
+export const continueGenerating = async (threadId: string) => {
+  const chat = activeChats.get(threadId);
+  if (!chat || chat.status === "streaming" || chat.status === "submitted")
+    return;
+  if (chat.messages.at(-1)?.role !== "assistant") return;
+  await chat.sendMessage();
+};
+
+/**
+ * Send the thread's last request again, e.g. after changing settings in
+ * response to an error. Replaces a failed assistant message if there is one.
+ */
+export const retryLastRequest = async (threadId: string) => {
+  const chat = activeChats.get(threadId);
+  if (!chat || chat.status === "streaming" || chat.status === "submitted")
+    return;
+  if (chat.messages.length === 0) return;
+  await chat.regenerate();
+};
+
+/**
+ * Regenerate an assistant message as a regular chat response, e.g. when a
+ * prompt was wrongly taken for an image request.
+ */
+export const regenerateAsText = async (threadId: string, messageId: string) => {
+  const chat = activeChats.get(threadId);
+  if (!chat || chat.status === "streaming" || chat.status === "submitted")
+    return;
+  const metadata: ChatRequestMetadata = { forceText: true };
+  await chat.regenerate({ messageId, metadata });
+};
+
+/**
+ * Regenerate an image message with one image from a fixed seed, picking up
+ * the current image options (model, size).
+ */
+export const regenerateImage = async (
+  threadId: string,
+  messageId: string,
+  seed: number,
+  trigger: ImageRequestTrigger,
+) => {
+  const chat = activeChats.get(threadId);
+  if (!chat || chat.status === "streaming" || chat.status === "submitted")
+    return;
+  const metadata: ChatRequestMetadata = {
+    image: { seed, count: 1 },
+    imageTrigger: trigger,
+  };
+  await chat.regenerate({ messageId, metadata });
+};
+
+/**
+ * Ask for more images of the same prompt with fresh seeds, as a new turn.
+ */
+export const requestImageVariations = async (
+  threadId: string,
+  prompt: string,
+) => {
+  const chat = activeChats.get(threadId);
+  if (!chat || chat.status === "streaming" || chat.status === "submitted")
+    return;
+  const metadata: ChatRequestMetadata = {
+    image: { seed: undefined, count: MAX_IMAGE_COUNT },
+    imageTrigger: "command",
+  };
+  await chat.sendMessage({ text: `/image ${prompt}` }, { metadata });
+};
+
+type ChatRuntimeOptions = Omit<UseChatRuntimeOptions, "cloud" | "transport"> & {
+  transport: ChatTransport<UIMessage>;
+};
+
+const useThreadChatRuntime = ({
+  adapters,
+  toCreateMessage,
+  ...chatOptions
+}: ChatRuntimeOptions) => {
+  const id = useAssistantState(({ threadListItem }) => threadListItem.id);
+  const chat = useChat({ ...chatOptions, id, resume: true });
+
+  useEffect(() => {
+    activeChats.set(id, chat);
+  });
+  useEffect(() => () => void activeChats.delete(id), [id]);
+
+  // The history adapter stores each message once, when it first completes.
+  // Keep the stored copy of the last message current (continued responses,
+  // branch switches).
+  const lastMessage = chat.messages.at(-1);
+  useEffect(() => {
+    if (chat.status !== "ready" || !lastMessage) return;
+    void updateStoredMessage(id, lastMessage.id, lastMessage).catch(
+      () => undefined,
+    );
+  }, [id, chat.status, lastMessage]);
+
+  return useAISDKRuntime(chat, {
+    adapters,
+    ...(toCreateMessage && { toCreateMessage }),
+  });
+};
+
+/**
+ * Same wiring as `useChatRuntime` from `@assistant-ui/react-ai-sdk`, plus
+ * stream resumption on mount, access to each thread's chat helpers and
+ * threads persisted in IndexedDB.
+ */
+export const useLLM7ChatRuntime = (options: ChatRuntimeOptions) =>
+  unstable_useRemoteThreadListRuntime({
+    runtimeHook: function RuntimeHook() {
+      return useThreadChatRuntime(options);
+    },
+    adapter: indexedDBThreadListAdapter,
+    allowNesting: true,
+  });
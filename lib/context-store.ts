@@ -0,0 +1,55 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import {
+  DEFAULT_CONTEXT_STRATEGY,
+  type ContextStrategy,
+} from "@/lib/context-window";
+
+type ContextState = {
+  /**
+   * How to shorten threads that don't fit the model's context window.
+   */
+  strategy: ContextStrategy;
+  /**
+   * Messages per thread that `keep-pinned` always sends.
+   */
+  pinned: Record<string, string[]>;
+  setStrategy: (strategy: ContextStrategy) => void;
+  togglePinned: (threadId: string, messageId: string) => void;
+};
+
+export const useContextStore = create<ContextState>()(
+  persist(
+    (set) => ({
+      strategy: DEFAULT_CONTEXT_STRATEGY,
+      pinned: {},
+      setStrategy: (strategy) => set({ strategy }),
+      togglePinned: (threadId, messageId) =>
+        set((state) => {
+          const current = state.pinned[threadId] ?? [];
+          const next = current.includes(messageId)
+            ? current.filter((id) => id !== messageId)
+            : [...current, messageId];
+          return { pinned: { ...state.pinned, [threadId]: next } };
+        }),
+    }),
+    { name: "llm7_context_settings" },
+  ),
+);
+
+/**
+ * Strategy and pinned messages for a thread, read at request time.
+ */
+export const getContextSettings = (threadId: string) => {
+  const { strategy, pinned } = useContextStore.getState();
+  return { strategy, pinnedMessageIds: pinned[threadId] ?? [] };
+};
+
+export const useContextStrategy = () =>
+  useContextStore((state) => state.strategy);
+
+export const useIsPinned = (threadId: string | undefined, messageId: string) =>
+  useContextStore((state) =>
+    Boolean(threadId && state.pinned[threadId]?.includes(messageId)),
+  );
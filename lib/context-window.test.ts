@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  getContextWindow,
+  getResponseReserve,
+  selectContext,
+  type ContextCandidate,
+} from "@/lib/context-window";
+
+// Oldest first; "sys" and the latest turn must always be sent.
+const candidates: ContextCandidate[] = [
+  { id: "sys", tokens: 10, required: true },
+  { id: "m1", tokens: 40, pinned: true },
+  { id: "m2", tokens: 30 },
+  { id: "m3", tokens: 30 },
+  { id: "m4", tokens: 20 },
+  { id: "latest", tokens: 20, required: true },
+];
+
+describe("selectContext", () => {
+  it("leaves nothing out when everything fits", () => {
+    expect(selectContext(candidates, 1000, "drop-oldest")).toEqual([]);
+  });
+
+  it("drops the oldest messages that don't fit", () => {
+    // 30 left after the required ones: m4 fits, m3 doesn't.
+    expect(selectContext(candidates, 60, "drop-oldest")).toEqual([
+      "m1",
+      "m2",
+      "m3",
+    ]);
+  });
+
+  it("leaves no gaps: stops at the first message that doesn't fit", () => {
+    // m3 doesn't fit after m4, so the smaller m2 before it is dropped too.
+    const withSmallOld = candidates.map((candidate) =>
+      candidate.id === "m2" ? { ...candidate, tokens: 5 } : candidate,
+    );
+    expect(selectContext(withSmallOld, 70, "drop-oldest")).toEqual([
+      "m1",
+      "m2",
+      "m3",
+    ]);
+  });
+
+  it("keeps pinned messages first with keep-pinned", () => {
+    expect(selectContext(candidates, 100, "keep-pinned")).toEqual(["m2", "m3"]);
+    expect(selectContext(candidates, 100, "drop-oldest")).toEqual(["m1", "m2"]);
+  });
+
+  it("skips pinned messages that don't fit", () => {
+    expect(selectContext(candidates, 60, "keep-pinned")).toEqual([
+      "m1",
+      "m2",
+      "m3",
+    ]);
+  });
+
+  it("keeps required messages even over budget", () => {
+    expect(selectContext(candidates, 0, "summarize")).toEqual([
+      "m1",
+      "m2",
+      "m3",
+      "m4",
+    ]);
+  });
+});
+
+describe("getContextWindow", () => {
+  it.each([
+    ["gpt-4.1-nano", 1_000_000],
+    ["gpt-4o-mini", 128_000],
+    ["o3-mini", 200_000],
+    ["deepseek-r1", 64_000],
+    ["some-new-model", DEFAULT_CONTEXT_WINDOW],
+  ])("gives %s a %i-token window", (model, tokens) => {
+    expect(getContextWindow(model)).toBe(tokens);
+  });
+});
+
+describe("getResponseReserve", () => {
+  it("keeps a quarter of small windows and at most 4096 tokens", () => {
+    expect(getResponseReserve(8192)).toBe(2048);
+    expect(getResponseReserve(128_000)).toBe(4096);
+  });
+});
@@ -0,0 +1,149 @@
+import { getRememberedModel } from "@/lib/models";
+
+/**
+ * What to do with older messages when a thread no longer fits the model's
+ * context window.
+ */
+export type ContextStrategy = "drop-oldest" | "keep-pinned" | "summarize";
+
+export const CONTEXT_STRATEGIES: Array<{
+  id: ContextStrategy;
+  label: string;
+  description: string;
+}> = [
+  {
+    id: "drop-oldest",
+    label: "Drop oldest",
+    description: "Leave out the oldest messages.",
+  },
+  {
+    id: "keep-pinned",
+    label: "Keep pinned",
+    description: "Leave out the oldest messages, but always send pinned ones.",
+  },
+  {
+    id: "summarize",
+    label: "Summarize",
+    description:
+      "Replace the oldest messages with a summary written by the model.",
+  },
+];
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = "drop-oldest";
+
+/**
+ * Window assumed for models we know nothing about. Deliberately small: a
+ * too-small guess only drops history early, a too-large one fails requests.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Rough windows of common model families, matched against the model id.
+const KNOWN_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-5/i, 400_000],
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo/i, 128_000],
+  [/\bo[134](?:-|$)/i, 200_000],
+  [/claude/i, 200_000],
+  [/gemini/i, 1_000_000],
+  [/llama-?3\.[1-3]|llama-?4/i, 128_000],
+  [/deepseek/i, 64_000],
+  [/qwen/i, 32_768],
+  [/mistral|mixtral|codestral/i, 32_000],
+];
+
+/**
+ * Context window of a model in tokens, best effort. A window reported by
+ * `/models` wins over the table above.
+ */
+export const getContextWindow = (model: string) =>
+  getRememberedModel(model)?.contextWindow ??
+  KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ??
+  DEFAULT_CONTEXT_WINDOW;
+
+/**
+ * Tokens to leave free for the response.
+ */
+export const getResponseReserve = (contextWindow: number) =>
+  Math.min(4096, Math.floor(contextWindow / 4));
+
+/**
+ * Cheap token estimate. English averages about four characters per token;
+ * dividing by 3.5 errs on the high side so the budget holds for most
+ * tokenizers.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 3.5);
+
+/**
+ * Flat estimate for an image input; providers charge between ~85 and ~1500.
+ */
+export const IMAGE_TOKEN_ESTIMATE = 800;
+
+/**
+ * Per-message overhead of the chat format (role and separators).
+ */
+export const MESSAGE_TOKEN_OVERHEAD = 4;
+
+export type ContextCandidate = {
+  /**
+   * Id of the thread message this entry stands for.
+   */
+  id: string;
+  tokens: number;
+  /**
+   * Always sent, even over budget (system messages, the latest turn).
+   */
+  required?: boolean;
+  pinned?: boolean;
+};
+
+/**
+ * Pick which messages to send within `budget` tokens. Required messages are
+ * always kept; then, with `keep-pinned`, pinned ones; then the most recent
+ * messages until one no longer fits, so the history that is sent has no
+ * gaps besides pinned messages. Returns the ids left out, oldest first.
+ */
+export const selectContext = (
+  candidates: ContextCandidate[],
+  budget: number,
+  strategy: ContextStrategy,
+): string[] => {
+  const kept = new Set<string>();
+  let remaining = budget;
+  const keep = (candidate: ContextCandidate) => {
+    kept.add(candidate.id);
+    remaining -= candidate.tokens;
+  };
+
+  for (const candidate of candidates) {
+    if (candidate.required) keep(candidate);
+  }
+  if (strategy === "keep-pinned") {
+    for (const candidate of [...candidates].reverse()) {
+      if (
+        candidate.pinned &&
+        !kept.has(candidate.id) &&
+        candidate.tokens <= remaining
+      ) {
+        keep(candidate);
+      }
+    }
+  }
+  for (const candidate of [...candidates].reverse()) {
+    if (kept.has(candidate.id)) continue;
+    if (candidate.tokens > remaining) break;
+    keep(candidate);
+  }
+
+  return candidates.filter((c) => !kept.has(c.id)).map((c) => c.id);
+};
+
+/**
+ * Per-thread context options, resolved at request time.
+ */
+export type ContextSettings = {
+  strategy: ContextStrategy;
+  /**
+   * Messages `keep-pinned` always sends.
+   */
+  pinnedMessageIds: string[];
+};
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getSupportedParams,
+  supportsTools,
+  toRequestBody,
+  validateGenerationParams,
+  type GenerationParams,
+} from "@/lib/generation-params";
+import { rememberModels } from "@/lib/models";
+import { LLM7_PROVIDER, type ProviderProfile } from "@/lib/providers";
+
+const ALL_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  topP: 0.9,
+  maxTokens: 1000,
+  stop: ["END"],
+  seed: 42,
+  reasoningEffort: "high",
+};
+
+const LOCAL_PROVIDER: ProviderProfile = {
+  id: "local",
+  name: "Local",
+  baseUrl: "http://localhost:8080/v1",
+  authHeader: "Authorization",
+  defaultModel: "llama-3.1-8b",
+};
+
+// Remembered models live for the whole test file, so each test uses its own
+// model ids.
+const remember = (id: string, extra: Record<string, unknown> = {}) =>
+  rememberModels([{ id, label: id, vision: false, ...extra }]);
+
+describe("getSupportedParams", () => {
+  it("guesses sampling parameters for chat models", () => {
+    expect([...getSupportedParams("gpt-4o", { llm7: false })]).toEqual([
+      "temperature",
+      "topP",
+      "maxTokens",
+      "stop",
+      "seed",
+    ]);
+  });
+
+  it.each(["gpt-5-nano", "o3-mini", "openai/o4-mini"])(
+    "leaves out sampling parameters for %s",
+    (model) => {
+      expect([...getSupportedParams(model, { llm7: false })]).toEqual([
+        "maxTokens",
+        "seed",
+        "reasoningEffort",
+      ]);
+    },
+  );
+
+  it("always accepts a reasoning effort on LLM7", () => {
+    expect(
+      getSupportedParams("gpt-4o", { llm7: true }).has("reasoningEffort"),
+    ).toBe(true);
+    expect(
+      getSupportedParams("gpt-4o", { llm7: false }).has("reasoningEffort"),
+    ).toBe(false);
+  });
+
+  it("prefers the parameters /models reported", () => {
+    remember("reported-chat", {
+      supportedParameters: ["temperature", "max_completion_tokens", "tools"],
+    });
+    remember("reported-reasoning", { supportedParameters: ["reasoning"] });
+
+    expect([...getSupportedParams("reported-chat", { llm7: false })]).toEqual([
+      "temperature",
+      "maxTokens",
+    ]);
+    expect([
+      ...getSupportedParams("reported-reasoning", { llm7: false }),
+    ]).toEqual(["reasoningEffort"]);
+  });
+});
+
+describe("supportsTools", () => {
+  it("uses the reported parameters or the provider profile", () => {
+    remember("tool-model", { supportedParameters: ["tools"] });
+    remember("plain-model", { supportedParameters: ["temperature"] });
+
+    expect(supportsTools("tool-model", LOCAL_PROVIDER)).toBe(true);
+    expect(supportsTools("plain-model", LOCAL_PROVIDER)).toBe(false);
+    expect(supportsTools("unknown-model", LOCAL_PROVIDER)).toBe(false);
+    expect(supportsTools("plain-model", LLM7_PROVIDER)).toBe(true);
+  });
+});
+
+describe("validateGenerationParams", () => {
+  it("accepts unset and in-range values", () => {
+    expect(validateGenerationParams({}, "gpt-4o")).toEqual({});
+    expect(validateGenerationParams(ALL_PARAMS, "gpt-4o")).toEqual({});
+    expect(
+      validateGenerationParams(
+        { temperature: 0, topP: 1, maxTokens: 1, stop: [], seed: -1 },
+        "gpt-4o",
+      ),
+    ).toEqual({});
+    expect(
+      validateGenerationParams(
+        { temperature: 2, maxTokens: 128_000 },
+        "gpt-4o",
+      ),
+    ).toEqual({});
+  });
+
+  it.each<[GenerationParams, string]>([
+    [{ temperature: -0.1 }, "temperature"],
+    [{ temperature: 2.1 }, "temperature"],
+    [{ temperature: Number.NaN }, "temperature"],
+    [{ topP: 0 }, "topP"],
+    [{ topP: 1.5 }, "topP"],
+    [{ maxTokens: 0 }, "maxTokens"],
+    [{ maxTokens: 10.5 }, "maxTokens"],
+    [{ stop: ["a", "b", "c", "d", "e"] }, "stop"],
+    [{ stop: ["a", ""] }, "stop"],
+    [{ seed: 1.5 }, "seed"],
+    [{ seed: Number.MAX_SAFE_INTEGER + 1 }, "seed"],
+  ])("rejects %j", (params, field) => {
+    expect(Object.keys(validateGenerationParams(params, "gpt-4o"))).toEqual([
+      field,
+    ]);
+  });
+
+  it("checks max tokens against the model's context window", () => {
+    expect(
+      validateGenerationParams({ maxTokens: 128_001 }, "gpt-4o").maxTokens,
+    ).toBe(
+      `gpt-4o has a context window of ${(128_000).toLocaleString()} tokens.`,
+    );
+
+    remember("small-window", { contextWindow: 2048 });
+    expect(
+      validateGenerationParams({ maxTokens: 2049 }, "small-window").maxTokens,
+    ).toMatch(/context window/);
+    expect(
+      validateGenerationParams({ maxTokens: 2048 }, "small-window"),
+    ).toEqual({});
+  });
+});
+
+describe("toRequestBody", () => {
+  it("sends every sampling parameter to chat models", () => {
+    expect(toRequestBody(ALL_PARAMS, { model: "gpt-4o", llm7: false })).toEqual(
+      {
+        temperature: 0.7,
+        top_p: 0.9,
+        max_tokens: 1000,
+        stop: ["END"],
+        seed: 42,
+      },
+    );
+  });
+
+  it("uses max_completion_tokens and drops sampling for reasoning models", () => {
+    expect(
+      toRequestBody(ALL_PARAMS, { model: "gpt-5-nano", llm7: false }),
+    ).toEqual({
+      max_completion_tokens: 1000,
+      seed: 42,
+      reasoning_effort: "high",
+    });
+  });
+
+  it("asks LLM7 for a reasoning summary with the effort", () => {
+    expect(
+      toRequestBody(
+        { temperature: 1, reasoningEffort: "low" },
+        { model: "gpt-4o", llm7: true },
+      ),
+    ).toEqual({
+      temperature: 1,
+      reasoning_effort: "low",
+      reasoning_summary: "auto",
+    });
+    expect(
+      toRequestBody({ temperature: 1 }, { model: "gpt-4o", llm7: true }),
+    ).toEqual({ temperature: 1 });
+  });
+
+  it("leaves out unset fields and empty stop lists", () => {
+    expect(toRequestBody({}, { model: "gpt-4o", llm7: false })).toEqual({});
+    expect(
+      toRequestBody({ stop: [], seed: 0 }, { model: "gpt-4o", llm7: false }),
+    ).toEqual({ seed: 0 });
+  });
+
+  it("follows the parameters /models reported", () => {
+    remember("reported-body", { supportedParameters: ["top_p", "stop"] });
+
+    expect(
+      toRequestBody(ALL_PARAMS, { model: "reported-body", llm7: false }),
+    ).toEqual({ top_p: 0.9, stop: ["END"] });
+  });
+});
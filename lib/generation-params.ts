@@ -0,0 +1,167 @@
+import { getContextWindow } from "@/lib/context-window";
+import { getRememberedModel } from "@/lib/models";
+import type { ProviderProfile } from "@/lib/providers";
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export const REASONING_EFFORTS: ReasoningEffort[] = [
+  "minimal",
+  "low",
+  "medium",
+  "high",
+];
+
+/**
+ * Sampling and length settings for chat requests. Unset fields are left to
+ * the server's defaults.
+ */
+export type GenerationParams = {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+  reasoningEffort?: ReasoningEffort;
+};
+
+export type GenerationParam = keyof GenerationParams;
+
+export const GENERATION_PARAM_LABELS: Record<GenerationParam, string> = {
+  temperature: "Temperature",
+  topP: "Top P",
+  maxTokens: "Max tokens",
+  stop: "Stop sequences",
+  seed: "Seed",
+  reasoningEffort: "Reasoning effort",
+};
+
+/**
+ * What LLM7 requests used before parameters were configurable.
+ */
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  reasoningEffort: "low",
+};
+
+export const MAX_STOP_SEQUENCES = 4;
+
+// OpenAI's reasoning models reject sampling parameters and `max_tokens`.
+const REASONING_MODEL = /(?:^|\/)(?:o\d|gpt-5)/i;
+
+// Names in OpenRouter's `supported_parameters` for each field.
+const SUPPORTED_PARAMETER_NAMES: Record<GenerationParam, string[]> = {
+  temperature: ["temperature"],
+  topP: ["top_p"],
+  maxTokens: ["max_tokens", "max_completion_tokens"],
+  stop: ["stop"],
+  seed: ["seed"],
+  reasoningEffort: ["reasoning", "reasoning_effort"],
+};
+
+const isReasoningModel = (model: string) => REASONING_MODEL.test(model);
+
+/**
+ * Parameters a model accepts. Uses what `/models` reported when available,
+ * otherwise a guess from the model id. LLM7 accepts a reasoning effort for
+ * every model and ignores it where it doesn't apply.
+ */
+export const getSupportedParams = (
+  model: string,
+  { llm7 }: { llm7: boolean },
+): Set<GenerationParam> => {
+  const reported = getRememberedModel(model)?.supportedParameters;
+  const params = reported
+    ? (Object.keys(SUPPORTED_PARAMETER_NAMES) as GenerationParam[]).filter(
+        (param) =>
+          SUPPORTED_PARAMETER_NAMES[param].some((name) =>
+            reported.includes(name),
+          ),
+      )
+    : isReasoningModel(model)
+      ? (["maxTokens", "seed", "reasoningEffort"] as GenerationParam[])
+      : ([
+          "temperature",
+          "topP",
+          "maxTokens",
+          "stop",
+          "seed",
+        ] as GenerationParam[]);
+
+  const supported = new Set(params);
+  if (llm7) supported.add("reasoningEffort");
+  return supported;
+};
+
+/**
+ * Whether to send tool definitions with a model's requests: when `/models`
+ * reported `tools` among its parameters, or the provider profile enables
+ * them. Many OpenAI-compatible servers reject requests with tools otherwise.
+ */
+export const supportsTools = (model: string, provider: ProviderProfile) =>
+  Boolean(getRememberedModel(model)?.supportedParameters?.includes("tools")) ||
+  Boolean(provider.tools);
+
+/**
+ * Check parameters against their ranges and the model's context window;
+ * returns a message per invalid field.
+ */
+export const validateGenerationParams = (
+  params: GenerationParams,
+  model: string,
+): Partial<Record<GenerationParam, string>> => {
+  const errors: Partial<Record<GenerationParam, string>> = {};
+  const { temperature, topP, maxTokens, stop, seed } = params;
+
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    errors.temperature = "Use a value between 0 and 2.";
+  }
+  if (topP !== undefined && !(topP > 0 && topP <= 1)) {
+    errors.topP = "Use a value above 0 and at most 1.";
+  }
+  if (maxTokens !== undefined) {
+    const contextWindow = getContextWindow(model);
+    if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+      errors.maxTokens = "Use a whole number of at least 1.";
+    } else if (maxTokens > contextWindow) {
+      errors.maxTokens = `${model} has a context window of ${contextWindow.toLocaleString()} tokens.`;
+    }
+  }
+  if (stop !== undefined) {
+    if (stop.length > MAX_STOP_SEQUENCES) {
+      errors.stop = `Use at most ${MAX_STOP_SEQUENCES} sequences.`;
+    } else if (stop.some((sequence) => sequence.length === 0)) {
+      errors.stop = "Stop sequences can't be empty.";
+    }
+  }
+  if (seed !== undefined && !Number.isSafeInteger(seed)) {
+    errors.seed = "Use a whole number.";
+  }
+  return errors;
+};
+
+/**
+ * Request body fields for the parameters, leaving out the ones the model
+ * doesn't accept.
+ */
+export const toRequestBody = (
+  params: GenerationParams,
+  { model, llm7 }: { model: string; llm7: boolean },
+): Record<string, unknown> => {
+  const supported = getSupportedParams(model, { llm7 });
+  const pick = <K extends GenerationParam>(param: K) =>
+    supported.has(param) ? params[param] : undefined;
+
+  const body: Record<string, unknown> = {
+    temperature: pick("temperature"),
+    top_p: pick("topP"),
+    [isReasoningModel(model) ? "max_completion_tokens" : "max_tokens"]:
+      pick("maxTokens"),
+    stop: pick("stop")?.length ? params.stop : undefined,
+    seed: pick("seed"),
+    reasoning_effort: pick("reasoningEffort"),
+    // LLM7 streams a summary of the model's reasoning when asked to.
+    reasoning_summary: llm7 && pick("reasoningEffort") ? "auto" : undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(body).filter(([, value]) => value !== undefined),
+  );
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyImagePrompt, parseImageCommand } from "@/lib/image-intent";
+
+describe("classifyImagePrompt", () => {
+  it.each([
+    "Draw a fox sleeping in the snow",
+    "generate an image of a cyberpunk city at night",
+    "Can you make me a logo for my bakery?",
+    "paint me two horses running on a beach",
+    "Create a photorealistic portrait of an astronaut",
+    "sketch a lighthouse in a storm",
+    "design a banner for our summer sale",
+  ])("takes %j as an image request", (prompt) => {
+    expect(classifyImagePrompt(prompt)).toBe(true);
+  });
+
+  it.each([
+    "What paint should I use on a bathroom wall?",
+    "Can you sketch out a plan for the migration?",
+    "Please illustrate the difference between TCP and UDP with an example",
+    "What can we draw from these results?",
+    "make a list of image formats",
+    "Sketch a plan for the migration",
+  ])("leaves %j to the slower classifier", (prompt) => {
+    expect(classifyImagePrompt(prompt)).toBeUndefined();
+  });
+
+  it.each([
+    "draw a conclusion from the survey",
+    "How do I resize an image in Python?",
+    "Summarize this article",
+    "",
+  ])("does not take %j as an image request", (prompt) => {
+    expect(classifyImagePrompt(prompt)).toBe(false);
+  });
+
+  it("ignores prompts too long for the heuristic", () => {
+    expect(
+      classifyImagePrompt(`Draw a fox. ${"More detail. ".repeat(40)}`),
+    ).toBe(false);
+  });
+});
+
+describe("parseImageCommand", () => {
+  it("strips the command", () => {
+    expect(parseImageCommand("/image  a red fox ")).toBe("a red fox");
+    expect(parseImageCommand("/img")).toBe("");
+  });
+
+  it("is null without the command", () => {
+    expect(parseImageCommand("draw /image")).toBeNull();
+    expect(parseImageCommand("/imagine a fox")).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * How a message came to be sent as an image generation request.
+ */
+export type ImageRequestTrigger =
+  | "command"
+  | "image-mode"
+  | "heuristic"
+  | "detector";
+
+const IMAGE_COMMAND = /^\s*\/(?:image|img)(?:\s+|$)/i;
+
+const MAX_HEURISTIC_LENGTH = 400;
+
+const GENERATE_VERBS =
+  "(?:generate|create|make|draw|paint|render|design|sketch|illustrate|produce|imagine)";
+const DEPICT_VERBS = "(?:draw|paint|sketch|illustrate)";
+const IMAGE_NOUNS =
+  "(?:image|picture|pic|photo|photograph|illustration|drawing|painting|artwork|logo|icon|wallpaper|portrait|sketch|poster|render|banner|avatar)s?";
+// Words between the verb and the image noun that make the noun a modifier:
+// "make a list of image formats".
+const NOT_BEFORE_NOUN = "(?:of|for|about|on|with|from|to|list|table)";
+const NOT_AFTER_NOUN =
+  "(?:formats?|files?|sizes?|types?|urls?|links?|editors?|metadata|resolution|compression|processing)";
+// Things that are drawn or sketched without being pictures.
+const NON_VISUAL_OBJECTS =
+  "(?:plan|outline|roadmap|list|conclusion|line|distinction|parallel|comparison|summary|draft|proposal|strategy)s?";
+
+// "generate an image of…", "can you make me a logo for…"
+const IMAGE_REQUEST = new RegExp(
+  `\\b${GENERATE_VERBS}\\b(?:\\s+(?!${NOT_BEFORE_NOUN}\\b)\\w+){0,4}?\\s+${IMAGE_NOUNS}\\b(?!\\s+${NOT_AFTER_NOUN}\\b)`,
+  "i",
+);
+// "draw a fox", "paint me two horses"
+const DEPICTION_REQUEST = new RegExp(
+  `\\b${DEPICT_VERBS}\\s+(?:(?:me|us)\\s+)?(?:a|an|some|two|three|\\d+)\\s+(?!(?:\\w+\\s+)?${NON_VISUAL_OBJECTS}\\b)\\w+`,
+  "i",
+);
+const DEPICT_VERB = new RegExp(`\\b${DEPICT_VERBS}\\b`, "i");
+// Prompts that talk about images without asking for one.
+const NOT_IMAGE_REQUEST =
+  /```|\b(?:how (?:do|can|to)|why|explain|code|function|css|html|python|javascript|resize|compress|upload|convert|conclusions?|comparisons?|distinction|attention)\b/i;
+const MENTIONS_IMAGE = new RegExp(`\\b${IMAGE_NOUNS}\\b`, "i");
+
+/**
+ * The prompt of a message starting with `/image` (or `/img`), without the
+ * command. Null when the message has no such prefix.
+ */
+export const parseImageCommand = (text: string): string | null => {
+  const match = IMAGE_COMMAND.exec(text);
+  return match ? text.slice(match[0].length).trim() : null;
+};
+
+/**
+ * Cheap local guess whether a prompt asks for an image: an image noun or a
+ * depicted subject has to follow the verb. Returns undefined when the prompt
+ * mentions images, or uses a verb like "draw" without a subject, but the
+ * intent is unclear, so callers can fall back to a slower classifier.
+ */
+export const classifyImagePrompt = (text: string): boolean | undefined => {
+  const prompt = text.trim();
+  if (!prompt || prompt.length > MAX_HEURISTIC_LENGTH) return false;
+  if (NOT_IMAGE_REQUEST.test(prompt)) return false;
+  if (IMAGE_REQUEST.test(prompt) || DEPICTION_REQUEST.test(prompt)) return true;
+  return MENTIONS_IMAGE.test(prompt) || DEPICT_VERB.test(prompt)
+    ? undefined
+    : false;
+};
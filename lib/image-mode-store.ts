@@ -0,0 +1,46 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import { DEFAULT_IMAGE_OPTIONS, type ImageOptions } from "@/lib/image-options";
+
+type ImageModeState = {
+  /**
+   * Threads whose composer is in image mode: every message is sent as an
+   * image generation request until the mode is turned off.
+   */
+  threads: Record<string, boolean>;
+  /**
+   * Options for every image request, whichever way it was triggered.
+   */
+  options: ImageOptions;
+  setImageMode: (threadId: string, enabled: boolean) => void;
+  setImageOptions: (options: Partial<ImageOptions>) => void;
+};
+
+export const useImageModeStore = create<ImageModeState>()(
+  persist(
+    (set) => ({
+      threads: {},
+      options: DEFAULT_IMAGE_OPTIONS,
+      setImageMode: (threadId, enabled) =>
+        set((state) => ({
+          threads: { ...state.threads, [threadId]: enabled },
+        })),
+      setImageOptions: (options) =>
+        set((state) => ({ options: { ...state.options, ...options } })),
+    }),
+    {
+      name: "llm7_image_options",
+      // Image mode is a per-session toggle; only the options are kept.
+      partialize: (state) => ({ options: state.options }),
+    },
+  ),
+);
+
+export const getImageMode = (threadId: string | undefined) =>
+  Boolean(threadId && useImageModeStore.getState().threads[threadId]);
+
+export const useImageMode = (threadId: string | undefined) =>
+  useImageModeStore((state) => Boolean(threadId && state.threads[threadId]));
+
+export const getImageOptions = () => useImageModeStore.getState().options;
@@ -0,0 +1,66 @@
+export type ImageOptions = {
+  model: string;
+  /**
+   * `WIDTHxHEIGHT`, as in OpenAI's `size` parameter.
+   */
+  size: string;
+  /**
+   * Fixed seed for the first image; further images use the following seeds.
+   * Undefined picks a random seed per request.
+   */
+  seed?: number;
+  count: number;
+  /**
+   * Hide the provider watermark. Only honored on paid tiers.
+   */
+  nologo: boolean;
+};
+
+export const IMAGE_MODELS = [
+  { id: "flux", label: "Flux", description: "Best quality" },
+  { id: "turbo", label: "Turbo", description: "Fastest" },
+];
+
+export const IMAGE_SIZES = [
+  { size: "1024x1024", label: "Square", aspect: "1:1" },
+  { size: "1344x768", label: "Landscape", aspect: "16:9" },
+  { size: "768x1344", label: "Portrait", aspect: "9:16" },
+  { size: "1152x896", label: "Classic", aspect: "4:3" },
+  { size: "896x1152", label: "Tall", aspect: "3:4" },
+];
+
+export const MAX_IMAGE_COUNT = 4;
+
+/**
+ * Lowest subscription tier allowed to remove the watermark.
+ */
+export const NOLOGO_MIN_TIER = 2;
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  model: "flux",
+  size: "1024x1024",
+  count: 1,
+  nologo: true,
+};
+
+/**
+ * Settings of one image generation request, stored as message metadata so
+ * the image cards can show and reuse them.
+ */
+export type ImageGenerationInfo = {
+  prompt: string;
+  model: string;
+  size: string;
+  count: number;
+  nologo: boolean;
+  /**
+   * Seeds of the generated images, in the same order as the message's file
+   * parts. Set once generation finished.
+   */
+  seeds?: number[];
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+export const getAspectLabel = (size: string) =>
+  IMAGE_SIZES.find((preset) => preset.size === size)?.aspect ?? size;
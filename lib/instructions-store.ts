@@ -0,0 +1,67 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * Instructions added to every chat, like ChatGPT's custom instructions.
+ */
+export type CustomInstructions = {
+  aboutMe: string;
+  howToRespond: string;
+  /**
+   * Keep the text but stop sending it.
+   */
+  enabled: boolean;
+};
+
+type InstructionsState = {
+  instructions: CustomInstructions;
+  /**
+   * Optional system prompt per thread.
+   */
+  threadPrompts: Record<string, string>;
+  setInstructions: (instructions: Partial<CustomInstructions>) => void;
+  setThreadPrompt: (threadId: string, prompt: string) => void;
+};
+
+export const useInstructionsStore = create<InstructionsState>()(
+  persist(
+    (set) => ({
+      instructions: { aboutMe: "", howToRespond: "", enabled: true },
+      threadPrompts: {},
+      setInstructions: (instructions) =>
+        set((state) => ({
+          instructions: { ...state.instructions, ...instructions },
+        })),
+      setThreadPrompt: (threadId, prompt) =>
+        set((state) => {
+          const threadPrompts = { ...state.threadPrompts };
+          if (prompt.trim()) threadPrompts[threadId] = prompt;
+          else delete threadPrompts[threadId];
+          return { threadPrompts };
+        }),
+    }),
+    { name: "llm7_instructions" },
+  ),
+);
+
+/**
+ * System message for a thread: its own prompt followed by the custom
+ * instructions. Undefined when there is neither.
+ */
+export const getSystemPrompt = (threadId: string): string | undefined => {
+  const { instructions, threadPrompts } = useInstructionsStore.getState();
+  const sections = [threadPrompts[threadId]?.trim()];
+  if (instructions.enabled) {
+    const aboutMe = instructions.aboutMe.trim();
+    const howToRespond = instructions.howToRespond.trim();
+    if (aboutMe) sections.push(`About the user:\n${aboutMe}`);
+    if (howToRespond) sections.push(`How to respond:\n${howToRespond}`);
+  }
+  const prompt = sections.filter(Boolean).join("\n\n");
+  return prompt || undefined;
+};
+
+export const useThreadPrompt = (threadId: string | undefined) =>
+  useInstructionsStore(
+    (state) => (threadId && state.threadPrompts[threadId]) || "",
+  );
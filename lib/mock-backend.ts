@@ -0,0 +1,486 @@
+import { sleep } from "@/lib/retry";
+
+/**
+ * Canned failure modes of the mock backend.
+ *
+ * - `ok`: scripted answers, no errors.
+ * - `unauthorized`: every API call fails with 401.
+ * - `rate-limit`: 429 for anonymous and free-tier requests, paid tiers pass.
+ * - `server-error`: chat requests fail with 500 (and get retried).
+ * - `malformed-sse`: the stream breaks off with an unparseable chunk.
+ * - `stream-error`: the stream ends with an SSE `error` event.
+ * - `length`: answers stop at the token limit (`finish_reason: "length"`).
+ * - `slow`: like `ok`, ten times slower.
+ */
+export type MockScenario =
+  | "ok"
+  | "unauthorized"
+  | "rate-limit"
+  | "server-error"
+  | "malformed-sse"
+  | "stream-error"
+  | "length"
+  | "slow";
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  "ok",
+  "unauthorized",
+  "rate-limit",
+  "server-error",
+  "malformed-sse",
+  "stream-error",
+  "length",
+  "slow",
+];
+
+type MockConfig = {
+  scenario: MockScenario;
+  /**
+   * Tier reported for the mock Google account.
+   */
+  tier: number;
+};
+
+const API_HOST = "api.llm7.io";
+const AUTH_HOST = "llm7-api.chigwel137.workers.dev";
+const MOCK_EMAIL = "dev@example.com";
+const MOCK_API_TOKEN_PREFIX = "mock-api-token-";
+const RATE_LIMIT_MIN_TIER = 2;
+const CHUNK_DELAY_MS = 15;
+
+const MOCK_MODELS = [
+  {
+    id: "gpt-5-nano",
+    name: "GPT-5 nano (mock)",
+    context_length: 400_000,
+    modalities: { input: ["text", "image"] },
+  },
+  {
+    id: "mock-small",
+    name: "Mock small (4k context)",
+    context_length: 4096,
+    supported_parameters: [
+      "temperature",
+      "top_p",
+      "max_tokens",
+      "stop",
+      "seed",
+    ],
+  },
+  { id: "mock-pro", name: "Mock Pro", min_sub: 3, context_length: 128_000 },
+];
+
+/**
+ * Whether the app was built to run against the mock backend
+ * (`NEXT_PUBLIC_LLM7_MOCK` set to `1` or a scenario name).
+ */
+export const isMockBackend = () => Boolean(process.env.NEXT_PUBLIC_LLM7_MOCK);
+
+const config: MockConfig = { scenario: "ok", tier: 2 };
+
+const toScenario = (value: string | null | undefined) =>
+  MOCK_SCENARIOS.find((scenario) => scenario === value);
+
+/**
+ * Switch scenario or tier at runtime, e.g. from the devtools console via
+ * `window.llm7Mock.configure({ scenario: "rate-limit" })`.
+ */
+export const configureMockBackend = (next: Partial<MockConfig>) => {
+  Object.assign(config, next);
+};
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/**
+ * Unsigned JWT standing in for a Google ID token; only the mock verify
+ * route accepts it.
+ */
+export const createMockIdToken = (email = MOCK_EMAIL) =>
+  [
+    base64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+    base64Url(
+      JSON.stringify({
+        email,
+        exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+      }),
+    ),
+    "mock",
+  ].join(".");
+
+const decodeMockIdToken = (token: string): { email?: string } | null => {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)) as { email?: string };
+  } catch {
+    return null;
+  }
+};
+
+const getBearer = (request: Request) =>
+  request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || undefined;
+
+/**
+ * Tier of a chat request, from the mock API token it carries. Undefined for
+ * anonymous requests.
+ */
+const getRequestTier = (request: Request) => {
+  const token = getBearer(request);
+  if (!token?.startsWith(MOCK_API_TOKEN_PREFIX)) return undefined;
+  return Number.parseInt(token.slice(MOCK_API_TOKEN_PREFIX.length), 10);
+};
+
+const json = (data: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(data), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+
+const errorResponse = (
+  status: number,
+  message: string,
+  headers?: HeadersInit,
+) => json({ error: { message, code: status } }, { status, headers });
+
+/**
+ * Error every API route returns for the current scenario, if any.
+ */
+const scenarioError = (request: Request): Response | null => {
+  if (config.scenario === "unauthorized") {
+    return errorResponse(401, "Invalid or expired token (mock).");
+  }
+  if (config.scenario === "rate-limit") {
+    const tier = getRequestTier(request);
+    if (tier === undefined || tier < RATE_LIMIT_MIN_TIER) {
+      return errorResponse(
+        429,
+        `Rate limit reached for ${tier === undefined ? "anonymous" : `tier ${tier}`} requests (mock).`,
+        { "Retry-After": "3" },
+      );
+    }
+  }
+  return null;
+};
+
+type MockChatMessage = {
+  role: string;
+  content?: string | Array<{ type: string; text?: string }> | null;
+};
+
+const messageText = (message: MockChatMessage | undefined) =>
+  typeof message?.content === "string"
+    ? message.content
+    : (message?.content ?? [])
+        .map((part) => (part.type === "text" ? (part.text ?? "") : "[image]"))
+        .join(" ");
+
+/**
+ * Deterministic answer for a prompt: same prompt and model, same text.
+ */
+const scriptAnswer = (model: string, messages: MockChatMessage[]) => {
+  const lastUser = [...messages].reverse().find((msg) => msg.role === "user");
+  const prompt = messageText(lastUser).trim();
+  if (
+    messages.at(-1)?.role === "user" &&
+    /^Continue exactly where/.test(prompt)
+  ) {
+    return " …and this is the rest of the mock answer, continued in the same message.";
+  }
+  const quoted = prompt.length > 200 ? `${prompt.slice(0, 200)}…` : prompt;
+  return [
+    `This is a mock response from **${model}**. You wrote:`,
+    "",
+    `> ${quoted.replace(/\n/g, "\n> ")}`,
+    "",
+    `The conversation has ${messages.length} message${messages.length === 1 ? "" : "s"} so far. Some markdown to render:`,
+    "",
+    "- a bullet point",
+    "- `inline code`",
+    "",
+    "```ts",
+    "const answer = 42;",
+    "```",
+  ].join("\n");
+};
+
+const sseEvent = (data: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ""}data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+
+const chunk = (
+  model: string,
+  delta: Record<string, unknown>,
+  finishReason: string | null = null,
+) => ({
+  id: "chatcmpl-mock",
+  object: "chat.completion.chunk",
+  model,
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+/**
+ * Split text into word-sized deltas, keeping whitespace attached.
+ */
+const toDeltas = (text: string): string[] => text.match(/\s*\S+|\s+$/g) ?? [];
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const chatCompletion = async (request: Request) => {
+  const body = (await request.json()) as {
+    model?: string;
+    messages?: MockChatMessage[];
+    stream?: boolean;
+    reasoning_effort?: string;
+  };
+  const model = body.model ?? "gpt-5-nano";
+  const messages = body.messages ?? [];
+  const promptTokens = estimateTokens(JSON.stringify(messages));
+
+  if (config.scenario === "server-error") {
+    return errorResponse(500, "Internal server error (mock).");
+  }
+  if (!body.stream) {
+    const content = `Mock summary of ${messages.length} messages.`;
+    return json({
+      id: "chatcmpl-mock",
+      object: "chat.completion",
+      model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: estimateTokens(content),
+        total_tokens: promptTokens + estimateTokens(content),
+      },
+    });
+  }
+
+  let answer = toDeltas(scriptAnswer(model, messages));
+  let finishReason = "stop";
+  if (config.scenario === "length") {
+    answer = answer.slice(0, Math.ceil(answer.length / 2));
+    finishReason = "length";
+  }
+  const reasoning = body.reasoning_effort
+    ? toDeltas(
+        `Mock reasoning at ${body.reasoning_effort} effort: read the prompt, then answer.`,
+      )
+    : [];
+  const completionTokens = estimateTokens(answer.join("") + reasoning.join(""));
+
+  const events: string[] = [
+    ...reasoning.map((delta) =>
+      sseEvent(chunk(model, { reasoning_content: delta })),
+    ),
+    ...answer.map((delta) => sseEvent(chunk(model, { content: delta }))),
+  ];
+  if (config.scenario === "malformed-sse") {
+    events.splice(
+      Math.ceil(events.length / 2),
+      Infinity,
+      'data: {"choices": [\n\n',
+    );
+  } else if (config.scenario === "stream-error") {
+    events.splice(
+      Math.ceil(events.length / 2),
+      Infinity,
+      sseEvent(
+        { error: { message: "The upstream model failed mid-stream (mock)." } },
+        "error",
+      ),
+    );
+  } else {
+    events.push(
+      sseEvent(chunk(model, {}, finishReason)),
+      sseEvent({
+        ...chunk(model, {}),
+        choices: [],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+          completion_tokens_details: {
+            reasoning_tokens: estimateTokens(reasoning.join("")),
+          },
+        },
+      }),
+      sseEvent("[DONE]"),
+    );
+  }
+
+  return streamEvents(events, request.signal);
+};
+
+const streamEvents = (events: string[], signal: AbortSignal) => {
+  const encoder = new TextEncoder();
+  const delay =
+    config.scenario === "slow" ? CHUNK_DELAY_MS * 10 : CHUNK_DELAY_MS;
+  let index = 0;
+
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index >= events.length) {
+          controller.close();
+          return;
+        }
+        try {
+          await sleep(delay, signal);
+        } catch (err) {
+          controller.error(err);
+          return;
+        }
+        controller.enqueue(encoder.encode(events[index]));
+        index += 1;
+      },
+    }),
+    { headers: { "Content-Type": "text/event-stream" } },
+  );
+};
+
+/**
+ * Placeholder image: a gradient picked by the seed with the prompt on it.
+ */
+const mockImage = (prompt: string, size: string, seed: number) => {
+  const [width, height] = size
+    .split("x")
+    .map((value) => Number.parseInt(value, 10) || 1024);
+  const hue = Math.abs(seed) % 360;
+  const label = prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt;
+  const escaped = label.replace(
+    /[<>&"]/g,
+    (char) => `&#${char.charCodeAt(0)};`,
+  );
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue} 70% 60%)"/><stop offset="1" stop-color="hsl(${(hue + 120) % 360} 70% 40%)"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/><text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="${Math.round(width / 20)}" text-anchor="middle">${escaped}</text><text x="50%" y="60%" fill="white" opacity="0.7" font-family="monospace" font-size="${Math.round(width / 36)}" text-anchor="middle">seed ${seed}</text></svg>`;
+  const bytes = new TextEncoder().encode(svg);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const imageGeneration = async (request: Request) => {
+  const body = (await request.json()) as {
+    prompt?: string;
+    size?: string;
+    seed?: number;
+  };
+  await sleep(config.scenario === "slow" ? 3000 : 300, request.signal);
+  return json({
+    created: Math.floor(Date.now() / 1000),
+    data: [
+      {
+        b64_json: mockImage(
+          body.prompt ?? "",
+          body.size ?? "1024x1024",
+          body.seed ?? 0,
+        ),
+        mime_type: "image/svg+xml",
+      },
+    ],
+  });
+};
+
+const titleCase = (text: string) =>
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 4)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+type MockRoute = (request: Request, url: URL) => Response | Promise<Response>;
+
+const API_ROUTES: Record<string, MockRoute> = {
+  "GET /v1/models": () => json({ object: "list", data: MOCK_MODELS }),
+  "POST /v1/chat/completions": (request) => chatCompletion(request),
+  "POST /v1/images/generations": (request) => imageGeneration(request),
+  "GET /get-chat-name": (_, url) =>
+    json({ chat_name: titleCase(url.searchParams.get("user_input") ?? "") }),
+  "GET /is-image-gen-request": (_, url) =>
+    json({
+      is_image_gen_request: /\b(?:draw|image|picture|photo)\b/i.test(
+        url.searchParams.get("user_input") ?? "",
+      ),
+    }),
+};
+
+const AUTH_ROUTES: Record<string, MockRoute> = {
+  "GET /verify": (request) => {
+    const claims = decodeMockIdToken(getBearer(request) ?? "");
+    if (!claims?.email) return errorResponse(401, "Invalid ID token (mock).");
+    return json({ email: claims.email, sub: config.tier });
+  },
+  "GET /tokens/most-capable": (request) => {
+    if (!decodeMockIdToken(getBearer(request) ?? "")?.email) {
+      return errorResponse(401, "Invalid ID token (mock).");
+    }
+    return json({
+      token: `${MOCK_API_TOKEN_PREFIX}${config.tier}`,
+      sub: config.tier,
+      expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+  },
+};
+
+/**
+ * Answer a request from the mock routes, or return null to let it through
+ * (e.g. custom providers on localhost).
+ */
+const handleMockRequest = async (
+  request: Request,
+): Promise<Response | null> => {
+  const url = new URL(request.url);
+  const key = `${request.method} ${url.pathname.replace(/\/$/, "")}`;
+
+  if (url.hostname === AUTH_HOST) {
+    return (
+      AUTH_ROUTES[key]?.(request, url) ??
+      errorResponse(404, `No mock for ${key}.`)
+    );
+  }
+  if (url.hostname !== API_HOST) return null;
+
+  const route = API_ROUTES[key];
+  if (!route) return errorResponse(404, `No mock for ${key}.`);
+  return scenarioError(request) ?? route(request, url);
+};
+
+let installed = false;
+
+/**
+ * Route the app's calls to LLM7 services through the in-browser mock
+ * backend. The scenario and tier start from `NEXT_PUBLIC_LLM7_MOCK` and the
+ * `mock-scenario`/`mock-tier` query parameters.
+ */
+export const installMockBackend = () => {
+  if (installed || typeof window === "undefined") return;
+  installed = true;
+
+  const params = new URLSearchParams(window.location.search);
+  const tier = Number.parseInt(params.get("mock-tier") ?? "", 10);
+  configureMockBackend({
+    scenario:
+      toScenario(params.get("mock-scenario")) ??
+      toScenario(process.env.NEXT_PUBLIC_LLM7_MOCK) ??
+      "ok",
+    ...(Number.isFinite(tier) ? { tier } : {}),
+  });
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    // Building the request consumes a streamed body, and the mock may read
+    // it; unmocked requests go out as this copy.
+    const passthrough = request.clone();
+    return (await handleMockRequest(request)) ?? originalFetch(passthrough);
+  };
+  (window as unknown as { llm7Mock: unknown }).llm7Mock = {
+    configure: configureMockBackend,
+    config,
+    scenarios: MOCK_SCENARIOS,
+  };
+};
@@ -0,0 +1,69 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import { DEFAULT_MODEL } from "@/lib/models";
+import { getThreadProvider, useThreadProvider } from "@/lib/provider-store";
+import { isLLM7Provider, type ProviderProfile } from "@/lib/providers";
+
+type ModelSelectionState = {
+  /**
+   * Last LLM7 model picked anywhere; used for LLM7 threads without their own
+   * choice. Other providers fall back to their profile's default model.
+   */
+  defaultModel: string;
+  threadModels: Record<string, string>;
+  selectModel: (threadId: string | undefined, model: string) => void;
+  /**
+   * Forget a thread's model, e.g. after switching its provider.
+   */
+  clearThreadModel: (threadId: string | undefined) => void;
+};
+
+export const useModelStore = create<ModelSelectionState>()(
+  persist(
+    (set) => ({
+      defaultModel: DEFAULT_MODEL,
+      threadModels: {},
+      selectModel: (threadId, model) =>
+        set((state) => ({
+          defaultModel: isLLM7Provider(getThreadProvider(threadId))
+            ? model
+            : state.defaultModel,
+          threadModels: threadId
+            ? { ...state.threadModels, [threadId]: model }
+            : state.threadModels,
+        })),
+      clearThreadModel: (threadId) =>
+        set((state) => {
+          if (!threadId || !(threadId in state.threadModels)) return state;
+          const threadModels = { ...state.threadModels };
+          delete threadModels[threadId];
+          return { threadModels };
+        }),
+    }),
+    { name: "llm7_model_selection" },
+  ),
+);
+
+const fallbackModel = (provider: ProviderProfile, defaultModel: string) =>
+  isLLM7Provider(provider) ? defaultModel : provider.defaultModel;
+
+/**
+ * Model for a thread: its own selection, else the default for its provider.
+ */
+export const getThreadModel = (threadId: string | undefined) => {
+  const { threadModels, defaultModel } = useModelStore.getState();
+  return (
+    (threadId && threadModels[threadId]) ||
+    fallbackModel(getThreadProvider(threadId), defaultModel)
+  );
+};
+
+export const useThreadModel = (threadId: string | undefined) => {
+  const provider = useThreadProvider(threadId);
+  return useModelStore(
+    (state) =>
+      (threadId && state.threadModels[threadId]) ||
+      fallbackModel(provider, state.defaultModel),
+  );
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { getModelRestriction, parseModelList } from "@/lib/models";
+
+describe("parseModelList", () => {
+  it("reads the OpenAI envelope and a bare array", () => {
+    const models = [{ id: "gpt-4o" }, { id: "gpt-5-nano" }];
+
+    expect(parseModelList({ object: "list", data: models })).toEqual(
+      parseModelList(models),
+    );
+    expect(parseModelList(models).map(({ id }) => id)).toEqual([
+      "gpt-4o",
+      "gpt-5-nano",
+    ]);
+  });
+
+  it.each([null, undefined, "models", 42, {}, { data: "nope" }])(
+    "gives no models for %j",
+    (payload) => {
+      expect(parseModelList(payload)).toEqual([]);
+    },
+  );
+
+  it("skips entries without a string id", () => {
+    expect(
+      parseModelList([null, "gpt-4o", { id: "" }, { id: 7 }, { id: "ok" }]),
+    ).toEqual([
+      {
+        id: "ok",
+        label: "ok",
+        description: undefined,
+        minTier: undefined,
+        vision: false,
+        contextWindow: undefined,
+        supportedParameters: undefined,
+      },
+    ]);
+  });
+
+  it("prefers the display name, then the name, then the id for labels", () => {
+    expect(
+      parseModelList([
+        { id: "a", name: "Name A", display_name: "Display A" },
+        { id: "b", name: "Name B" },
+        { id: "c", name: 3 },
+      ]).map(({ label }) => label),
+    ).toEqual(["Display A", "Name B", "c"]);
+  });
+
+  it("reads the tier from min_sub, sub or tier", () => {
+    expect(
+      parseModelList([
+        { id: "a", min_sub: 2, sub: 3 },
+        { id: "b", sub: "3" },
+        { id: "c", tier: 1 },
+        { id: "d", tier: "pro" },
+      ]).map(({ minTier }) => minTier),
+    ).toEqual([2, 3, 1, undefined]);
+  });
+
+  it("detects image input in either modalities shape", () => {
+    expect(
+      parseModelList([
+        { id: "a", modalities: ["text", "image"] },
+        { id: "b", modalities: { input: ["text", "image"] } },
+        { id: "c", modalities: { input: ["text"], output: ["image"] } },
+        { id: "d" },
+      ]).map(({ vision }) => vision),
+    ).toEqual([true, true, false, false]);
+  });
+
+  it("reads the context window from any of the reported fields", () => {
+    expect(
+      parseModelList([
+        { id: "a", context_length: 128000 },
+        { id: "b", context_window: "32768" },
+        { id: "c", max_model_len: 8192 },
+        { id: "d", context_length: "unknown" },
+      ]).map(({ contextWindow }) => contextWindow),
+    ).toEqual([128000, 32768, 8192, undefined]);
+  });
+
+  it("keeps the string supported parameters", () => {
+    expect(
+      parseModelList([
+        { id: "a", supported_parameters: ["tools", 1, "temperature"] },
+        { id: "b", supported_parameters: "tools" },
+      ]).map(({ supportedParameters }) => supportedParameters),
+    ).toEqual([["tools", "temperature"], undefined]);
+  });
+
+  it("keeps a string description", () => {
+    expect(
+      parseModelList([
+        { id: "a", description: "Fast" },
+        { id: "b", description: { text: "Fast" } },
+      ]).map(({ description }) => description),
+    ).toEqual(["Fast", undefined]);
+  });
+});
+
+describe("getModelRestriction", () => {
+  const model = { id: "pro", label: "Pro", vision: false, minTier: 3 };
+
+  it("allows models without a tier to everyone", () => {
+    expect(
+      getModelRestriction({ ...model, minTier: undefined }, undefined),
+    ).toBeNull();
+    expect(getModelRestriction({ ...model, minTier: 0 }, undefined)).toBeNull();
+  });
+
+  it("explains what plan a model needs", () => {
+    expect(getModelRestriction(model, undefined)).toBe(
+      "Sign in with a Pro plan to use this model.",
+    );
+    expect(getModelRestriction(model, 2)).toBe("Requires the Pro plan.");
+    expect(getModelRestriction({ ...model, minTier: 5 }, 2)).toBe(
+      "Requires the tier 5 plan.",
+    );
+    expect(getModelRestriction(model, 3)).toBeNull();
+  });
+});
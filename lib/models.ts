@@ -0,0 +1,145 @@
+export const DEFAULT_MODEL = "gpt-5-nano";
+
+/**
+ * Display names for the `sub` tier returned by `/verify`.
+ */
+export const TIER_NAMES: Record<number, string> = {
+  0: "Free",
+  1: "Free",
+  2: "Vibe",
+  3: "Pro",
+};
+
+export type ModelInfo = {
+  id: string;
+  label: string;
+  description?: string;
+  /**
+   * Lowest `sub` tier allowed to use the model. Undefined means everyone.
+   */
+  minTier?: number;
+  /**
+   * Whether the model accepts image input.
+   */
+  vision: boolean;
+  /**
+   * Context window in tokens, when the server reports it.
+   */
+  contextWindow?: number;
+  /**
+   * Request parameters the model accepts (OpenRouter's
+   * `supported_parameters`), when the server reports them.
+   */
+  supportedParameters?: string[];
+};
+
+type RawModel = {
+  id?: unknown;
+  name?: unknown;
+  display_name?: unknown;
+  description?: unknown;
+  min_sub?: unknown;
+  sub?: unknown;
+  tier?: unknown;
+  modalities?: { input?: unknown } | unknown[];
+  context_length?: unknown;
+  context_window?: unknown;
+  max_model_len?: unknown;
+  supported_parameters?: unknown;
+};
+
+const toNumber = (value: unknown) => {
+  const num =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Number.parseInt(value, 10)
+        : undefined;
+  return Number.isFinite(num) ? (num as number) : undefined;
+};
+
+/**
+ * Normalize a `/models` response. Accepts both the OpenAI `{ data: [...] }`
+ * envelope and a bare array, and tolerates missing optional fields.
+ */
+export const parseModelList = (payload: unknown): ModelInfo[] => {
+  const list = Array.isArray(payload)
+    ? payload
+    : Array.isArray((payload as { data?: unknown })?.data)
+      ? (payload as { data: unknown[] }).data
+      : [];
+
+  return list
+    .filter((raw): raw is RawModel => Boolean(raw) && typeof raw === "object")
+    .filter((raw) => typeof raw.id === "string" && raw.id.length > 0)
+    .map((raw) => {
+      const inputs = Array.isArray(raw.modalities)
+        ? raw.modalities
+        : (raw.modalities as { input?: unknown } | undefined)?.input;
+      return {
+        id: raw.id as string,
+        label:
+          typeof raw.display_name === "string"
+            ? raw.display_name
+            : typeof raw.name === "string"
+              ? raw.name
+              : (raw.id as string),
+        description:
+          typeof raw.description === "string" ? raw.description : undefined,
+        minTier: toNumber(raw.min_sub ?? raw.sub ?? raw.tier),
+        vision: Array.isArray(inputs) && inputs.includes("image"),
+        contextWindow: toNumber(
+          raw.context_length ?? raw.context_window ?? raw.max_model_len,
+        ),
+        supportedParameters: Array.isArray(raw.supported_parameters)
+          ? raw.supported_parameters.filter(
+              (param): param is string => typeof param === "string",
+            )
+          : undefined,
+      };
+    });
+};
+
+// Models seen in `/models` responses, for lookups by id outside the picker.
+const rememberedModels = new Map<string, ModelInfo>();
+
+/**
+ * Remember what a `/models` response reported (context windows, supported
+ * parameters) so requests can be shaped for the model.
+ */
+export const rememberModels = (models: ModelInfo[]) => {
+  for (const model of models) rememberedModels.set(model.id, model);
+};
+
+export const getRememberedModel = (id: string) => rememberedModels.get(id);
+
+export const fetchModels = async (
+  baseUrl: string,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+): Promise<ModelInfo[]> => {
+  const res = await fetch(`${baseUrl.replace(/\/$/, "")}/models`, {
+    headers,
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to load models (${res.status})`);
+  }
+  return parseModelList(await res.json());
+};
+
+/**
+ * Explain why a model is unavailable for the given tier, or return null when
+ * it can be used. Anonymous users have no tier.
+ */
+export const getModelRestriction = (
+  model: ModelInfo,
+  sub: number | undefined,
+): string | null => {
+  if (model.minTier === undefined || model.minTier <= 0) return null;
+  const required = TIER_NAMES[model.minTier] ?? `tier ${model.minTier}`;
+  if (sub === undefined)
+    return `Sign in with a ${required} plan to use this model.`;
+  if (sub < model.minTier) return `Requires the ${required} plan.`;
+  return null;
+};
@@ -0,0 +1,65 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import {
+  DEFAULT_GENERATION_PARAMS,
+  type GenerationParams,
+} from "@/lib/generation-params";
+
+type ParamsState = {
+  /**
+   * Parameters for every thread without its own value.
+   */
+  defaults: GenerationParams;
+  /**
+   * Per-thread overrides; unset fields fall back to the defaults.
+   */
+  threadParams: Record<string, GenerationParams>;
+  setDefaults: (params: GenerationParams) => void;
+  setThreadParams: (threadId: string, params: GenerationParams) => void;
+};
+
+const isEmpty = (params: GenerationParams) =>
+  Object.values(params).every((value) => value === undefined);
+
+export const useParamsStore = create<ParamsState>()(
+  persist(
+    (set) => ({
+      defaults: DEFAULT_GENERATION_PARAMS,
+      threadParams: {},
+      setDefaults: (defaults) => set({ defaults }),
+      setThreadParams: (threadId, params) =>
+        set((state) => {
+          const threadParams = { ...state.threadParams };
+          if (isEmpty(params)) delete threadParams[threadId];
+          else threadParams[threadId] = params;
+          return { threadParams };
+        }),
+    }),
+    { name: "llm7_generation_params" },
+  ),
+);
+
+const resolveThreadParams = (
+  state: ParamsState,
+  threadId: string | undefined,
+): GenerationParams => {
+  const overrides = (threadId && state.threadParams[threadId]) || {};
+  return {
+    ...state.defaults,
+    ...Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined),
+    ),
+  };
+};
+
+/**
+ * Parameters for a thread: its overrides on top of the defaults.
+ */
+export const getThreadParams = (threadId: string | undefined) =>
+  resolveThreadParams(useParamsStore.getState(), threadId);
+
+export const useThreadParamOverrides = (threadId: string | undefined) =>
+  useParamsStore((state) =>
+    threadId ? state.threadParams[threadId] : undefined,
+  );
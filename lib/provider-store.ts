@@ -0,0 +1,89 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import {
+  LLM7_PROVIDER,
+  LLM7_PROVIDER_ID,
+  type ProviderProfile,
+} from "@/lib/providers";
+
+type ProviderState = {
+  /**
+   * User-defined profiles; the LLM7 profile is built in and not stored.
+   */
+  profiles: ProviderProfile[];
+  /**
+   * Provider last picked anywhere; used for threads without their own choice.
+   */
+  defaultProviderId: string;
+  threadProviders: Record<string, string>;
+  saveProfile: (profile: ProviderProfile) => void;
+  removeProfile: (id: string) => void;
+  selectProvider: (threadId: string | undefined, id: string) => void;
+};
+
+export const useProviderStore = create<ProviderState>()(
+  persist(
+    (set) => ({
+      profiles: [],
+      defaultProviderId: LLM7_PROVIDER_ID,
+      threadProviders: {},
+      saveProfile: (profile) =>
+        set((state) => ({
+          profiles: state.profiles.some((p) => p.id === profile.id)
+            ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+            : [...state.profiles, profile],
+        })),
+      removeProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          defaultProviderId:
+            state.defaultProviderId === id
+              ? LLM7_PROVIDER_ID
+              : state.defaultProviderId,
+          threadProviders: Object.fromEntries(
+            Object.entries(state.threadProviders).filter(
+              ([, value]) => value !== id,
+            ),
+          ),
+        })),
+      selectProvider: (threadId, id) =>
+        set((state) => ({
+          defaultProviderId: id,
+          threadProviders: threadId
+            ? { ...state.threadProviders, [threadId]: id }
+            : state.threadProviders,
+        })),
+    }),
+    { name: "llm7_provider_profiles" },
+  ),
+);
+
+const findProfile = (profiles: ProviderProfile[], id: string | undefined) =>
+  profiles.find((p) => p.id === id) ?? LLM7_PROVIDER;
+
+const resolveThreadProvider = (
+  state: ProviderState,
+  threadId: string | undefined,
+) =>
+  findProfile(
+    state.profiles,
+    (threadId && state.threadProviders[threadId]) || state.defaultProviderId,
+  );
+
+/**
+ * Provider for a thread: its own selection, else the global default.
+ */
+export const getThreadProvider = (threadId: string | undefined) =>
+  resolveThreadProvider(useProviderStore.getState(), threadId);
+
+export const useThreadProvider = (threadId: string | undefined) =>
+  useProviderStore((state) => resolveThreadProvider(state, threadId));
+
+/**
+ * All selectable profiles, LLM7 first.
+ */
+export const useProviderProfiles = () => {
+  const profiles = useProviderStore((state) => state.profiles);
+  return [LLM7_PROVIDER, ...profiles];
+};
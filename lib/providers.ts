@@ -0,0 +1,86 @@
+import { API_TOKEN_KEY, getStoredToken } from "@/lib/auth";
+import { DEFAULT_BASE_URL } from "@/lib/browser-chat-transport";
+import { DEFAULT_MODEL } from "@/lib/models";
+
+/**
+ * A named OpenAI-compatible endpoint chats can be sent to.
+ */
+export type ProviderProfile = {
+  id: string;
+  name: string;
+  /**
+   * Base URL including the version segment, e.g. `http://localhost:8080/v1`.
+   */
+  baseUrl: string;
+  /**
+   * Header carrying the API key. `Authorization` values get a `Bearer`
+   * prefix; any other header receives the key as-is.
+   */
+  authHeader: string;
+  apiKey?: string;
+  defaultModel: string;
+  /**
+   * Send the browser tools with every request, for servers whose `/models`
+   * doesn't report tool support.
+   */
+  tools?: boolean;
+};
+
+export const LLM7_PROVIDER_ID = "llm7";
+
+/**
+ * The built-in LLM7 profile. Its key comes from Google sign-in rather than
+ * the profile, and it is the only one with tiers, image generation and
+ * automatic chat naming.
+ */
+export const LLM7_PROVIDER: ProviderProfile = {
+  id: LLM7_PROVIDER_ID,
+  name: "LLM7",
+  baseUrl: DEFAULT_BASE_URL,
+  authHeader: "Authorization",
+  defaultModel: DEFAULT_MODEL,
+  tools: true,
+};
+
+export const isLLM7Provider = (profile: ProviderProfile) =>
+  profile.id === LLM7_PROVIDER_ID;
+
+/**
+ * Auth headers for requests to a provider.
+ */
+export const getProviderHeaders = (
+  profile: ProviderProfile,
+): Record<string, string> => {
+  const key = isLLM7Provider(profile)
+    ? getStoredToken(API_TOKEN_KEY)
+    : profile.apiKey?.trim();
+  if (!key) return {};
+  const header = profile.authHeader.trim() || "Authorization";
+  return {
+    [header]: header.toLowerCase() === "authorization" ? `Bearer ${key}` : key,
+  };
+};
+
+/**
+ * Check a profile before saving it; returns a message per invalid field.
+ */
+export const validateProviderProfile = (
+  profile: Omit<ProviderProfile, "id">,
+): Partial<Record<keyof ProviderProfile, string>> => {
+  const errors: Partial<Record<keyof ProviderProfile, string>> = {};
+  if (!profile.name.trim()) errors.name = "Name is required.";
+  try {
+    const url = new URL(profile.baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      errors.baseUrl = "Use an http(s) URL.";
+    }
+  } catch {
+    errors.baseUrl = "Enter a valid URL, e.g. http://localhost:8080/v1.";
+  }
+  if (!/^[A-Za-z0-9-]+$/.test(profile.authHeader.trim() || "Authorization")) {
+    errors.authHeader = "Not a valid header name.";
+  }
+  if (!profile.defaultModel.trim())
+    errors.defaultModel = "Default model is required.";
+  return errors;
+};
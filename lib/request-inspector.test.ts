@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  recordMessage,
+  redactHeaders,
+  toCurl,
+  useInspectorStore,
+} from "@/lib/request-inspector";
+
+describe("redactHeaders", () => {
+  it("redacts the usual auth headers, keeping the scheme", () => {
+    expect(
+      redactHeaders({
+        Authorization: "Bearer sk-123",
+        "x-api-key": "sk-456",
+        "Content-Type": "application/json",
+      }),
+    ).toEqual({
+      Authorization: "Bearer <redacted>",
+      "x-api-key": "<redacted>",
+      "Content-Type": "application/json",
+    });
+  });
+
+  it("redacts the given secret headers whatever their case", () => {
+    expect(
+      redactHeaders({ "X-Auth-Token": "tok-789", Accept: "*/*" }, [
+        "x-auth-token",
+      ]),
+    ).toEqual({ "X-Auth-Token": "<redacted>", Accept: "*/*" });
+  });
+});
+
+describe("recordMessage", () => {
+  it("keeps a provider's custom auth header out of the recording and curl", () => {
+    useInspectorStore.setState({ enabled: true, messages: {} });
+    const recorder = recordMessage("chat", "message", ["X-Auth-Token"]);
+    recorder!.exchange("https://example.com/v1/chat/completions", {
+      method: "POST",
+      headers: { "X-Auth-Token": "tok-789" },
+      body: "{}",
+    });
+
+    const [exchange] = useInspectorStore.getState().messages.message!.exchanges;
+    expect(exchange!.headers).toEqual({ "X-Auth-Token": "<redacted>" });
+    expect(toCurl(exchange!)).not.toContain("tok-789");
+  });
+});
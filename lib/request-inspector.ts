@@ -0,0 +1,237 @@
+import type { UIMessageChunk } from "ai";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import type { SseEvent } from "@/lib/sse";
+
+const MAX_MESSAGES = 50;
+const SECRET_HEADER =
+  /^(?:authorization|proxy-authorization|x-api-key|api-key|cookie)$/i;
+
+/**
+ * One HTTP round trip made for an assistant message.
+ */
+export type InspectedExchange = {
+  url: string;
+  method: string;
+  /** Request headers with secrets redacted. */
+  headers: Record<string, string>;
+  /** Parsed JSON request body, exactly as sent. */
+  body: unknown;
+  sentAt: number;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  /** When the response headers arrived. */
+  respondedAt?: number;
+  /** Raw SSE events, in order. */
+  events: { at: number; event?: string; data: string }[];
+  /** Body of a non-OK response. */
+  errorBody?: string;
+  /** Network error, if the request never got a response. */
+  error?: string;
+  endedAt?: number;
+};
+
+/**
+ * Everything recorded for one assistant message: each request (more than
+ * one for tool calls and continuations) and the chunks sent to the UI.
+ */
+export type InspectedMessage = {
+  chatId: string;
+  messageId: string;
+  startedAt: number;
+  exchanges: InspectedExchange[];
+  chunks: { at: number; chunk: UIMessageChunk }[];
+  finishedAt?: number;
+};
+
+type InspectorState = {
+  enabled: boolean;
+  /** Recordings by message id; kept in memory only. */
+  messages: Record<string, InspectedMessage>;
+  setEnabled: (enabled: boolean) => void;
+  clear: () => void;
+};
+
+export const useInspectorStore = create<InspectorState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      messages: {},
+      setEnabled: (enabled) =>
+        set(enabled ? { enabled } : { enabled, messages: {} }),
+      clear: () => set({ messages: {} }),
+    }),
+    {
+      name: "llm7_inspector",
+      partialize: ({ enabled }) => ({ enabled }),
+    },
+  ),
+);
+
+export const useInspectorEnabled = () =>
+  useInspectorStore((state) => state.enabled);
+
+export const useInspectedMessage = (messageId: string | undefined) =>
+  useInspectorStore((state) =>
+    messageId ? state.messages[messageId] : undefined,
+  );
+
+// Recordings are mutated in place while streaming; publishing a shallow copy
+// lets subscribers see the change.
+const publish = (message: InspectedMessage) =>
+  useInspectorStore.setState((state) => {
+    const messages = { ...state.messages, [message.messageId]: { ...message } };
+    const ids = Object.keys(messages);
+    for (const id of ids.slice(0, Math.max(0, ids.length - MAX_MESSAGES))) {
+      delete messages[id];
+    }
+    return { messages };
+  });
+
+/**
+ * Replace credentials with a placeholder, keeping the auth scheme.
+ * `secretHeaders` names further headers to redact, such as a provider's
+ * custom auth header; case is ignored.
+ */
+export const redactHeaders = (
+  headers: Record<string, string>,
+  secretHeaders: readonly string[] = [],
+) => {
+  const secrets = new Set(secretHeaders.map((name) => name.toLowerCase()));
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SECRET_HEADER.test(name) || secrets.has(name.toLowerCase())
+        ? value.replace(
+            /^(\w+\s+)?.*$/,
+            (_, scheme = "") => `${scheme}<redacted>`,
+          )
+        : value,
+    ]),
+  );
+};
+
+export type ExchangeRecorder = {
+  response: (response: Response) => void;
+  event: (event: SseEvent) => void;
+  fail: (error: string, body?: string) => void;
+  end: () => void;
+};
+
+export type MessageRecorder = {
+  exchange: (
+    url: string,
+    init: RequestInit & { headers: Record<string, string> },
+  ) => ExchangeRecorder;
+  tap: (
+    stream: ReadableStream<UIMessageChunk>,
+  ) => ReadableStream<UIMessageChunk>;
+};
+
+/**
+ * Start recording requests for an assistant message, or `undefined` while
+ * the inspector is off. Continuing a message appends to its recording.
+ * `secretHeaders` are redacted along with the usual auth headers.
+ */
+export const recordMessage = (
+  chatId: string,
+  messageId: string,
+  secretHeaders: readonly string[] = [],
+): MessageRecorder | undefined => {
+  const state = useInspectorStore.getState();
+  if (!state.enabled) return undefined;
+
+  const existing = state.messages[messageId];
+  const message: InspectedMessage = existing
+    ? {
+        ...existing,
+        exchanges: [...existing.exchanges],
+        chunks: [...existing.chunks],
+      }
+    : { chatId, messageId, startedAt: Date.now(), exchanges: [], chunks: [] };
+  message.finishedAt = undefined;
+  publish(message);
+
+  return {
+    exchange: (url, init) => {
+      const exchange: InspectedExchange = {
+        url,
+        method: init.method ?? "GET",
+        headers: redactHeaders(init.headers, secretHeaders),
+        body: typeof init.body === "string" ? parseBody(init.body) : undefined,
+        sentAt: Date.now(),
+        events: [],
+      };
+      message.exchanges.push(exchange);
+      publish(message);
+
+      return {
+        response: (response) => {
+          exchange.status = response.status;
+          exchange.statusText = response.statusText;
+          exchange.responseHeaders = Object.fromEntries(
+            response.headers.entries(),
+          );
+          exchange.respondedAt = Date.now();
+          publish(message);
+        },
+        event: ({ event, data }) => {
+          exchange.events.push({ at: Date.now(), event, data });
+          publish(message);
+        },
+        fail: (error, body) => {
+          exchange.error = error;
+          exchange.errorBody = body;
+          exchange.endedAt = Date.now();
+          publish(message);
+        },
+        end: () => {
+          exchange.endedAt ??= Date.now();
+          publish(message);
+        },
+      };
+    },
+    tap: (stream) =>
+      stream.pipeThrough(
+        new TransformStream<UIMessageChunk, UIMessageChunk>({
+          transform(chunk, controller) {
+            message.chunks.push({ at: Date.now(), chunk });
+            publish(message);
+            controller.enqueue(chunk);
+          },
+          flush() {
+            message.finishedAt = Date.now();
+            publish(message);
+          },
+        }),
+      ),
+  };
+};
+
+const parseBody = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * The exchange as a curl command. Redacted headers stay redacted; fill in
+ * your own key before running it.
+ */
+export const toCurl = (exchange: InspectedExchange) =>
+  [
+    `curl ${shellQuote(exchange.url)}`,
+    ...(exchange.method !== "GET" ? [`-X ${exchange.method}`] : []),
+    ...Object.entries(exchange.headers).map(
+      ([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`,
+    ),
+    ...(exchange.body !== undefined
+      ? [`--data-raw ${shellQuote(JSON.stringify(exchange.body, null, 2))}`]
+      : []),
+  ].join(" \\\n  ");
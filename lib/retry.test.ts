@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  parseRetryAfter,
+  sleep,
+} from "@/lib/retry";
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("parseRetryAfter", () => {
+  it("prefers retry-after-ms", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after-ms": "1500", "retry-after": "10" }),
+      ),
+    ).toBe(1500);
+  });
+
+  it("reads retry-after as seconds or an HTTP date", () => {
+    vi.useFakeTimers({ now: NOW });
+
+    expect(parseRetryAfter(new Headers({ "retry-after": "2.5" }))).toBe(2500);
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after": new Date(NOW + 7000).toUTCString() }),
+      ),
+    ).toBe(7000);
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after": new Date(NOW - 7000).toUTCString() }),
+      ),
+    ).toBe(0);
+  });
+
+  it("takes the longest of the rate-limit reset headers", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({
+          "x-ratelimit-reset-requests": "1s",
+          "x-ratelimit-reset-tokens": "6m0.5s",
+        }),
+      ),
+    ).toBe(360_500);
+    expect(parseRetryAfter(new Headers({ "x-ratelimit-reset": "250ms" }))).toBe(
+      250,
+    );
+    expect(parseRetryAfter(new Headers({ "ratelimit-reset": "1h2m" }))).toBe(
+      3_720_000,
+    );
+  });
+
+  it("reads reset headers as seconds or an epoch timestamp", () => {
+    vi.useFakeTimers({ now: NOW });
+
+    expect(parseRetryAfter(new Headers({ "ratelimit-reset": "30" }))).toBe(
+      30_000,
+    );
+    expect(
+      parseRetryAfter(
+        new Headers({ "x-ratelimit-reset": String(NOW / 1000 + 12) }),
+      ),
+    ).toBe(12_000);
+  });
+
+  it("is undefined without a usable hint", () => {
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after": "soon", "x-ratelimit-reset": "later" }),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  it("doubles per attempt up to the cap, with up to 50% jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(
+      [1, 2, 3, 6, 10].map((attempt) =>
+        getBackoffDelay(attempt, DEFAULT_RETRY_POLICY),
+      ),
+    ).toEqual([1000, 2000, 4000, 30_000, 30_000]);
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getBackoffDelay(2, DEFAULT_RETRY_POLICY)).toBe(1000);
+  });
+});
+
+describe("sleep", () => {
+  it("resolves after the delay", async () => {
+    vi.useFakeTimers();
+    const done = vi.fn();
+    const slept = sleep(1000).then(done);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await slept;
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const slept = sleep(60_000, controller.signal);
+    controller.abort(new Error("stopped"));
+
+    await expect(slept).rejects.toThrow("stopped");
+    await expect(sleep(1, controller.signal)).rejects.toThrow("stopped");
+  });
+});
@@ -0,0 +1,121 @@
+export type RetryPolicy = {
+  /**
+   * Total attempts including the first request. 1 disables retries.
+   */
+  maxAttempts: number;
+  /**
+   * Backoff before the second attempt; doubled for each further attempt.
+   */
+  initialDelayMs: number;
+  /**
+   * Longest wait we are willing to do. A server asking for more (via
+   * Retry-After or rate-limit headers) is not retried.
+   */
+  maxDelayMs: number;
+  /**
+   * HTTP statuses worth retrying. Network errors are always retryable.
+   */
+  retryableStatuses: number[];
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Parse durations like `1s`, `250ms`, `6m0s` or `1h2m3.5s` as used by
+ * OpenAI-style `x-ratelimit-reset-*` headers.
+ */
+const parseDuration = (value: string): number | undefined => {
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(re)) {
+    matched = true;
+    const n = Number.parseFloat(amount);
+    total +=
+      unit === "h"
+        ? n * 3_600_000
+        : unit === "m"
+          ? n * 60_000
+          : unit === "s"
+            ? n * 1000
+            : n;
+  }
+  return matched ? total : undefined;
+};
+
+/**
+ * Parse a reset value that is either seconds to wait or a Unix timestamp.
+ */
+const parseResetSeconds = (value: string): number | undefined => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) return parseDuration(value);
+  // Anything past ~2001 in seconds is an absolute epoch timestamp.
+  if (n > 1_000_000_000) return Math.max(0, n * 1000 - Date.now());
+  return n * 1000;
+};
+
+/**
+ * How long the server asked us to wait, in ms, from `Retry-After` or common
+ * rate-limit reset headers. Undefined when the response gives no hint.
+ */
+export const parseRetryAfter = (headers: Headers): number | undefined => {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const resets = [
+    headers.get("x-ratelimit-reset-requests"),
+    headers.get("x-ratelimit-reset-tokens"),
+    headers.get("x-ratelimit-reset"),
+    headers.get("ratelimit-reset"),
+  ]
+    .filter((value): value is string => Boolean(value))
+    .map(parseResetSeconds)
+    .filter((ms): ms is number => ms !== undefined);
+
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+};
+
+/**
+ * Exponential backoff with jitter for the given (1-based) failed attempt.
+ * Returns a value in [50%, 100%] of the capped exponential delay.
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy) => {
+  const exponential = policy.initialDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (0.5 + Math.random() * 0.5));
+};
+
+/**
+ * Resolve after `ms`, rejecting early with the signal's reason on abort.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
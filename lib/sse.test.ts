@@ -0,0 +1,182 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeSseStream,
+  getSseErrorMessage,
+  SseDecoder,
+  type SseEvent,
+} from "@/lib/sse";
+
+// Streams recorded from the API, stored with `\n` line endings.
+const fixture = (name: string) =>
+  readFileSync(
+    new URL(`./__fixtures__/sse/${name}.sse`, import.meta.url),
+    "utf8",
+  );
+
+const decodeChunks = (chunks: string[]) => {
+  const decoder = new SseDecoder();
+  return chunks.flatMap((chunk) => decoder.push(chunk));
+};
+
+const splitEvery = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, index) =>
+    text.slice(index * size, (index + 1) * size),
+  );
+
+const streamOf = (chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+
+const readAll = async (stream: ReadableStream<SseEvent>) => {
+  const events: SseEvent[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return events;
+    events.push(value);
+  }
+};
+
+const deltas = (events: SseEvent[]) =>
+  events
+    .filter(({ data }) => data !== "[DONE]")
+    .map(
+      ({ data }) =>
+        (JSON.parse(data) as { choices: { delta: Record<string, string> }[] })
+          .choices[0]?.delta,
+    );
+
+describe("SseDecoder", () => {
+  it("decodes a chunked LLM7 stream and skips comments", () => {
+    const events = decodeChunks([fixture("llm7-chunked")]);
+
+    expect(events.map(({ event }) => event)).toEqual(Array(5).fill("message"));
+    expect(events.at(-1)?.data).toBe("[DONE]");
+    expect(deltas(events).map((delta) => delta?.content)).toEqual([
+      "",
+      "Hello",
+      " there!",
+      undefined,
+    ]);
+  });
+
+  it.each([1, 2, 7, 64])(
+    "gives the same events for %i-character chunks",
+    (size) => {
+      const text = fixture("llm7-chunked");
+      expect(decodeChunks(splitEvery(text, size))).toEqual(
+        decodeChunks([text]),
+      );
+    },
+  );
+
+  it.each([
+    ["CRLF", "\r\n"],
+    ["CR", "\r"],
+  ])("accepts %s line endings", (_, lineEnding) => {
+    const text = fixture("llm7-chunked");
+    const converted = text.replace(/\n/g, lineEnding);
+
+    expect(decodeChunks([converted])).toEqual(decodeChunks([text]));
+    expect(decodeChunks(splitEvery(converted, 1))).toEqual(
+      decodeChunks([text]),
+    );
+  });
+
+  it("does not read a CRLF split across chunks as two line breaks", () => {
+    expect(decodeChunks(["data: a\r", "\ndata: b\r", "\n\r", "\n"])).toEqual([
+      { event: "message", data: "a\nb" },
+    ]);
+  });
+
+  it("keeps the usage chunk", () => {
+    const [, usage] = decodeChunks([fixture("usage-chunk")]);
+
+    expect(JSON.parse(usage!.data)).toMatchObject({
+      choices: [],
+      usage: { prompt_tokens: 21, completion_tokens: 1, total_tokens: 22 },
+    });
+  });
+
+  it("keeps reasoning deltas, the last event id and retry", () => {
+    const events = decodeChunks([fixture("reasoning")]);
+
+    expect(deltas(events)).toEqual([
+      { reasoning_content: "The user asks for 2+2." },
+      { reasoning_content: " That is 4." },
+      { content: "2 + 2 = 4" },
+    ]);
+    expect(events.map(({ id, retry }) => ({ id, retry }))).toEqual([
+      { id: "1", retry: 3000 },
+      { id: "2", retry: 3000 },
+      { id: "2", retry: 3000 },
+      { id: "2", retry: 3000 },
+    ]);
+  });
+
+  it("ignores ids containing NUL and retries that are not a number", () => {
+    expect(
+      decodeChunks([
+        "id: 7\nretry: 100\n\n",
+        "id: a\0b\nretry: 1s\ndata: x\n\n",
+      ]),
+    ).toEqual([{ event: "message", data: "x", id: "7", retry: 100 }]);
+  });
+
+  it("reports error events", () => {
+    const events = decodeChunks([fixture("error-event")]);
+
+    expect(events[1]?.event).toBe("error");
+    expect(getSseErrorMessage(events[1]!.data)).toBe(
+      "Rate limit exceeded: 40 requests per minute",
+    );
+  });
+
+  it("strips a leading BOM", () => {
+    const text = fixture("llm7-chunked");
+    expect(decodeChunks(["\ufeff", text])).toEqual(decodeChunks([text]));
+  });
+
+  it("joins multi-line data and resets the event type after each event", () => {
+    expect(
+      decodeChunks(["event: ping\ndata: a\ndata\ndata: b\n\ndata: c\n\n"]),
+    ).toEqual([
+      { event: "ping", data: "a\n\nb" },
+      { event: "message", data: "c" },
+    ]);
+  });
+
+  it("drops a last event that is not terminated by a blank line", () => {
+    const text = fixture("usage-chunk").replace(/\n\n$/, "\n");
+    const events = decodeChunks([text]);
+
+    expect(events).toHaveLength(2);
+    expect(events.some(({ data }) => data === "[DONE]")).toBe(false);
+  });
+});
+
+describe("decodeSseStream", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode(fixture("multibyte"));
+    // Split inside the four bytes of 👋 and the three of 日.
+    const wave = bytes.indexOf(0xf0);
+    const kanji = bytes.indexOf(0xe6);
+    const chunks = [
+      bytes.slice(0, wave + 1),
+      bytes.slice(wave + 1, wave + 3),
+      bytes.slice(wave + 3, kanji + 2),
+      bytes.slice(kanji + 2),
+    ];
+
+    const events = await readAll(decodeSseStream(streamOf(chunks)));
+
+    expect(deltas(events)).toEqual([{ content: "Grüße 👋 日本語" }]);
+    expect(events.at(-1)?.data).toBe("[DONE]");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * One dispatched server-sent event.
+ */
+export type SseEvent = {
+  /**
+   * Event type from the `event:` field; `"message"` when absent.
+   */
+  event: string;
+  /**
+   * `data:` lines joined with `\n`.
+   */
+  data: string;
+  /**
+   * Last event id seen on the stream (it persists across events).
+   */
+  id?: string;
+  /**
+   * Reconnection time requested by the server, in ms.
+   */
+  retry?: number;
+};
+
+/**
+ * Incremental decoder for the `text/event-stream` format as specified by the
+ * WHATWG HTML standard: `\r\n`, `\r` and `\n` line endings, comment lines,
+ * `event`/`data`/`id`/`retry` fields, multi-line data and a leading BOM.
+ * Per the spec, an event that is not terminated by a blank line when the
+ * stream ends is discarded.
+ */
+export class SseDecoder {
+  private buffer = "";
+  private started = false;
+  // A chunk ended in `\r`; a `\n` starting the next chunk belongs to it.
+  private pendingCR = false;
+  private data: string[] = [];
+  private eventType = "";
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  /**
+   * Feed decoded text and return the events it completes.
+   */
+  push(text: string): SseEvent[] {
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    if (this.pendingCR && text.startsWith("\n")) text = text.slice(1);
+    this.pendingCR = false;
+
+    this.buffer += text;
+    const events: SseEvent[] = [];
+    const lineBreak = /\r\n|\r|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = lineBreak.exec(this.buffer))) {
+      // A trailing `\r` may be the first half of `\r\n`; wait for more input.
+      if (match[0] === "\r" && match.index === this.buffer.length - 1) {
+        this.pendingCR = true;
+      }
+      const event = this.processLine(this.buffer.slice(start, match.index));
+      if (event) events.push(event);
+      start = match.index + match[0].length;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === "") return this.dispatch();
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = Number.parseInt(value, 10);
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    const data = this.data;
+    const eventType = this.eventType;
+    this.data = [];
+    this.eventType = "";
+    if (data.length === 0) return null;
+
+    return {
+      event: eventType || "message",
+      data: data.join("\n"),
+      ...(this.lastEventId !== undefined ? { id: this.lastEventId } : {}),
+      ...(this.retry !== undefined ? { retry: this.retry } : {}),
+    };
+  }
+}
+
+/**
+ * Decode a `text/event-stream` response body into a stream of events.
+ */
+export const decodeSseStream = (
+  body: ReadableStream<Uint8Array>,
+): ReadableStream<SseEvent> => {
+  const decoder = new SseDecoder();
+  // TextDecoderStream's writable side is typed as BufferSource.
+  const textDecoder = new TextDecoderStream() as TransformStream<
+    Uint8Array,
+    string
+  >;
+  return body.pipeThrough(textDecoder).pipeThrough(
+    new TransformStream<string, SseEvent>({
+      transform(text, controller) {
+        for (const event of decoder.push(text)) controller.enqueue(event);
+      },
+    }),
+  );
+};
+
+/**
+ * Human-readable message from an error payload, whether it is plain text or
+ * an OpenAI-style `{ "error": { "message": ... } }` object.
+ */
+export const getSseErrorMessage = (data: string): string => {
+  try {
+    const parsed = JSON.parse(data) as {
+      error?: string | { message?: unknown };
+      message?: unknown;
+    };
+    if (typeof parsed?.error === "string") return parsed.error;
+    if (typeof parsed?.error?.message === "string") return parsed.error.message;
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {
+    // Not JSON; use the raw text.
+  }
+  return data.trim() || "The stream reported an error.";
+};
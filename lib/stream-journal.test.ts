@@ -0,0 +1,120 @@
+import "fake-indexeddb/auto";
+
+import { readUIMessageStream, type UIMessage, type UIMessageChunk } from "ai";
+import { describe, expect, it } from "vitest";
+
+import {
+  journalStream,
+  readLatestJournalEntry,
+  replayJournalEntry,
+} from "@/lib/stream-journal";
+
+const key = { chatId: "chat-1", messageId: "message-1" };
+
+/**
+ * Stream `chunks` through the journal, then drop the connection as a reload
+ * would: the stream never finishes, so the entry stays behind.
+ */
+const journalInterrupted = async (chunks: UIMessageChunk[]) => {
+  const source = new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+    },
+  });
+  const reader = journalStream(source, key).getReader();
+  for (let read = 0; read < chunks.length; read += 1) await reader.read();
+  // Let the batched write go out.
+  await new Promise((resolve) => setTimeout(resolve, 400));
+  const entry = await readLatestJournalEntry(key.chatId);
+  expect(entry?.chunks).toEqual(chunks);
+  return entry!;
+};
+
+const replayedMessage = async (chunks: UIMessageChunk[]) => {
+  let message: UIMessage | undefined;
+  const stream = replayJournalEntry(await journalInterrupted(chunks));
+  for await (const update of readUIMessageStream({
+    stream,
+    terminateOnError: true,
+  })) {
+    message = update;
+  }
+  return message!;
+};
+
+describe("replayJournalEntry", () => {
+  it("closes cut-off text and reasoning and marks the message interrupted", async () => {
+    const message = await replayedMessage([
+      { type: "start", messageId: key.messageId },
+      { type: "start-step" },
+      { type: "reasoning-start", id: "r" },
+      { type: "reasoning-delta", id: "r", delta: "Thinking" },
+      { type: "reasoning-end", id: "r" },
+      { type: "text-start", id: "t" },
+      { type: "text-delta", id: "t", delta: "Half an ans" },
+    ]);
+
+    expect(message.id).toBe(key.messageId);
+    expect(message.metadata).toEqual({ interrupted: true });
+    expect(message.parts).toMatchObject([
+      { type: "step-start" },
+      { type: "reasoning", text: "Thinking", state: "done" },
+      { type: "text", text: "Half an ans", state: "done" },
+    ]);
+  });
+
+  it("fails a tool call whose input was cut off as an input error", async () => {
+    const message = await replayedMessage([
+      { type: "start", messageId: key.messageId },
+      { type: "start-step" },
+      {
+        type: "tool-input-start",
+        toolCallId: "call-1",
+        toolName: "calculator",
+        dynamic: true,
+      },
+      {
+        type: "tool-input-delta",
+        toolCallId: "call-1",
+        inputTextDelta: '{"ex',
+      },
+    ]);
+
+    expect(message.parts.at(-1)).toMatchObject({
+      type: "dynamic-tool",
+      toolCallId: "call-1",
+      toolName: "calculator",
+      state: "output-error",
+      input: '{"ex',
+      errorText: "Interrupted before the tool input was complete.",
+    });
+  });
+
+  it("fails a tool call that was running as an output error", async () => {
+    const message = await replayedMessage([
+      { type: "start", messageId: key.messageId },
+      { type: "start-step" },
+      {
+        type: "tool-input-start",
+        toolCallId: "call-1",
+        toolName: "calculator",
+        dynamic: true,
+      },
+      {
+        type: "tool-input-available",
+        toolCallId: "call-1",
+        toolName: "calculator",
+        input: { expression: "1 + 1" },
+        dynamic: true,
+      },
+    ]);
+
+    expect(message.parts.at(-1)).toMatchObject({
+      type: "dynamic-tool",
+      toolCallId: "call-1",
+      state: "output-error",
+      input: { expression: "1 + 1" },
+      errorText: "Interrupted before the tool finished.",
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import type { UIMessageChunk } from "ai";
+
+import {
+  isChatDatabaseAvailable,
+  JOURNAL_STORE,
+  runRequest,
+} from "@/lib/chat-db";
+
+const FLUSH_INTERVAL_MS = 250;
+const MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Chunks received so far for one in-flight assistant message.
+ */
+export type StreamJournalEntry = {
+  chatId: string;
+  messageId: string;
+  chunks: UIMessageChunk[];
+  updatedAt: number;
+};
+
+const run = <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+) => runRequest(JOURNAL_STORE, mode, fn);
+
+const putEntry = (entry: StreamJournalEntry) =>
+  run("readwrite", (store) => store.put(entry));
+
+export const deleteJournalEntry = async (chatId: string, messageId: string) => {
+  if (!isChatDatabaseAvailable()) return;
+  await run("readwrite", (store) => store.delete([chatId, messageId])).catch(
+    () => undefined,
+  );
+};
+
+/**
+ * Most recent journal entry for a chat, ignoring (and pruning) stale ones.
+ */
+export const readLatestJournalEntry = async (
+  chatId: string,
+): Promise<StreamJournalEntry | null> => {
+  if (!isChatDatabaseAvailable()) return null;
+  try {
+    const entries = await run<StreamJournalEntry[]>("readonly", (store) =>
+      store.index("chatId").getAll(chatId),
+    );
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    let latest: StreamJournalEntry | null = null;
+    for (const entry of entries) {
+      if (entry.updatedAt < cutoff) {
+        await deleteJournalEntry(entry.chatId, entry.messageId);
+      } else if (!latest || entry.updatedAt > latest.updatedAt) {
+        latest = entry;
+      }
+    }
+    return latest;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pass a chunk stream through unchanged while persisting every chunk, so an
+ * interrupted response can be replayed after a reload. Writes are batched;
+ * the entry is removed once the stream ends or the request is aborted on
+ * purpose (e.g. the user pressed stop).
+ */
+export const journalStream = (
+  stream: ReadableStream<UIMessageChunk>,
+  key: { chatId: string; messageId: string },
+  abortSignal?: AbortSignal,
+): ReadableStream<UIMessageChunk> => {
+  if (!isChatDatabaseAvailable()) return stream;
+
+  const entry: StreamJournalEntry = {
+    ...key,
+    chunks: [],
+    updatedAt: Date.now(),
+  };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let settled = false;
+
+  const flush = () => {
+    timer = null;
+    if (settled) return;
+    entry.updatedAt = Date.now();
+    void putEntry(entry).catch(() => undefined);
+  };
+
+  const settle = () => {
+    settled = true;
+    if (timer) clearTimeout(timer);
+    void deleteJournalEntry(key.chatId, key.messageId);
+  };
+
+  abortSignal?.addEventListener("abort", settle, { once: true });
+
+  return stream.pipeThrough(
+    new TransformStream<UIMessageChunk, UIMessageChunk>({
+      transform(chunk, controller) {
+        entry.chunks.push(chunk);
+        timer ??= setTimeout(flush, FLUSH_INTERVAL_MS);
+        controller.enqueue(chunk);
+      },
+      flush: settle,
+    }),
+  );
+};
+
+/**
+ * Rebuild a well-formed chunk stream from a journal entry: replay what was
+ * received, close any parts that were cut off, and finish the message with
+ * `interrupted` metadata so the UI can offer to continue.
+ */
+export const replayJournalEntry = (
+  entry: StreamJournalEntry,
+): ReadableStream<UIMessageChunk> => {
+  const openParts = new Map<string, "text" | "reasoning">();
+  // Tool calls without a result; `input` is unset while it still streams.
+  const pendingTools = new Map<
+    string,
+    { toolName: string; dynamic?: boolean; inputText: string; input?: unknown }
+  >();
+  let stepOpen = false;
+
+  const chunks: UIMessageChunk[] = [];
+  for (const chunk of entry.chunks) {
+    if (
+      chunk.type === "finish" ||
+      chunk.type === "error" ||
+      chunk.type === "abort"
+    ) {
+      continue;
+    }
+    switch (chunk.type) {
+      case "start-step":
+        stepOpen = true;
+        break;
+      case "finish-step":
+        stepOpen = false;
+        break;
+      case "text-start":
+      case "reasoning-start":
+        openParts.set(
+          chunk.id,
+          chunk.type === "text-start" ? "text" : "reasoning",
+        );
+        break;
+      case "text-end":
+      case "reasoning-end":
+        openParts.delete(chunk.id);
+        break;
+      case "tool-input-start":
+        pendingTools.set(chunk.toolCallId, {
+          toolName: chunk.toolName,
+          dynamic: chunk.dynamic,
+          inputText: "",
+        });
+        break;
+      case "tool-input-delta": {
+        const tool = pendingTools.get(chunk.toolCallId);
+        if (tool) tool.inputText += chunk.inputTextDelta;
+        break;
+      }
+      case "tool-input-available":
+        pendingTools.set(chunk.toolCallId, {
+          toolName: chunk.toolName,
+          dynamic: chunk.dynamic,
+          inputText: "",
+          input: chunk.input,
+        });
+        break;
+      case "tool-output-available":
+      case "tool-output-error":
+      case "tool-input-error":
+        pendingTools.delete(chunk.toolCallId);
+        break;
+    }
+    chunks.push(chunk);
+  }
+
+  for (const [id, type] of openParts) {
+    chunks.push({ type: `${type}-end`, id });
+  }
+  for (const [toolCallId, tool] of pendingTools) {
+    // A call whose input was cut off never ran; it fails as bad input.
+    chunks.push(
+      "input" in tool
+        ? {
+            type: "tool-output-error",
+            toolCallId,
+            errorText: "Interrupted before the tool finished.",
+            dynamic: tool.dynamic,
+          }
+        : {
+            type: "tool-input-error",
+            toolCallId,
+            toolName: tool.toolName,
+            input: tool.inputText,
+            errorText: "Interrupted before the tool input was complete.",
+            dynamic: tool.dynamic,
+          },
+    );
+  }
+  if (stepOpen) chunks.push({ type: "finish-step" });
+  chunks.push({ type: "finish", messageMetadata: { interrupted: true } });
+
+  return new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+};
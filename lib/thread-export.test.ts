@@ -0,0 +1,130 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+
+import {
+  getCurrentBranch,
+  THREAD_EXPORT_KIND,
+  THREAD_EXPORT_VERSION,
+  toHtml,
+  toMarkdown,
+  type ThreadExport,
+} from "@/lib/thread-export";
+
+const text = (
+  id: string,
+  role: UIMessage["role"],
+  body: string,
+): UIMessage => ({ id, role, parts: [{ type: "text", text: body }] });
+
+// "a" was answered twice; the thread shows the second answer.
+const exported = (
+  messages: ThreadExport["messages"] = [
+    { parentId: null, message: text("a", "user", "What is 2 + 2?") },
+    { parentId: "a", message: text("b1", "assistant", "5") },
+    { parentId: "a", message: text("b2", "assistant", "4") },
+  ],
+  headId: string | null = "b2",
+): ThreadExport => ({
+  kind: THREAD_EXPORT_KIND,
+  version: THREAD_EXPORT_VERSION,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  thread: { id: "thread-1", title: "Arithmetic", headId },
+  messages,
+});
+
+describe("getCurrentBranch", () => {
+  it("follows parents from the head", () => {
+    expect(getCurrentBranch(exported()).map(({ id }) => id)).toEqual([
+      "a",
+      "b2",
+    ]);
+    expect(
+      getCurrentBranch(exported(undefined, "b1")).map(({ id }) => id),
+    ).toEqual(["a", "b1"]);
+  });
+
+  it("is empty without a head", () => {
+    expect(getCurrentBranch(exported([], null))).toEqual([]);
+  });
+});
+
+describe("toMarkdown", () => {
+  it("writes the current branch under the title", () => {
+    expect(toMarkdown(exported())).toBe(
+      "# Arithmetic\n\n## User\n\nWhat is 2 + 2?\n\n## Assistant\n\n4\n",
+    );
+  });
+
+  it("fences tool calls with more backticks than their content", () => {
+    const message: UIMessage = {
+      id: "a",
+      role: "assistant",
+      parts: [
+        {
+          type: "tool-calculator",
+          toolCallId: "call-1",
+          state: "output-available",
+          input: "```js\n1 + 1\n```",
+          output: 2,
+        },
+      ],
+    };
+
+    const markdown = toMarkdown(exported([{ parentId: null, message }], "a"));
+
+    expect(markdown).toContain("**Tool call: calculator**");
+    expect(markdown).toContain("````json\n```js\n1 + 1\n```\n````");
+    expect(markdown).toContain("Result:\n\n```json\n2\n```");
+  });
+});
+
+describe("toHtml", () => {
+  it("escapes message text", () => {
+    const html = toHtml(
+      exported(
+        [{ parentId: null, message: text("a", "user", "<b>bold</b> & co") }],
+        "a",
+      ),
+    );
+
+    expect(html).toContain("&lt;b&gt;bold&lt;/b&gt; &amp; co");
+    expect(html).not.toContain("<b>bold</b>");
+  });
+
+  it.each([
+    "https://example.com/cat.png",
+    "data:image/png;base64,AAAA",
+    "blob:https://llm7.chat/1234",
+  ])("links file parts at %s", (url) => {
+    const message: UIMessage = {
+      id: "a",
+      role: "user",
+      parts: [{ type: "file", mediaType: "image/png", url }],
+    };
+
+    expect(toHtml(exported([{ parentId: null, message }], "a"))).toContain(
+      `<img src="${url}"`,
+    );
+  });
+
+  it("shows other file URLs as text", () => {
+    const message: UIMessage = {
+      id: "a",
+      role: "user",
+      parts: [
+        {
+          type: "file",
+          mediaType: "text/plain",
+          filename: "notes.txt",
+          url: "javascript:alert(1)",
+        },
+        { type: "file", mediaType: "image/png", url: "JavaScript:alert(2)" },
+      ],
+    };
+
+    const html = toHtml(exported([{ parentId: null, message }], "a"));
+
+    expect(html).toContain("notes.txt: javascript:alert(1)");
+    expect(html).not.toMatch(/(?:href|src)="javascript:/i);
+  });
+});
@@ -0,0 +1,343 @@
+import {
+  getToolOrDynamicToolName,
+  isToolOrDynamicToolUIPart,
+  type UIMessage,
+} from "ai";
+
+import { getThreadSettings, type ThreadSettings } from "@/lib/thread-settings";
+import {
+  AI_SDK_FORMAT,
+  getStoredThread,
+  loadStoredMessages,
+} from "@/lib/thread-storage";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export const EXPORT_FORMATS: {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { id: "markdown", label: "Markdown", extension: "md" },
+  { id: "json", label: "JSON", extension: "json" },
+  { id: "html", label: "HTML", extension: "html" },
+];
+
+const REVOKE_DELAY_MS = 10_000;
+
+export const THREAD_EXPORT_KIND = "llm7-chat-thread";
+export const THREAD_EXPORT_VERSION = 1;
+
+/**
+ * A thread with every branch, as written to JSON exports. Messages are AI
+ * SDK `UIMessage`s with all parts (reasoning, tool calls, files) and
+ * metadata.
+ */
+export type ThreadExport = {
+  kind: typeof THREAD_EXPORT_KIND;
+  version: typeof THREAD_EXPORT_VERSION;
+  exportedAt: string;
+  thread: {
+    id: string;
+    title?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    /** Last message of the branch that was shown. */
+    headId?: string | null;
+    /** Origin of an imported thread. */
+    source?: string;
+    /** System prompt, model and other settings of the thread. */
+    settings?: ThreadSettings;
+  };
+  messages: { parentId: string | null; message: UIMessage }[];
+};
+
+/**
+ * Read a thread from local storage for export.
+ */
+export const loadThreadExport = async (
+  threadId: string,
+): Promise<ThreadExport> => {
+  const [thread, { headId, messages }] = await Promise.all([
+    getStoredThread(threadId),
+    loadStoredMessages(threadId, AI_SDK_FORMAT),
+  ]);
+  const toIso = (time: number | undefined) =>
+    time !== undefined ? new Date(time).toISOString() : undefined;
+
+  return {
+    kind: THREAD_EXPORT_KIND,
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    thread: {
+      id: threadId,
+      title: thread?.title,
+      createdAt: toIso(thread?.createdAt),
+      updatedAt: toIso(thread?.updatedAt),
+      headId: headId ?? messages.at(-1)?.id ?? null,
+      source: thread?.source,
+      settings: getThreadSettings(threadId),
+    },
+    messages: messages.map(({ parentId, content }) => ({
+      parentId,
+      message: content as UIMessage,
+    })),
+  };
+};
+
+/**
+ * Messages of the branch that ends at the thread's head, oldest first.
+ */
+export const getCurrentBranch = ({
+  thread,
+  messages,
+}: ThreadExport): UIMessage[] => {
+  const byId = new Map(messages.map((item) => [item.message.id, item]));
+  const branch: UIMessage[] = [];
+  for (
+    let item = thread.headId ? byId.get(thread.headId) : undefined;
+    item;
+    item = item.parentId ? byId.get(item.parentId) : undefined
+  ) {
+    branch.unshift(item.message);
+  }
+  return branch;
+};
+
+const ROLE_LABELS: Record<UIMessage["role"], string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+};
+
+const fence = (text: string, language = "") => {
+  const ticks = "`".repeat(
+    Math.max(3, ...[...text.matchAll(/`+/g)].map(([m]) => m.length + 1)),
+  );
+  return `${ticks}${language}\n${text}\n${ticks}`;
+};
+
+const toJson = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+const partToMarkdown = (part: UIMessage["parts"][number]): string | null => {
+  if (part.type === "text") return part.text;
+  if (part.type === "reasoning") {
+    return part.text.trim()
+      ? `<details>\n<summary>Reasoning</summary>\n\n${part.text}\n\n</details>`
+      : null;
+  }
+  if (part.type === "file") {
+    const name = part.filename ?? part.mediaType;
+    return part.mediaType.startsWith("image/")
+      ? `![${name}](${part.url})`
+      : `[${name}](${part.url})`;
+  }
+  if (isToolOrDynamicToolUIPart(part)) {
+    const sections = [`**Tool call: ${getToolOrDynamicToolName(part)}**`];
+    if (part.input !== undefined)
+      sections.push(fence(toJson(part.input), "json"));
+    if (part.state === "output-available") {
+      sections.push("Result:", fence(toJson(part.output), "json"));
+    } else if (part.state === "output-error") {
+      sections.push(`Error: ${part.errorText}`);
+    }
+    return sections.join("\n\n");
+  }
+  return null;
+};
+
+/**
+ * The current branch as Markdown, one heading per message.
+ */
+export const toMarkdown = (data: ThreadExport) => {
+  const title = data.thread.title?.trim() || "Chat";
+  const messages = getCurrentBranch(data).map((message) => {
+    const body = message.parts
+      .map(partToMarkdown)
+      .filter((text): text is string => Boolean(text?.trim()))
+      .join("\n\n");
+    return `## ${ROLE_LABELS[message.role]}\n\n${body}`;
+  });
+  return `# ${title}\n\n${messages.join("\n\n")}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// File parts can come from imported files; other schemes (`javascript:`)
+// are shown as text instead of becoming links.
+const LINKABLE_URL = /^(?:data|blob|https?):/i;
+
+const partToHtml = (part: UIMessage["parts"][number]): string | null => {
+  if (part.type === "text") {
+    return part.text.trim()
+      ? `<div class="text">${escapeHtml(part.text)}</div>`
+      : null;
+  }
+  if (part.type === "reasoning") {
+    return part.text.trim()
+      ? `<details class="reasoning"><summary>Reasoning</summary><div class="text">${escapeHtml(part.text)}</div></details>`
+      : null;
+  }
+  if (part.type === "file") {
+    const name = escapeHtml(part.filename ?? part.mediaType);
+    if (!LINKABLE_URL.test(part.url)) {
+      return `<p class="file">${name}: ${escapeHtml(part.url)}</p>`;
+    }
+    return part.mediaType.startsWith("image/")
+      ? `<img src="${escapeHtml(part.url)}" alt="${name}">`
+      : `<a class="file" href="${escapeHtml(part.url)}" download="${name}">${name}</a>`;
+  }
+  if (isToolOrDynamicToolUIPart(part)) {
+    const output =
+      part.state === "output-available"
+        ? `<pre>${escapeHtml(toJson(part.output))}</pre>`
+        : part.state === "output-error"
+          ? `<p class="error">${escapeHtml(part.errorText)}</p>`
+          : "";
+    return `<details class="tool"><summary>Tool call: ${escapeHtml(getToolOrDynamicToolName(part))}</summary><pre>${escapeHtml(toJson(part.input ?? null))}</pre>${output}</details>`;
+  }
+  return null;
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #f7f7f8; color: #1f2328; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 46rem; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+  .exported { color: #6e7781; font-size: 0.85rem; margin-bottom: 2rem; }
+  .message { margin: 1.25rem 0; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.04em; color: #6e7781; margin-bottom: 0.25rem; }
+  .user .body { background: #e8e8ec; border-radius: 1.25rem; padding: 0.6rem 1.1rem; margin-left: 15%; }
+  .body > * + * { margin-top: 0.75rem; }
+  .text { white-space: pre-wrap; overflow-wrap: anywhere; }
+  details { border: 1px solid #d0d7de; border-radius: 0.5rem; padding: 0.5rem 0.75rem; color: #57606a; }
+  summary { cursor: pointer; font-size: 0.85rem; }
+  pre { background: #eef0f2; border-radius: 0.375rem; padding: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+  img { display: block; max-width: 100%; border-radius: 0.75rem; }
+  .error { color: #cf222e; }
+  @media (prefers-color-scheme: dark) {
+    body { background: #0d1117; color: #e6edf3; }
+    .user .body { background: #21262d; }
+    details { border-color: #30363d; color: #8b949e; }
+    pre { background: #161b22; }
+  }
+`;
+
+/**
+ * The current branch as a standalone HTML page. Images should be embedded
+ * first (see `embedImages`) for the page to work offline.
+ */
+export const toHtml = (data: ThreadExport) => {
+  const title = escapeHtml(data.thread.title?.trim() || "Chat");
+  const messages = getCurrentBranch(data)
+    .map((message) => {
+      const body = message.parts
+        .map(partToHtml)
+        .filter((html): html is string => Boolean(html))
+        .join("\n");
+      return `<section class="message ${message.role}"><div class="role">${ROLE_LABELS[message.role]}</div><div class="body">${body}</div></section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<div class="exported">Exported from LLM7.chat on ${escapeHtml(new Date(data.exportedAt).toLocaleString())}</div>
+${messages}
+</main>
+</body>
+</html>
+`;
+};
+
+const toDataUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}`);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Replace remote image URLs with data URLs. Images that can't be fetched
+ * (e.g. blocked by CORS) keep their URL.
+ */
+export const embedImages = async (
+  data: ThreadExport,
+): Promise<ThreadExport> => {
+  const messages = await Promise.all(
+    data.messages.map(async (item) => ({
+      ...item,
+      message: {
+        ...item.message,
+        parts: await Promise.all(
+          item.message.parts.map(async (part) =>
+            part.type === "file" &&
+            part.mediaType.startsWith("image/") &&
+            !part.url.startsWith("data:")
+              ? {
+                  ...part,
+                  url: await toDataUrl(part.url).catch(() => part.url),
+                }
+              : part,
+          ),
+        ),
+      },
+    })),
+  );
+  return { ...data, messages };
+};
+
+const toFilename = (title: string | undefined, extension: string) => {
+  const slug = (title ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${extension}`;
+};
+
+/**
+ * Export a stored thread and download it as a file. Rejects when the thread
+ * can't be read from storage.
+ */
+export const downloadThread = async (
+  threadId: string,
+  format: ExportFormat,
+) => {
+  const data = await loadThreadExport(threadId);
+  const { extension } = EXPORT_FORMATS.find((option) => option.id === format)!;
+  const [content, type] =
+    format === "markdown"
+      ? [toMarkdown(data), "text/markdown"]
+      : format === "html"
+        ? [toHtml(await embedImages(data)), "text/html"]
+        : [JSON.stringify(data, null, 2), "application/json"];
+
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${type};charset=utf-8` }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = toFilename(data.thread.title, extension);
+  link.click();
+  // Revoking right away can cancel the download before it starts.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
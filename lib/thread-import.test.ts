@@ -0,0 +1,308 @@
+import "fake-indexeddb/auto";
+
+import { describe, expect, it } from "vitest";
+
+import { THREAD_EXPORT_KIND, THREAD_EXPORT_VERSION } from "@/lib/thread-export";
+import { importThreads, parseImportFile } from "@/lib/thread-import";
+import {
+  AI_SDK_FORMAT,
+  listStoredThreads,
+  loadStoredMessages,
+} from "@/lib/thread-storage";
+
+const message = (id: string, parentId: string | null, text = id) => ({
+  parentId,
+  message: { id, role: "user", parts: [{ type: "text", text }] },
+});
+
+const ownExport = (patch: Record<string, unknown>) => ({
+  kind: THREAD_EXPORT_KIND,
+  version: THREAD_EXPORT_VERSION,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  thread: { id: "thread-1", title: "Chat" },
+  messages: [],
+  ...patch,
+});
+
+describe("parseImportFile", () => {
+  it("skips own exports without a messages array", () => {
+    const { threads, skipped } = parseImportFile(
+      JSON.stringify([
+        ownExport({ messages: undefined }),
+        ownExport({
+          thread: { id: "thread-2" },
+          messages: [message("a", null)],
+        }),
+      ]),
+    );
+
+    expect(threads.map(({ id }) => id)).toEqual(["thread-2"]);
+    expect(skipped).toEqual([{ reason: "malformed chats", count: 1 }]);
+  });
+
+  it("re-parents messages under dropped ones to the nearest kept ancestor", () => {
+    const { threads, skipped } = parseImportFile(
+      JSON.stringify(
+        ownExport({
+          thread: { id: "thread-1", headId: "d" },
+          messages: [
+            message("a", null),
+            { parentId: "a", message: { id: "b", role: "assistant" } },
+            { parentId: "b", message: { id: "c", role: "user", parts: null } },
+            message("d", "c"),
+          ],
+        }),
+      ),
+    );
+
+    expect(
+      threads[0]!.messages.map(({ parentId, message }) => [
+        message.id,
+        parentId,
+      ]),
+    ).toEqual([
+      ["a", null],
+      ["d", "a"],
+    ]);
+    expect(threads[0]!.headId).toBe("d");
+    expect(skipped).toEqual([{ reason: "malformed messages", count: 2 }]);
+  });
+
+  it("moves the head to a kept message when it was dropped", () => {
+    const { threads } = parseImportFile(
+      JSON.stringify(
+        ownExport({
+          thread: { id: "thread-1", headId: "b" },
+          messages: [
+            message("a", null),
+            { parentId: "a", message: { id: "b" } },
+          ],
+        }),
+      ),
+    );
+
+    expect(threads[0]!.headId).toBe("a");
+  });
+});
+
+const chatGPTNode = (
+  id: string,
+  parent: string | null,
+  children: string[],
+  role?: string,
+  content?: Record<string, unknown>,
+) => ({
+  id,
+  parent,
+  children,
+  message: role
+    ? {
+        id,
+        author: { role },
+        content: { content_type: "text", parts: [id], ...content },
+      }
+    : null,
+});
+
+// root → system (hidden) → user "q" → two answers; "a2" is current.
+const chatGPTConversation = {
+  conversation_id: "conv-1",
+  title: "Branches",
+  create_time: 1700000000,
+  update_time: 1700000100.5,
+  current_node: "a2",
+  mapping: {
+    root: chatGPTNode("root", null, ["sys"]),
+    sys: {
+      ...chatGPTNode("sys", "root", ["q"], "system"),
+      message: {
+        id: "sys",
+        author: { role: "system" },
+        content: { content_type: "text", parts: [""] },
+        metadata: { is_visually_hidden_from_conversation: true },
+      },
+    },
+    q: chatGPTNode("q", "sys", ["code", "a2"], "user"),
+    code: chatGPTNode("code", "q", ["a1"], "assistant", {
+      content_type: "code",
+      text: "print(1)",
+    }),
+    a1: chatGPTNode("a1", "code", [], "assistant"),
+    a2: chatGPTNode("a2", "q", [], "assistant", {
+      parts: ["answer", { asset_pointer: "file-1" }],
+    }),
+  },
+};
+
+describe("parseImportFile with ChatGPT exports", () => {
+  it("keeps every branch and ends on the current node", () => {
+    const { format, threads } = parseImportFile(
+      JSON.stringify([chatGPTConversation]),
+    );
+    const [thread] = threads;
+
+    expect(format).toBe("ChatGPT export");
+    expect(thread).toMatchObject({
+      source: "chatgpt:conv-1",
+      title: "Branches",
+      createdAt: 1700000000000,
+      updatedAt: 1700000100500,
+      headId: "a2",
+    });
+    expect(
+      thread!.messages.map(({ parentId, message }) => [message.id, parentId]),
+    ).toEqual([
+      ["q", null],
+      ["a2", "q"],
+      // Under the skipped code step.
+      ["a1", "q"],
+    ]);
+  });
+
+  it("skips content that isn't text and reports it", () => {
+    const { threads, skipped } = parseImportFile(
+      JSON.stringify([chatGPTConversation]),
+    );
+
+    expect(
+      threads[0]!.messages.find(({ message }) => message.id === "a2")!.message
+        .parts,
+    ).toEqual([{ type: "text", text: "answer" }]);
+    expect(skipped).toEqual([
+      { reason: "code interpreter steps", count: 1 },
+      {
+        reason: "images and files (not included in ChatGPT exports)",
+        count: 1,
+      },
+    ]);
+  });
+
+  it("moves the head to a kept ancestor when the current node was skipped", () => {
+    const { threads } = parseImportFile(
+      JSON.stringify([{ ...chatGPTConversation, current_node: "code" }]),
+    );
+
+    expect(threads[0]!.headId).toBe("q");
+  });
+});
+
+describe("parseImportFile with OpenAI messages", () => {
+  it("reads a message array as one linear thread", () => {
+    const { format, threads, skipped } = parseImportFile(
+      JSON.stringify([
+        { role: "developer", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "https://x.test/a.JPG" } },
+            { type: "input_audio", input_audio: {} },
+          ],
+        },
+        { role: "assistant", content: null, tool_calls: [{ id: "call-1" }] },
+        { role: "tool", content: "{}" },
+        { role: "assistant", content: "A cat." },
+      ]),
+    );
+    const [thread] = threads;
+
+    expect(format).toBe("OpenAI messages");
+    expect(thread!.title).toBe("What is this?");
+    expect(
+      thread!.messages.map(({ message }) => [message.role, message.parts]),
+    ).toEqual([
+      ["system", [{ type: "text", text: "Be brief." }]],
+      [
+        "user",
+        [
+          { type: "text", text: "What is this?" },
+          {
+            type: "file",
+            mediaType: "image/jpeg",
+            url: "https://x.test/a.JPG",
+          },
+        ],
+      ],
+      ["assistant", [{ type: "text", text: "A cat." }]],
+    ]);
+    expect(thread!.messages.map(({ parentId }) => parentId)).toEqual([
+      null,
+      thread!.messages[0]!.message.id,
+      thread!.messages[1]!.message.id,
+    ]);
+    expect(thread!.headId).toBe(thread!.messages[2]!.message.id);
+    expect(skipped).toEqual([
+      { reason: '"input_audio" content parts', count: 1 },
+      { reason: "tool calls and results", count: 2 },
+    ]);
+  });
+
+  it("reads several `{ messages }` objects as one thread each", () => {
+    const { threads } = parseImportFile(
+      JSON.stringify([
+        { messages: [{ role: "user", content: "One" }] },
+        { messages: [{ role: "user", content: "Two" }] },
+      ]),
+    );
+
+    expect(threads.map(({ title }) => title)).toEqual(["One", "Two"]);
+  });
+
+  it("rejects files in no known format", () => {
+    expect(() => parseImportFile('{"hello": "world"}')).toThrow(
+      /Unrecognized format/,
+    );
+    expect(() => parseImportFile("not json")).toThrow(
+      "The file is not valid JSON.",
+    );
+  });
+});
+
+describe("importThreads", () => {
+  const file = (data: unknown) =>
+    new File([JSON.stringify(data)], "chats.json", {
+      type: "application/json",
+    });
+
+  it("stores threads and skips them when imported again", async () => {
+    const first = await importThreads(file([chatGPTConversation]));
+    const [threadId] = first.threadIds;
+
+    expect(first).toMatchObject({ imported: 1, duplicates: 0 });
+    expect(await listStoredThreads()).toEqual([
+      expect.objectContaining({
+        id: threadId,
+        title: "Branches",
+        source: "chatgpt:conv-1",
+        headId: "a2",
+      }),
+    ]);
+    const { messages } = await loadStoredMessages(threadId!, AI_SDK_FORMAT);
+    expect(messages.map(({ id, parentId }) => [id, parentId])).toEqual([
+      ["q", null],
+      ["a2", "q"],
+      ["a1", "q"],
+    ]);
+
+    const again = await importThreads(file([chatGPTConversation]));
+    expect(again).toMatchObject({ imported: 0, duplicates: 1, threadIds: [] });
+  });
+
+  it("skips own exports of threads that already exist", async () => {
+    const exported = ownExport({
+      thread: { id: "own-1", title: "Mine", source: "llm7:own-1" },
+      messages: [message("m1", null)],
+    });
+
+    expect(await importThreads(file(exported))).toMatchObject({
+      imported: 1,
+      threadIds: ["own-1"],
+    });
+    // Same id under another source still counts as imported before.
+    expect(
+      await importThreads(
+        file({ ...exported, thread: { id: "own-1", source: "elsewhere" } }),
+      ),
+    ).toMatchObject({ imported: 0, duplicates: 1 });
+  });
+});
@@ -0,0 +1,514 @@
+import { generateId, type UIMessage } from "ai";
+
+import {
+  THREAD_EXPORT_KIND,
+  THREAD_EXPORT_VERSION,
+  type ThreadExport,
+} from "@/lib/thread-export";
+import {
+  parseThreadSettings,
+  restoreThreadSettings,
+  type ThreadSettings,
+} from "@/lib/thread-settings";
+import {
+  AI_SDK_FORMAT,
+  listStoredThreads,
+  writeStoredThread,
+  type StoredMessage,
+} from "@/lib/thread-storage";
+
+type Part = UIMessage["parts"][number];
+
+/**
+ * A thread parsed from an import file, before it is stored. Messages are in
+ * parent-before-child order.
+ */
+export type ImportedThread = {
+  /** Identifies the original conversation, for deduplication. */
+  source: string;
+  /** Reused when importing this app's own export. */
+  id?: string;
+  title?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  headId: string | null;
+  messages: { parentId: string | null; message: UIMessage }[];
+  settings?: ThreadSettings;
+};
+
+export type ImportReport = {
+  /** Which format the file was read as. */
+  format: string;
+  imported: number;
+  /** Threads that were imported before. */
+  duplicates: number;
+  /** Content that could not be imported, with counts. */
+  skipped: { reason: string; count: number }[];
+  /** Ids of the imported threads, least recently updated first. */
+  threadIds: string[];
+};
+
+type SkipCounter = { add: (reason: string, count?: number) => void };
+
+const createSkipCounter = () => {
+  const counts = new Map<string, number>();
+  return {
+    add: (reason: string, count = 1) => {
+      counts.set(reason, (counts.get(reason) ?? 0) + count);
+    },
+    toList: () => [...counts].map(([reason, count]) => ({ reason, count })),
+  };
+};
+
+type ImportFormat = {
+  name: string;
+  detect: (data: unknown) => boolean;
+  parse: (data: unknown, skipped: SkipCounter) => ImportedThread[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const textPart = (text: string): Part => ({ type: "text", text });
+
+const titleFrom = (messages: ImportedThread["messages"]) => {
+  const first = messages.find(
+    ({ message }) => message.role === "user",
+  )?.message;
+  const text = first?.parts.find((part) => part.type === "text")?.text ?? "";
+  const line = text.split("\n")[0].trim();
+  return line.length > 40
+    ? `${line.slice(0, 40).trimEnd()}…`
+    : line || undefined;
+};
+
+// FNV-1a, enough to recognize a conversation that was imported before.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * This app's JSON export, one thread or an array of them.
+ */
+const ownFormat: ImportFormat = {
+  name: "LLM7.chat export",
+  detect: (data) =>
+    (Array.isArray(data) ? data : [data]).every(
+      (item) => isRecord(item) && item.kind === THREAD_EXPORT_KIND,
+    ),
+  parse: (data, skipped) =>
+    (Array.isArray(data) ? data : [data]).flatMap((item) => {
+      const { version, thread, messages } = item as Partial<
+        Record<keyof ThreadExport, unknown>
+      >;
+      if (typeof version === "number" && version > THREAD_EXPORT_VERSION) {
+        skipped.add("threads from a newer version of the app");
+        return [];
+      }
+      if (
+        !isRecord(thread) ||
+        typeof thread.id !== "string" ||
+        !Array.isArray(messages)
+      ) {
+        skipped.add("malformed chats");
+        return [];
+      }
+      const { id, title, createdAt, updatedAt, headId, source, settings } =
+        thread as ThreadExport["thread"];
+
+      const isEntry = (
+        entry: unknown,
+      ): entry is ThreadExport["messages"][number] =>
+        isRecord(entry) &&
+        (typeof entry.parentId === "string" || entry.parentId === null) &&
+        isRecord(entry.message) &&
+        typeof entry.message.id === "string" &&
+        Array.isArray(entry.message.parts);
+      const valid = messages.filter(isEntry);
+      if (valid.length < messages.length) {
+        skipped.add("malformed messages", messages.length - valid.length);
+      }
+
+      // Nearest ancestor that was imported; dropped messages are bridged.
+      const parents = new Map<string, unknown>(
+        messages.flatMap((entry) =>
+          isRecord(entry) &&
+          isRecord(entry.message) &&
+          typeof entry.message.id === "string"
+            ? [[entry.message.id, entry.parentId] as const]
+            : [],
+        ),
+      );
+      const kept = new Set(valid.map(({ message }) => message.id));
+      const keptAncestor = (start: unknown): string | null => {
+        const seen = new Set<string>();
+        for (let node = start; typeof node === "string" && !seen.has(node); ) {
+          if (kept.has(node)) return node;
+          seen.add(node);
+          node = parents.get(node);
+        }
+        return null;
+      };
+
+      const toTime = (iso?: string) =>
+        iso ? Date.parse(iso) || undefined : undefined;
+      return [
+        {
+          source: source ?? `llm7:${id}`,
+          id,
+          title,
+          createdAt: toTime(createdAt),
+          updatedAt: toTime(updatedAt),
+          headId: keptAncestor(headId) ?? valid.at(-1)?.message.id ?? null,
+          messages: valid.map(({ parentId, message }) => ({
+            parentId: keptAncestor(parentId),
+            message,
+          })),
+          settings: parseThreadSettings(settings),
+        },
+      ];
+    }),
+};
+
+type ChatGPTNode = {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id: string;
+    author?: { role?: string };
+    recipient?: string;
+    create_time?: number | null;
+    content?: {
+      content_type?: string;
+      parts?: unknown[];
+      text?: string;
+    };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+};
+
+type ChatGPTConversation = {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+};
+
+const CHATGPT_SKIP_REASONS: Record<string, string> = {
+  multimodal_text: "images and files (not included in ChatGPT exports)",
+  code: "code interpreter steps",
+  execution_output: "code interpreter steps",
+  thoughts: "reasoning summaries",
+  reasoning_recap: "reasoning summaries",
+  tether_browsing_display: "web browsing results",
+  tether_quote: "web browsing results",
+};
+
+/**
+ * Convert one ChatGPT message to UI message parts, or `null` to leave it out
+ * (counted in `skipped` unless it is hidden bookkeeping).
+ */
+const toChatGPTParts = (
+  message: NonNullable<ChatGPTNode["message"]>,
+  skipped: SkipCounter,
+): Part[] | null => {
+  const contentType = message.content?.content_type ?? "text";
+  if (message.metadata?.is_visually_hidden_from_conversation) return null;
+  if (message.recipient && message.recipient !== "all") {
+    skipped.add("tool calls and results");
+    return null;
+  }
+  if (contentType === "user_editable_context") return null;
+  if (contentType !== "text" && contentType !== "multimodal_text") {
+    skipped.add(
+      CHATGPT_SKIP_REASONS[contentType] ?? `"${contentType}" content`,
+    );
+    return null;
+  }
+
+  const parts: Part[] = [];
+  for (const part of message.content?.parts ?? []) {
+    if (typeof part !== "string") {
+      skipped.add(CHATGPT_SKIP_REASONS.multimodal_text);
+    } else if (part.trim()) {
+      parts.push(textPart(part));
+    }
+  }
+  return parts.length > 0 ? parts : null;
+};
+
+/**
+ * ChatGPT's `conversations.json`: conversations whose messages form a tree
+ * in `mapping`.
+ */
+const chatGPTFormat: ImportFormat = {
+  name: "ChatGPT export",
+  detect: (data) =>
+    Array.isArray(data) &&
+    data.length > 0 &&
+    data.every((item) => isRecord(item) && isRecord(item.mapping)),
+  parse: (data, skipped) =>
+    (data as ChatGPTConversation[]).map((conversation) => {
+      const { mapping } = conversation;
+      const kept = new Set<string>();
+      const messages: ImportedThread["messages"] = [];
+
+      // Nearest ancestor that was imported; skipped messages are bridged.
+      const keptAncestor = (id: string | null | undefined): string | null => {
+        for (let node = id ? mapping[id] : undefined; node; ) {
+          if (kept.has(node.id)) return node.id;
+          node = node.parent ? mapping[node.parent] : undefined;
+        }
+        return null;
+      };
+
+      const roots = Object.values(mapping).filter(
+        (node) => !node.parent || !mapping[node.parent],
+      );
+      const queue = [...roots];
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        queue.push(...(node.children ?? []).flatMap((id) => mapping[id] ?? []));
+
+        const role = node.message?.author?.role;
+        if (
+          !node.message ||
+          (role !== "user" && role !== "assistant" && role !== "system")
+        ) {
+          if (role === "tool") skipped.add("tool calls and results");
+          continue;
+        }
+        const parts = toChatGPTParts(node.message, skipped);
+        if (!parts) continue;
+
+        const message: UIMessage = { id: node.id, role, parts };
+        messages.push({ parentId: keptAncestor(node.parent), message });
+        kept.add(node.id);
+      }
+
+      const toMs = (seconds?: number) =>
+        seconds ? Math.round(seconds * 1000) : undefined;
+      return {
+        source: `chatgpt:${conversation.conversation_id ?? conversation.id ?? hash(JSON.stringify(mapping))}`,
+        title: conversation.title || titleFrom(messages),
+        createdAt: toMs(conversation.create_time),
+        updatedAt: toMs(conversation.update_time),
+        headId:
+          keptAncestor(conversation.current_node) ??
+          messages.at(-1)?.message.id ??
+          null,
+        messages,
+      };
+    }),
+};
+
+type OpenAIMessage = {
+  role: string;
+  content?: unknown;
+  tool_calls?: unknown[];
+};
+
+const isOpenAIMessages = (value: unknown): value is OpenAIMessage[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(
+    (item) =>
+      isRecord(item) && typeof item.role === "string" && "content" in item,
+  );
+
+const mediaTypeFromUrl = (url: string) =>
+  url.match(/^data:([^;,]+)/)?.[1] ??
+  `image/${
+    url
+      .match(/\.(png|jpe?g|gif|webp)(?:\?|$)/i)?.[1]
+      .toLowerCase()
+      .replace("jpg", "jpeg") ?? "png"
+  }`;
+
+const toOpenAIParts = (content: unknown, skipped: SkipCounter): Part[] => {
+  if (typeof content === "string")
+    return content.trim() ? [textPart(content)] : [];
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((part): Part[] => {
+    if (
+      isRecord(part) &&
+      part.type === "text" &&
+      typeof part.text === "string"
+    ) {
+      return [textPart(part.text)];
+    }
+    if (isRecord(part) && part.type === "image_url") {
+      const url = isRecord(part.image_url)
+        ? part.image_url.url
+        : part.image_url;
+      if (typeof url === "string") {
+        return [{ type: "file", mediaType: mediaTypeFromUrl(url), url }];
+      }
+    }
+    skipped.add(
+      `"${isRecord(part) ? String(part.type) : typeof part}" content parts`,
+    );
+    return [];
+  });
+};
+
+/**
+ * OpenAI chat messages: `[{ role, content }]`, `{ messages: [...] }`, or an
+ * array of either, one thread each.
+ */
+const openAIFormat: ImportFormat = {
+  name: "OpenAI messages",
+  detect: (data) => {
+    const threads =
+      Array.isArray(data) && !isOpenAIMessages(data) ? data : [data];
+    return threads.every(
+      (item) =>
+        isOpenAIMessages(item) ||
+        (isRecord(item) && isOpenAIMessages(item.messages)),
+    );
+  },
+  parse: (data, skipped) => {
+    const threads =
+      Array.isArray(data) && !isOpenAIMessages(data) ? data : [data];
+    return threads.map((item) => {
+      const list = isOpenAIMessages(item)
+        ? item
+        : (item as { messages: OpenAIMessage[] }).messages;
+      const messages: ImportedThread["messages"] = [];
+      for (const entry of list) {
+        if (entry.tool_calls?.length)
+          skipped.add("tool calls and results", entry.tool_calls.length);
+        const role =
+          entry.role === "developer"
+            ? "system"
+            : (entry.role as UIMessage["role"]);
+        if (role !== "user" && role !== "assistant" && role !== "system") {
+          skipped.add(
+            entry.role === "tool" || entry.role === "function"
+              ? "tool calls and results"
+              : `"${entry.role}" messages`,
+          );
+          continue;
+        }
+        const parts = toOpenAIParts(entry.content, skipped);
+        if (parts.length === 0) continue;
+        messages.push({
+          parentId: messages.at(-1)?.message.id ?? null,
+          message: { id: generateId(), role, parts },
+        });
+      }
+      return {
+        source: `openai:${hash(JSON.stringify(list))}`,
+        title: titleFrom(messages),
+        headId: messages.at(-1)?.message.id ?? null,
+        messages,
+      };
+    });
+  },
+};
+
+const FORMATS = [ownFormat, chatGPTFormat, openAIFormat];
+
+/**
+ * Parse an import file. Throws when it isn't JSON or not in a known format.
+ */
+export const parseImportFile = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const format = FORMATS.find((candidate) => candidate.detect(data));
+  if (!format) {
+    throw new Error(
+      "Unrecognized format. Use a JSON export from this app, ChatGPT's conversations.json or an array of OpenAI messages.",
+    );
+  }
+  const skipped = createSkipCounter();
+  const threads = format.parse(data, skipped).filter((thread) => {
+    if (thread.messages.length > 0) return true;
+    skipped.add("empty conversations");
+    return false;
+  });
+  return { format: format.name, threads, skipped: skipped.toList() };
+};
+
+/**
+ * Store parsed threads, skipping ones that were imported before (same
+ * source, or a thread with the same id).
+ */
+export const importThreads = async (file: File): Promise<ImportReport> => {
+  const { format, threads, skipped } = parseImportFile(await file.text());
+  const existing = await listStoredThreads();
+  const knownSources = new Set(
+    existing.flatMap((thread) => thread.source ?? []),
+  );
+  const knownIds = new Set(existing.map((thread) => thread.id));
+
+  const report: ImportReport = {
+    format,
+    imported: 0,
+    duplicates: 0,
+    skipped,
+    threadIds: [],
+  };
+  const updated: { id: string; updatedAt: number }[] = [];
+
+  for (const thread of threads) {
+    if (
+      knownSources.has(thread.source) ||
+      (thread.id && knownIds.has(thread.id))
+    ) {
+      report.duplicates += 1;
+      continue;
+    }
+    const id = thread.id ?? `imported-${generateId()}`;
+    const createdAt = thread.createdAt ?? Date.now();
+    const updatedAt = thread.updatedAt ?? createdAt;
+    const messages: StoredMessage[] = thread.messages.map(
+      ({ parentId, message }, index) => ({
+        threadId: id,
+        id: message.id,
+        parentId,
+        format: AI_SDK_FORMAT,
+        content: message,
+        // Stored order is creation order, so parents load before children.
+        createdAt: createdAt + index,
+        updatedAt,
+      }),
+    );
+
+    await writeStoredThread(
+      {
+        id,
+        title: thread.title,
+        status: "regular",
+        headId: thread.headId,
+        source: thread.source,
+        createdAt,
+        updatedAt,
+      },
+      messages,
+    );
+    if (thread.settings) restoreThreadSettings(id, thread.settings);
+    knownSources.add(thread.source);
+    knownIds.add(id);
+    report.imported += 1;
+    updated.push({ id, updatedAt });
+  }
+
+  report.threadIds = updated
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .map(({ id }) => id);
+  return report;
+};
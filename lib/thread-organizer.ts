@@ -0,0 +1,263 @@
+import { generateId } from "ai";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+import {
+  deleteStoredFolder,
+  deleteStoredTag,
+  listStoredFolders,
+  listStoredTags,
+  listStoredThreads,
+  saveStoredFolder,
+  saveStoredTag,
+  saveStoredThread,
+  type StoredFolder,
+  type StoredTag,
+  type StoredThread,
+} from "@/lib/thread-storage";
+
+export const TAG_COLORS = [
+  { id: "gray", label: "Gray", className: "bg-zinc-400" },
+  { id: "red", label: "Red", className: "bg-red-500" },
+  { id: "orange", label: "Orange", className: "bg-orange-500" },
+  { id: "yellow", label: "Yellow", className: "bg-yellow-400" },
+  { id: "green", label: "Green", className: "bg-green-500" },
+  { id: "blue", label: "Blue", className: "bg-blue-500" },
+  { id: "purple", label: "Purple", className: "bg-purple-500" },
+  { id: "pink", label: "Pink", className: "bg-pink-500" },
+] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number]["id"];
+
+export const tagColorClassName = (color: string) =>
+  (TAG_COLORS.find((option) => option.id === color) ?? TAG_COLORS[0]).className;
+
+export type ThreadOrganization = Pick<
+  StoredThread,
+  "pinned" | "folderId" | "tagIds"
+>;
+
+export type ThreadListFilter =
+  | { kind: "all" }
+  | { kind: "folder"; folderId: string }
+  | { kind: "tag"; tagId: string };
+
+type ThreadOrganizerState = {
+  /**
+   * Pin, folder and tags of each thread, mirrored from the thread records
+   * in IndexedDB.
+   */
+  threads: Record<string, ThreadOrganization>;
+  folders: StoredFolder[];
+  tags: StoredTag[];
+  filter: ThreadListFilter;
+  collapsedFolders: Record<string, boolean>;
+  load: () => Promise<void>;
+  setPinned: (threadId: string, pinned: boolean) => void;
+  moveToFolder: (threadId: string, folderId: string | null) => void;
+  toggleTag: (threadId: string, tagId: string) => void;
+  createFolder: (name: string) => string;
+  renameFolder: (id: string, name: string) => void;
+  deleteFolder: (id: string) => void;
+  createTag: (name: string, color: TagColor) => string;
+  updateTag: (id: string, patch: Pick<StoredTag, "name" | "color">) => void;
+  deleteTag: (id: string) => void;
+  setFilter: (filter: ThreadListFilter) => void;
+  setFolderCollapsed: (id: string, collapsed: boolean) => void;
+};
+
+const ignoreWriteError = () => undefined;
+
+export const useThreadOrganizerStore = create<ThreadOrganizerState>()(
+  persist(
+    (set, get) => {
+      const updateThread = (threadId: string, patch: ThreadOrganization) => {
+        set((state) => ({
+          threads: {
+            ...state.threads,
+            [threadId]: { ...state.threads[threadId], ...patch },
+          },
+        }));
+        void saveStoredThread(threadId, patch).catch(ignoreWriteError);
+      };
+
+      return {
+        threads: {},
+        folders: [],
+        tags: [],
+        filter: { kind: "all" },
+        collapsedFolders: {},
+        load: async () => {
+          const [threads, folders, tags] = await Promise.all([
+            listStoredThreads(),
+            listStoredFolders(),
+            listStoredTags(),
+          ]);
+          const filter = get().filter;
+          set({
+            threads: Object.fromEntries(
+              threads.map(({ id, pinned, folderId, tagIds }) => [
+                id,
+                { pinned, folderId, tagIds },
+              ]),
+            ),
+            folders,
+            tags,
+            // The filtered folder or tag may have been deleted in another tab.
+            filter:
+              (filter.kind === "folder" &&
+                !folders.some((folder) => folder.id === filter.folderId)) ||
+              (filter.kind === "tag" &&
+                !tags.some((tag) => tag.id === filter.tagId))
+                ? { kind: "all" }
+                : filter,
+          });
+        },
+        setPinned: (threadId, pinned) => updateThread(threadId, { pinned }),
+        moveToFolder: (threadId, folderId) =>
+          updateThread(threadId, { folderId }),
+        toggleTag: (threadId, tagId) => {
+          const tagIds = get().threads[threadId]?.tagIds ?? [];
+          updateThread(threadId, {
+            tagIds: tagIds.includes(tagId)
+              ? tagIds.filter((id) => id !== tagId)
+              : [...tagIds, tagId],
+          });
+        },
+        createFolder: (name) => {
+          const folder = { id: generateId(), name, createdAt: Date.now() };
+          set((state) => ({ folders: [...state.folders, folder] }));
+          void saveStoredFolder(folder).catch(ignoreWriteError);
+          return folder.id;
+        },
+        renameFolder: (id, name) => {
+          const folder = get().folders.find((item) => item.id === id);
+          if (!folder) return;
+          set((state) => ({
+            folders: state.folders.map((item) =>
+              item.id === id ? { ...item, name } : item,
+            ),
+          }));
+          void saveStoredFolder({ ...folder, name }).catch(ignoreWriteError);
+        },
+        deleteFolder: (id) => {
+          set((state) => ({
+            folders: state.folders.filter((folder) => folder.id !== id),
+            threads: Object.fromEntries(
+              Object.entries(state.threads).map(([threadId, thread]) => [
+                threadId,
+                thread.folderId === id ? { ...thread, folderId: null } : thread,
+              ]),
+            ),
+            filter:
+              state.filter.kind === "folder" && state.filter.folderId === id
+                ? { kind: "all" }
+                : state.filter,
+          }));
+          void deleteStoredFolder(id).catch(ignoreWriteError);
+        },
+        createTag: (name, color) => {
+          const tag = { id: generateId(), name, color, createdAt: Date.now() };
+          set((state) => ({ tags: [...state.tags, tag] }));
+          void saveStoredTag(tag).catch(ignoreWriteError);
+          return tag.id;
+        },
+        updateTag: (id, patch) => {
+          const tag = get().tags.find((item) => item.id === id);
+          if (!tag) return;
+          set((state) => ({
+            tags: state.tags.map((item) =>
+              item.id === id ? { ...item, ...patch } : item,
+            ),
+          }));
+          void saveStoredTag({ ...tag, ...patch }).catch(ignoreWriteError);
+        },
+        deleteTag: (id) => {
+          set((state) => ({
+            tags: state.tags.filter((tag) => tag.id !== id),
+            threads: Object.fromEntries(
+              Object.entries(state.threads).map(([threadId, thread]) => [
+                threadId,
+                thread.tagIds?.includes(id)
+                  ? {
+                      ...thread,
+                      tagIds: thread.tagIds.filter((tagId) => tagId !== id),
+                    }
+                  : thread,
+              ]),
+            ),
+            filter:
+              state.filter.kind === "tag" && state.filter.tagId === id
+                ? { kind: "all" }
+                : state.filter,
+          }));
+          void deleteStoredTag(id).catch(ignoreWriteError);
+        },
+        setFilter: (filter) => set({ filter }),
+        setFolderCollapsed: (id, collapsed) =>
+          set((state) => ({
+            collapsedFolders: { ...state.collapsedFolders, [id]: collapsed },
+          })),
+      };
+    },
+    {
+      name: "llm7_thread_list",
+      // Folders, tags and thread assignments live in IndexedDB; only the view
+      // state is kept here.
+      partialize: (state) => ({
+        filter: state.filter,
+        collapsedFolders: state.collapsedFolders,
+      }),
+    },
+  ),
+);
+
+export type ThreadListSections = {
+  pinned: string[];
+  folders: { folder: StoredFolder; threadIds: string[] }[];
+  unfiled: string[];
+};
+
+/**
+ * Split the thread list into pinned threads, folders and the rest, keeping
+ * the list's order within each and applying the filter. Empty folders are
+ * only listed without a filter, as drop targets.
+ */
+export const getThreadListSections = (
+  threadIds: readonly string[],
+  {
+    threads,
+    folders,
+    filter,
+  }: Pick<ThreadOrganizerState, "threads" | "folders" | "filter">,
+): ThreadListSections => {
+  const visible = threadIds.filter((id) => {
+    const thread = threads[id];
+    if (filter.kind === "folder") return thread?.folderId === filter.folderId;
+    if (filter.kind === "tag")
+      return thread?.tagIds?.includes(filter.tagId) ?? false;
+    return true;
+  });
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const folderOf = (id: string) => {
+    const folderId = threads[id]?.folderId;
+    return folderId && folderIds.has(folderId) ? folderId : null;
+  };
+  const unpinned = visible.filter((id) => !threads[id]?.pinned);
+
+  return {
+    pinned: visible.filter((id) => threads[id]?.pinned),
+    folders: folders
+      .map((folder) => ({
+        folder,
+        threadIds: unpinned.filter((id) => folderOf(id) === folder.id),
+      }))
+      .filter(
+        ({ folder, threadIds }) =>
+          threadIds.length > 0 ||
+          filter.kind === "all" ||
+          (filter.kind === "folder" && filter.folderId === folder.id),
+      ),
+    unfiled: unpinned.filter((id) => folderOf(id) === null),
+  };
+};
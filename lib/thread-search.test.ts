@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { searchThreads } from "@/lib/thread-search";
+import {
+  listStoredThreads,
+  loadStoredMessages,
+  type StoredThread,
+} from "@/lib/thread-storage";
+
+vi.mock("@/lib/thread-storage", () => ({
+  AI_SDK_FORMAT: "ai-sdk/v5",
+  listStoredThreads: vi.fn(),
+  loadStoredMessages: vi.fn(),
+  subscribeToStoredThreads: vi.fn(),
+}));
+
+const thread: StoredThread = {
+  id: "thread-1",
+  title: "Sourdough",
+  status: "regular",
+  createdAt: 0,
+  updatedAt: 0,
+  headId: null,
+};
+
+beforeEach(() => {
+  vi.mocked(loadStoredMessages).mockResolvedValue({
+    headId: null,
+    messages: [],
+  });
+});
+
+describe("searchThreads", () => {
+  it("builds the index again after a failed first build", async () => {
+    vi.mocked(listStoredThreads).mockRejectedValueOnce(
+      new Error("IndexedDB is unavailable"),
+    );
+    await expect(searchThreads("sourdough")).rejects.toThrow(
+      "IndexedDB is unavailable",
+    );
+
+    vi.mocked(listStoredThreads).mockResolvedValue([thread]);
+    expect(
+      (await searchThreads("sourdough")).map(({ threadId }) => threadId),
+    ).toEqual(["thread-1"]);
+  });
+});
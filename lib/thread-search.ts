@@ -0,0 +1,327 @@
+import type { UIMessage } from "ai";
+import { create } from "zustand";
+
+import {
+  AI_SDK_FORMAT,
+  listStoredThreads,
+  loadStoredMessages,
+  subscribeToStoredThreads,
+  type StoredThread,
+} from "@/lib/thread-storage";
+
+/**
+ * A piece of a snippet; `match` pieces are highlighted.
+ */
+export type SnippetSegment = { text: string; match: boolean };
+
+export type ThreadSearchResult = {
+  threadId: string;
+  title?: string;
+  status: StoredThread["status"];
+  updatedAt: number;
+  /** Best matching message; absent when only the title matched. */
+  messageId?: string;
+  role?: UIMessage["role"];
+  snippet?: SnippetSegment[];
+  /** Number of matching messages, plus one if the title matched. */
+  matches: number;
+};
+
+type SearchDocument = {
+  threadId: string;
+  /** `null` for the thread's title. */
+  messageId: string | null;
+  role?: UIMessage["role"];
+  text: string;
+  terms: Map<string, number>;
+};
+
+const TITLE_BOOST = 2;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const MAX_RESULTS = 30;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const tokenize = (text: string) =>
+  [...text.toLocaleLowerCase().matchAll(WORD)].map(([word]) => word);
+
+const countTerms = (text: string) => {
+  const terms = new Map<string, number>();
+  for (const term of tokenize(text))
+    terms.set(term, (terms.get(term) ?? 0) + 1);
+  return terms;
+};
+
+const messageText = (message: UIMessage) =>
+  message.parts
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+
+const docKey = (threadId: string, messageId: string | null) =>
+  `${threadId}\u0000${messageId ?? ""}`;
+
+/**
+ * Inverted index from terms to the titles and messages that contain them.
+ * Documents are added and removed a whole thread at a time.
+ */
+const createSearchIndex = () => {
+  const postings = new Map<string, Set<string>>();
+  const documents = new Map<string, SearchDocument>();
+  const threads = new Map<string, { thread: StoredThread; keys: string[] }>();
+
+  const removeThread = (threadId: string) => {
+    for (const key of threads.get(threadId)?.keys ?? []) {
+      for (const term of documents.get(key)?.terms.keys() ?? []) {
+        const keys = postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) postings.delete(term);
+      }
+      documents.delete(key);
+    }
+    threads.delete(threadId);
+  };
+
+  const addThread = (thread: StoredThread, messages: UIMessage[]) => {
+    removeThread(thread.id);
+    const docs: SearchDocument[] = [
+      { threadId: thread.id, messageId: null, text: thread.title ?? "" },
+      ...messages.map((message) => ({
+        threadId: thread.id,
+        messageId: message.id,
+        role: message.role,
+        text: messageText(message),
+      })),
+    ].map((doc) => ({ ...doc, terms: countTerms(doc.text) }));
+
+    const keys: string[] = [];
+    for (const doc of docs) {
+      if (doc.terms.size === 0) continue;
+      const key = docKey(doc.threadId, doc.messageId);
+      keys.push(key);
+      documents.set(key, doc);
+      for (const term of doc.terms.keys()) {
+        const entry = postings.get(term) ?? new Set<string>();
+        entry.add(key);
+        postings.set(term, entry);
+      }
+    }
+    threads.set(thread.id, { thread, keys });
+  };
+
+  /**
+   * Terms a query token matches: the last token is matched as a prefix so
+   * results show up while typing.
+   */
+  const expand = (token: string, prefix: boolean) =>
+    prefix
+      ? [...postings.keys()].filter((term) => term.startsWith(token))
+      : postings.has(token)
+        ? [token]
+        : [];
+
+  /**
+   * Score of each document containing `token`; tf-idf of its best matching
+   * term.
+   */
+  const scoreToken = (token: string, prefix: boolean) => {
+    const scores = new Map<string, number>();
+    for (const term of expand(token, prefix)) {
+      const keys = postings.get(term)!;
+      const idf = Math.log(1 + documents.size / keys.size);
+      for (const key of keys) {
+        const score = (documents.get(key)!.terms.get(term) ?? 0) * idf;
+        scores.set(key, Math.max(scores.get(key) ?? 0, score));
+      }
+    }
+    return scores;
+  };
+
+  const search = (query: string): ThreadSearchResult[] => {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    // Score of each document that contains every token.
+    const [first, ...rest] = tokens.map((token, index) =>
+      scoreToken(token, index === tokens.length - 1),
+    );
+    const scores = new Map(
+      [...first]
+        .filter(([key]) => rest.every((tokenScores) => tokenScores.has(key)))
+        .map(([key, score]) => [
+          key,
+          rest.reduce((sum, tokenScores) => sum + tokenScores.get(key)!, score),
+        ]),
+    );
+    if (scores.size === 0) return [];
+
+    const byThread = new Map<
+      string,
+      {
+        score: number;
+        matches: number;
+        best?: SearchDocument;
+        bestScore: number;
+      }
+    >();
+    for (const [key, score] of scores) {
+      const doc = documents.get(key)!;
+      const entry = byThread.get(doc.threadId) ?? {
+        score: 0,
+        matches: 0,
+        bestScore: 0,
+      };
+      entry.matches += 1;
+      if (doc.messageId === null) {
+        entry.score += score * TITLE_BOOST;
+      } else {
+        entry.score += score;
+        if (score > entry.bestScore) {
+          entry.best = doc;
+          entry.bestScore = score;
+        }
+      }
+      byThread.set(doc.threadId, entry);
+    }
+
+    return [...byThread]
+      .map(([threadId, { score, matches, best }]) => {
+        const { thread } = threads.get(threadId)!;
+        return {
+          score,
+          result: {
+            threadId,
+            title: thread.title,
+            status: thread.status,
+            updatedAt: thread.updatedAt,
+            messageId: best?.messageId ?? undefined,
+            role: best?.role,
+            snippet: best ? toSnippet(best.text, tokens) : undefined,
+            matches,
+          } satisfies ThreadSearchResult,
+        };
+      })
+      .sort(
+        (a, b) => b.score - a.score || b.result.updatedAt - a.result.updatedAt,
+      )
+      .slice(0, MAX_RESULTS)
+      .map(({ result }) => result);
+  };
+
+  return { addThread, removeThread, search };
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * The part of `text` around the first match, split into highlighted and
+ * plain segments.
+ */
+const toSnippet = (text: string, tokens: string[]): SnippetSegment[] => {
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${tokens.map(escapeRegExp).join("|")})`,
+    "giu",
+  );
+  const flat = text.replace(/\s+/g, " ").trim();
+  const first = flat.search(pattern);
+  const start =
+    first > SNIPPET_BEFORE
+      ? flat.lastIndexOf(" ", first - SNIPPET_BEFORE) + 1
+      : 0;
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const excerpt = flat.slice(start, end);
+
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index > cursor) {
+      segments.push({ text: excerpt.slice(cursor, match.index), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < excerpt.length)
+    segments.push({ text: excerpt.slice(cursor), match: false });
+
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < flat.length) segments.push({ text: "…", match: false });
+  return segments;
+};
+
+type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// `null` until a first build succeeds; a failed build is retried by the next
+// search.
+let index: SearchIndex | null = null;
+// Threads written since they were indexed, to re-index before the next search.
+const staleThreads = new Set<string>();
+let watching = false;
+let building: Promise<SearchIndex> | null = null;
+
+const indexThread = async (target: SearchIndex, thread: StoredThread) => {
+  const { messages } = await loadStoredMessages(thread.id, AI_SDK_FORMAT);
+  target.addThread(
+    thread,
+    messages.map(({ content }) => content as UIMessage),
+  );
+};
+
+const refreshIndex = async (): Promise<SearchIndex> => {
+  if (!watching) {
+    watching = true;
+    subscribeToStoredThreads((threadId) => staleThreads.add(threadId));
+  }
+  if (!index) {
+    // The build reads every thread; only writes made during it are stale.
+    staleThreads.clear();
+    const built = createSearchIndex();
+    const threads = await listStoredThreads();
+    await Promise.all(threads.map((thread) => indexThread(built, thread)));
+    index = built;
+  }
+  if (staleThreads.size === 0) return index;
+
+  const current = index;
+  const stale = [...staleThreads];
+  staleThreads.clear();
+  try {
+    const threads = await listStoredThreads();
+    for (const threadId of stale) {
+      const thread = threads.find((item) => item.id === threadId);
+      if (thread) await indexThread(current, thread);
+      else current.removeThread(threadId);
+    }
+  } catch (err) {
+    for (const threadId of stale) staleThreads.add(threadId);
+    throw err;
+  }
+  return current;
+};
+
+/**
+ * Search the titles and message text of every stored thread. The index is
+ * built on first use and threads that changed since are re-indexed before
+ * each search.
+ */
+export const searchThreads = async (query: string) => {
+  building ??= refreshIndex().finally(() => {
+    building = null;
+  });
+  return (await building).search(query);
+};
+
+type SearchFocusState = {
+  /**
+   * Message opened from a search result, to scroll to and highlight once
+   * its thread is shown.
+   */
+  focus: { threadId: string; messageId: string } | null;
+  setFocus: (focus: SearchFocusState["focus"]) => void;
+};
+
+export const useSearchFocusStore = create<SearchFocusState>()((set) => ({
+  focus: null,
+  setFocus: (focus) => set({ focus }),
+}));
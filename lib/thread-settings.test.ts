@@ -0,0 +1,199 @@
+import "fake-indexeddb/auto";
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { useContextStore } from "@/lib/context-store";
+import { useImageModeStore } from "@/lib/image-mode-store";
+import { useInstructionsStore } from "@/lib/instructions-store";
+import { useModelStore } from "@/lib/model-store";
+import { useParamsStore } from "@/lib/params-store";
+import { useProviderStore } from "@/lib/provider-store";
+import { loadThreadExport } from "@/lib/thread-export";
+import { importThreads } from "@/lib/thread-import";
+import {
+  clearThreadSettings,
+  getThreadSettings,
+  parseThreadSettings,
+  restoreThreadSettings,
+  type ThreadSettings,
+} from "@/lib/thread-settings";
+import {
+  AI_SDK_FORMAT,
+  appendStoredMessage,
+  deleteStoredThread,
+  saveStoredThread,
+} from "@/lib/thread-storage";
+
+// The stores persist to localStorage, which Node doesn't have.
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+  return items;
+});
+
+const persisted = (name: string) =>
+  JSON.parse(storage.get(name) ?? "null")?.state as Record<string, unknown>;
+
+const reset = <T>(store: {
+  getInitialState: () => T;
+  setState: (state: T, replace: true) => void;
+}) => store.setState(store.getInitialState(), true);
+
+const LOCAL_PROFILE = {
+  id: "local",
+  name: "Local",
+  baseUrl: "http://localhost:8080/v1",
+  authHeader: "Authorization",
+  defaultModel: "llama-3.1-8b",
+};
+
+const SETTINGS: ThreadSettings = {
+  systemPrompt: "Answer in French.",
+  providerId: "local",
+  model: "qwen-2.5",
+  params: { temperature: 0.2, stop: ["END"] },
+  pinnedMessageIds: ["m1"],
+};
+
+const setUp = (threadId: string) => {
+  useProviderStore.getState().saveProfile(LOCAL_PROFILE);
+  restoreThreadSettings(threadId, SETTINGS);
+  useImageModeStore.getState().setImageMode(threadId, true);
+};
+
+beforeEach(() => {
+  reset(useInstructionsStore);
+  reset(useProviderStore);
+  reset(useModelStore);
+  reset(useParamsStore);
+  reset(useContextStore);
+  reset(useImageModeStore);
+});
+
+describe("getThreadSettings", () => {
+  it("collects a thread's settings from every store", () => {
+    setUp("t1");
+
+    expect(getThreadSettings("t1")).toEqual(SETTINGS);
+  });
+
+  it("gives undefined for a thread on the defaults", () => {
+    useContextStore.getState().togglePinned("t1", "m1");
+    useContextStore.getState().togglePinned("t1", "m1");
+
+    expect(getThreadSettings("t1")).toBeUndefined();
+  });
+});
+
+describe("clearThreadSettings", () => {
+  it("forgets only the given thread", () => {
+    setUp("t1");
+    setUp("t2");
+
+    clearThreadSettings("t1");
+
+    expect(getThreadSettings("t1")).toBeUndefined();
+    expect(useImageModeStore.getState().threads).toEqual({ t2: true });
+    expect(getThreadSettings("t2")).toEqual(SETTINGS);
+  });
+});
+
+describe("parseThreadSettings", () => {
+  it("keeps well-formed fields", () => {
+    expect(parseThreadSettings(SETTINGS)).toEqual(SETTINGS);
+  });
+
+  it("drops fields of the wrong type", () => {
+    expect(
+      parseThreadSettings({
+        systemPrompt: "  ",
+        providerId: 3,
+        model: "gpt-4o",
+        params: { temperature: "hot", seed: 7, reasoningEffort: "extreme" },
+        pinnedMessageIds: ["m1", 2],
+      }),
+    ).toEqual({ model: "gpt-4o", params: { seed: 7 } });
+  });
+
+  it.each([undefined, null, "settings", [], {}, { params: {} }])(
+    "gives undefined for %j",
+    (value) => {
+      expect(parseThreadSettings(value)).toBeUndefined();
+    },
+  );
+});
+
+describe("restoreThreadSettings", () => {
+  it("leaves out a provider that doesn't exist here, with its model", () => {
+    restoreThreadSettings("t1", SETTINGS);
+
+    expect(getThreadSettings("t1")).toEqual({
+      systemPrompt: "Answer in French.",
+      params: { temperature: 0.2, stop: ["END"] },
+      pinnedMessageIds: ["m1"],
+    });
+  });
+
+  it("keeps the model for the built-in provider", () => {
+    restoreThreadSettings("t1", { providerId: "llm7", model: "gpt-4o" });
+
+    expect(getThreadSettings("t1")).toEqual({
+      providerId: "llm7",
+      model: "gpt-4o",
+    });
+  });
+});
+
+describe("thread lifecycle", () => {
+  const storeThread = async (threadId: string) => {
+    await saveStoredThread(threadId, { title: "Chat" });
+    await appendStoredMessage({
+      threadId,
+      id: "m1",
+      parentId: null,
+      format: AI_SDK_FORMAT,
+      content: {
+        id: "m1",
+        role: "user",
+        parts: [{ type: "text", text: "Bonjour" }],
+      },
+    });
+  };
+
+  it("clears the settings when the thread is deleted", async () => {
+    await storeThread("deleted");
+    setUp("deleted");
+
+    await deleteStoredThread("deleted");
+
+    expect(getThreadSettings("deleted")).toBeUndefined();
+    expect(useImageModeStore.getState().threads).toEqual({});
+    expect(persisted("llm7_instructions").threadPrompts).toEqual({});
+    expect(persisted("llm7_provider_profiles").threadProviders).toEqual({});
+    expect(persisted("llm7_model_selection").threadModels).toEqual({});
+    expect(persisted("llm7_generation_params").threadParams).toEqual({});
+    expect(persisted("llm7_context_settings").pinned).toEqual({});
+  });
+
+  it("exports the settings and restores them on import", async () => {
+    await storeThread("exported");
+    setUp("exported");
+
+    const data = await loadThreadExport("exported");
+    expect(data.thread.settings).toEqual(SETTINGS);
+
+    await deleteStoredThread("exported");
+    const report = await importThreads(
+      new File([JSON.stringify(data)], "chat.json", {
+        type: "application/json",
+      }),
+    );
+
+    expect(report.threadIds).toEqual(["exported"]);
+    expect(getThreadSettings("exported")).toEqual(SETTINGS);
+  });
+});
@@ -0,0 +1,163 @@
+import { useContextStore } from "@/lib/context-store";
+import {
+  REASONING_EFFORTS,
+  type GenerationParams,
+} from "@/lib/generation-params";
+import { useImageModeStore } from "@/lib/image-mode-store";
+import { useInstructionsStore } from "@/lib/instructions-store";
+import { useModelStore } from "@/lib/model-store";
+import { useParamsStore } from "@/lib/params-store";
+import { useProviderStore } from "@/lib/provider-store";
+import { LLM7_PROVIDER_ID } from "@/lib/providers";
+
+/**
+ * A thread's own settings, which the stores keep by thread id. Travels with
+ * the thread in JSON exports.
+ */
+export type ThreadSettings = {
+  systemPrompt?: string;
+  providerId?: string;
+  model?: string;
+  params?: GenerationParams;
+  /** Messages `keep-pinned` always sends. */
+  pinnedMessageIds?: string[];
+};
+
+const without = <T>(record: Record<string, T>, key: string) => {
+  if (!(key in record)) return record;
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Drop unset fields; undefined when none are left.
+const compact = <T extends object>(value: T): T | undefined => {
+  const entries = Object.entries(value).filter(
+    ([, field]) => field !== undefined,
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+};
+
+/**
+ * Settings stored for a thread, or undefined when it only uses the defaults.
+ */
+export const getThreadSettings = (
+  threadId: string,
+): ThreadSettings | undefined => {
+  const pinned = useContextStore.getState().pinned[threadId];
+  return compact<ThreadSettings>({
+    systemPrompt: useInstructionsStore.getState().threadPrompts[threadId],
+    providerId: useProviderStore.getState().threadProviders[threadId],
+    model: useModelStore.getState().threadModels[threadId],
+    params: useParamsStore.getState().threadParams[threadId],
+    pinnedMessageIds: pinned?.length ? pinned : undefined,
+  });
+};
+
+/**
+ * Read settings from an import file, dropping fields of the wrong type.
+ */
+export const parseThreadSettings = (
+  value: unknown,
+): ThreadSettings | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { systemPrompt, providerId, model, params, pinnedMessageIds } = value;
+
+  const parsedParams = isRecord(params)
+    ? compact<GenerationParams>({
+        temperature:
+          typeof params.temperature === "number"
+            ? params.temperature
+            : undefined,
+        topP: typeof params.topP === "number" ? params.topP : undefined,
+        maxTokens:
+          typeof params.maxTokens === "number" ? params.maxTokens : undefined,
+        stop: isStringArray(params.stop) ? params.stop : undefined,
+        seed: typeof params.seed === "number" ? params.seed : undefined,
+        reasoningEffort: REASONING_EFFORTS.find(
+          (effort) => effort === params.reasoningEffort,
+        ),
+      })
+    : undefined;
+
+  return compact<ThreadSettings>({
+    systemPrompt:
+      typeof systemPrompt === "string" && systemPrompt.trim()
+        ? systemPrompt
+        : undefined,
+    providerId: typeof providerId === "string" ? providerId : undefined,
+    model: typeof model === "string" && model ? model : undefined,
+    params: parsedParams,
+    pinnedMessageIds:
+      isStringArray(pinnedMessageIds) && pinnedMessageIds.length > 0
+        ? pinnedMessageIds
+        : undefined,
+  });
+};
+
+/**
+ * Apply imported settings to a thread. A provider profile that doesn't exist
+ * here is left out along with the model, which belongs to that provider; the
+ * thread then uses the default provider.
+ */
+export const restoreThreadSettings = (
+  threadId: string,
+  { systemPrompt, providerId, model, params, pinnedMessageIds }: ThreadSettings,
+) => {
+  const knownProvider =
+    providerId === undefined ||
+    providerId === LLM7_PROVIDER_ID ||
+    useProviderStore
+      .getState()
+      .profiles.some((profile) => profile.id === providerId);
+
+  if (systemPrompt) {
+    useInstructionsStore.getState().setThreadPrompt(threadId, systemPrompt);
+  }
+  if (providerId && knownProvider) {
+    useProviderStore.setState((state) => ({
+      threadProviders: { ...state.threadProviders, [threadId]: providerId },
+    }));
+  }
+  if (model && knownProvider) {
+    useModelStore.setState((state) => ({
+      threadModels: { ...state.threadModels, [threadId]: model },
+    }));
+  }
+  if (params) useParamsStore.getState().setThreadParams(threadId, params);
+  if (pinnedMessageIds?.length) {
+    useContextStore.setState((state) => ({
+      pinned: { ...state.pinned, [threadId]: pinnedMessageIds },
+    }));
+  }
+};
+
+/**
+ * Forget everything the stores keep for a thread, e.g. after it is deleted.
+ */
+export const clearThreadSettings = (threadId: string) => {
+  useInstructionsStore.setState((state) => ({
+    threadPrompts: without(state.threadPrompts, threadId),
+  }));
+  useProviderStore.setState((state) => ({
+    threadProviders: without(state.threadProviders, threadId),
+  }));
+  useModelStore.setState((state) => ({
+    threadModels: without(state.threadModels, threadId),
+  }));
+  useParamsStore.setState((state) => ({
+    threadParams: without(state.threadParams, threadId),
+  }));
+  useContextStore.setState((state) => ({
+    pinned: without(state.pinned, threadId),
+  }));
+  useImageModeStore.setState((state) => ({
+    threads: without(state.threads, threadId),
+  }));
+};
@@ -0,0 +1,463 @@
+import {
+  createElement,
+  useMemo,
+  useState,
+  type FC,
+  type PropsWithChildren,
+} from "react";
+import {
+  RuntimeAdapterProvider,
+  useAssistantApi,
+  type ThreadHistoryAdapter,
+  type ThreadMessage,
+  type unstable_RemoteThreadListAdapter as RemoteThreadListAdapter,
+} from "@assistant-ui/react";
+
+import {
+  FOLDERS_STORE,
+  isChatDatabaseAvailable,
+  MESSAGES_STORE,
+  runRequest,
+  runTransaction,
+  TAGS_STORE,
+  THREADS_STORE,
+} from "@/lib/chat-db";
+import { clearThreadSettings } from "@/lib/thread-settings";
+
+// Format of messages appended without a format adapter.
+const THREAD_MESSAGE_FORMAT = "aui/thread-message";
+
+/**
+ * Format of messages stored by the AI SDK runtime: `content` is a
+ * `UIMessage`.
+ */
+export const AI_SDK_FORMAT = "ai-sdk/v5";
+
+export type StoredThread = {
+  id: string;
+  title?: string;
+  status: "regular" | "archived";
+  /**
+   * Last message of the branch that was shown; restored on load.
+   */
+  headId?: string | null;
+  /**
+   * Where an imported thread came from, e.g. `chatgpt:<conversation id>`;
+   * used to skip re-imports.
+   */
+  source?: string;
+  /** Shown above other threads. */
+  pinned?: boolean;
+  folderId?: string | null;
+  tagIds?: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredFolder = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+
+export type StoredTag = {
+  id: string;
+  name: string;
+  /** One of `TAG_COLORS`. */
+  color: string;
+  createdAt: number;
+};
+
+/**
+ * One message of a thread. `content` is the message in `format`, e.g. an AI
+ * SDK `UIMessage` for `ai-sdk/v5`.
+ */
+export type StoredMessage = {
+  threadId: string;
+  id: string;
+  parentId: string | null;
+  format: string;
+  content: unknown;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type StoredThreadListener = (threadId: string) => void;
+
+const listeners = new Set<StoredThreadListener>();
+
+/**
+ * Be notified after a thread or any of its messages is written or deleted in
+ * this tab.
+ */
+export const subscribeToStoredThreads = (listener: StoredThreadListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyStoredThread = (threadId: string) => {
+  for (const listener of listeners) listener(threadId);
+};
+
+/**
+ * Threads, most recently active first.
+ */
+export const listStoredThreads = async (): Promise<StoredThread[]> => {
+  if (!isChatDatabaseAvailable()) return [];
+  const threads = await runRequest<StoredThread[]>(
+    THREADS_STORE,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getStoredThread = async (id: string) => {
+  if (!isChatDatabaseAvailable()) return undefined;
+  return runRequest<StoredThread | undefined>(
+    THREADS_STORE,
+    "readonly",
+    (store) => store.get(id),
+  );
+};
+
+/**
+ * Create a thread, or update an existing one with `patch`.
+ */
+export const saveStoredThread = (
+  id: string,
+  patch: Partial<Omit<StoredThread, "id" | "createdAt">> = {},
+) =>
+  runTransaction([THREADS_STORE], "readwrite", (transaction) => {
+    const store = transaction.objectStore(THREADS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const now = Date.now();
+      const existing = request.result as StoredThread | undefined;
+      store.put({
+        status: "regular",
+        createdAt: now,
+        ...existing,
+        ...patch,
+        id,
+        updatedAt: patch.updatedAt ?? existing?.updatedAt ?? now,
+      } satisfies StoredThread);
+    };
+  }).then(() => notifyStoredThread(id));
+
+/**
+ * Write a complete thread with its messages, e.g. when importing.
+ */
+export const writeStoredThread = (
+  thread: StoredThread,
+  messages: StoredMessage[],
+) =>
+  runTransaction(
+    [THREADS_STORE, MESSAGES_STORE],
+    "readwrite",
+    (transaction) => {
+      transaction.objectStore(THREADS_STORE).put(thread);
+      const store = transaction.objectStore(MESSAGES_STORE);
+      for (const message of messages) store.put(message);
+    },
+  ).then(() => notifyStoredThread(thread.id));
+
+/**
+ * Delete a thread with all of its messages and its settings.
+ */
+export const deleteStoredThread = (id: string) =>
+  runTransaction(
+    [THREADS_STORE, MESSAGES_STORE],
+    "readwrite",
+    (transaction) => {
+      transaction.objectStore(THREADS_STORE).delete(id);
+      const messages = transaction.objectStore(MESSAGES_STORE);
+      const keys = messages.index("threadId").getAllKeys(id);
+      keys.onsuccess = () => {
+        for (const key of keys.result) messages.delete(key);
+      };
+    },
+  ).then(() => {
+    clearThreadSettings(id);
+    notifyStoredThread(id);
+  });
+
+export const listStoredFolders = async (): Promise<StoredFolder[]> => {
+  if (!isChatDatabaseAvailable()) return [];
+  const folders = await runRequest<StoredFolder[]>(
+    FOLDERS_STORE,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return folders.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveStoredFolder = (folder: StoredFolder) =>
+  runRequest(FOLDERS_STORE, "readwrite", (store) => store.put(folder));
+
+export const listStoredTags = async (): Promise<StoredTag[]> => {
+  if (!isChatDatabaseAvailable()) return [];
+  const tags = await runRequest<StoredTag[]>(TAGS_STORE, "readonly", (store) =>
+    store.getAll(),
+  );
+  return tags.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveStoredTag = (tag: StoredTag) =>
+  runRequest(TAGS_STORE, "readwrite", (store) => store.put(tag));
+
+/**
+ * Delete a folder or tag and update the threads that referenced it in the
+ * same transaction.
+ */
+const deleteAndUnlink = (
+  storeName: string,
+  id: string,
+  unlink: (thread: StoredThread) => StoredThread | null,
+) => {
+  const changed: string[] = [];
+  return runTransaction(
+    [storeName, THREADS_STORE],
+    "readwrite",
+    (transaction) => {
+      transaction.objectStore(storeName).delete(id);
+      const cursor = transaction.objectStore(THREADS_STORE).openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result) return;
+        const thread = unlink(cursor.result.value as StoredThread);
+        if (thread) {
+          cursor.result.update(thread);
+          changed.push(thread.id);
+        }
+        cursor.result.continue();
+      };
+    },
+  ).then(() => changed.forEach(notifyStoredThread));
+};
+
+/**
+ * Delete a folder; its threads are kept, outside of any folder.
+ */
+export const deleteStoredFolder = (id: string) =>
+  deleteAndUnlink(FOLDERS_STORE, id, (thread) =>
+    thread.folderId === id ? { ...thread, folderId: null } : null,
+  );
+
+export const deleteStoredTag = (id: string) =>
+  deleteAndUnlink(TAGS_STORE, id, (thread) =>
+    thread.tagIds?.includes(id)
+      ? { ...thread, tagIds: thread.tagIds.filter((tagId) => tagId !== id) }
+      : null,
+  );
+
+/**
+ * Messages of a thread in one format, oldest first, plus the head to
+ * restore.
+ */
+export const loadStoredMessages = async (threadId: string, format: string) => {
+  if (!isChatDatabaseAvailable()) return { headId: undefined, messages: [] };
+  const [thread, messages] = await Promise.all([
+    getStoredThread(threadId),
+    runRequest<StoredMessage[]>(MESSAGES_STORE, "readonly", (store) =>
+      store.index("threadId").getAll(threadId),
+    ),
+  ]);
+  const inFormat = messages
+    .filter((message) => message.format === format)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const headId = inFormat.some((message) => message.id === thread?.headId)
+    ? thread?.headId
+    : undefined;
+  return { headId, messages: inFormat };
+};
+
+/**
+ * Add a message to a thread (or replace it, keeping its position) and make
+ * it the thread's head.
+ */
+export const appendStoredMessage = (
+  message: Omit<StoredMessage, "createdAt" | "updatedAt">,
+) =>
+  runTransaction(
+    [THREADS_STORE, MESSAGES_STORE],
+    "readwrite",
+    (transaction) => {
+      const now = Date.now();
+      const messages = transaction.objectStore(MESSAGES_STORE);
+      const existing = messages.get([message.threadId, message.id]);
+      existing.onsuccess = () => {
+        messages.put({
+          ...message,
+          createdAt:
+            (existing.result as StoredMessage | undefined)?.createdAt ?? now,
+          updatedAt: now,
+        } satisfies StoredMessage);
+      };
+      touchThread(transaction, message.threadId, {
+        headId: message.id,
+        updatedAt: now,
+      });
+    },
+  ).then(() => notifyStoredThread(message.threadId));
+
+/**
+ * Replace the content of a message that is already stored, e.g. after it was
+ * continued, and make it the thread's head. Unknown messages are ignored;
+ * they are stored once the runtime appends them.
+ */
+export const updateStoredMessage = async (
+  threadId: string,
+  id: string,
+  content: unknown,
+) => {
+  if (!isChatDatabaseAvailable()) return;
+  await runTransaction(
+    [THREADS_STORE, MESSAGES_STORE],
+    "readwrite",
+    (transaction) => {
+      const messages = transaction.objectStore(MESSAGES_STORE);
+      const existing = messages.get([threadId, id]);
+      existing.onsuccess = () => {
+        const message = existing.result as StoredMessage | undefined;
+        if (!message) return;
+        messages.put({ ...message, content, updatedAt: Date.now() });
+        touchThread(transaction, threadId, { headId: id });
+      };
+    },
+  );
+  notifyStoredThread(threadId);
+};
+
+const touchThread = (
+  transaction: IDBTransaction,
+  threadId: string,
+  patch: Pick<StoredThread, "headId"> & { updatedAt?: number },
+) => {
+  const threads = transaction.objectStore(THREADS_STORE);
+  const request = threads.get(threadId);
+  request.onsuccess = () => {
+    const thread = request.result as StoredThread | undefined;
+    if (thread) threads.put({ ...thread, ...patch });
+  };
+};
+
+const toMetadata = (thread: StoredThread) => ({
+  status: thread.status,
+  remoteId: thread.id,
+  title: thread.title,
+  externalId: undefined,
+});
+
+type AssistantApi = ReturnType<typeof useAssistantApi>;
+
+/**
+ * Message history of the thread the API is scoped to. Messages are stored as
+ * they are rather than through the format adapter's encoder, which drops
+ * file parts (attachments, generated images).
+ */
+const createHistoryAdapter = (api: AssistantApi): ThreadHistoryAdapter => {
+  const load = async (format: string) => {
+    const threadId = api.threadListItem().getState().remoteId;
+    if (!threadId) return { messages: [] };
+    const { headId, messages } = await loadStoredMessages(threadId, format);
+    return {
+      headId,
+      messages: messages.map(({ parentId, content }) => ({
+        parentId,
+        message: content,
+      })),
+    };
+  };
+
+  const append = async (
+    format: string,
+    parentId: string | null,
+    message: { id: string },
+  ) => {
+    const { remoteId } = await api.threadListItem().initialize();
+    await appendStoredMessage({
+      threadId: remoteId,
+      id: message.id,
+      parentId,
+      format,
+      content: message,
+    }).catch(() => undefined);
+  };
+
+  return {
+    load: async () => {
+      const { headId, messages } = await load(THREAD_MESSAGE_FORMAT);
+      return {
+        headId,
+        messages: messages as {
+          parentId: string | null;
+          message: ThreadMessage;
+        }[],
+      };
+    },
+    append: ({ parentId, message }) =>
+      append(THREAD_MESSAGE_FORMAT, parentId, message),
+    withFormat: <TMessage>(formatAdapter: { format: string }) => ({
+      load: async () => {
+        const { headId, messages } = await load(formatAdapter.format);
+        return {
+          headId,
+          messages: messages as {
+            parentId: string | null;
+            message: TMessage;
+          }[],
+        };
+      },
+      append: ({
+        parentId,
+        message,
+      }: {
+        parentId: string | null;
+        message: TMessage;
+      }) => append(formatAdapter.format, parentId, message as { id: string }),
+    }),
+  };
+};
+
+const ThreadStorageProvider: FC<PropsWithChildren> = ({ children }) => {
+  const api = useAssistantApi();
+  const [history] = useState(() => createHistoryAdapter(api));
+  const adapters = useMemo(() => ({ history }), [history]);
+
+  return createElement(
+    RuntimeAdapterProvider,
+    { adapters } as RuntimeAdapterProvider.Props,
+    children,
+  );
+};
+
+/**
+ * Thread list backed by IndexedDB. A thread's remote id is its local id, so
+ * per-thread settings keyed by thread id survive a reload.
+ */
+export const indexedDBThreadListAdapter: RemoteThreadListAdapter = {
+  list: async () => {
+    const threads = await listStoredThreads().catch(() => []);
+    return { threads: threads.map(toMetadata) };
+  },
+  initialize: async (threadId) => {
+    if (isChatDatabaseAvailable()) {
+      await saveStoredThread(threadId).catch(() => undefined);
+    }
+    return { remoteId: threadId, externalId: undefined };
+  },
+  rename: (remoteId, title) => saveStoredThread(remoteId, { title }),
+  archive: (remoteId) => saveStoredThread(remoteId, { status: "archived" }),
+  unarchive: (remoteId) => saveStoredThread(remoteId, { status: "regular" }),
+  delete: (remoteId) => deleteStoredThread(remoteId),
+  // Titles come from `ChatTitleManager`.
+  generateTitle: async () => new ReadableStream(),
+  fetch: async (remoteId) => {
+    const thread = await getStoredThread(remoteId);
+    if (!thread) throw new Error("Thread not found");
+    return toMetadata(thread);
+  },
+  unstable_Provider: ThreadStorageProvider,
+};
@@ -0,0 +1,222 @@
+import type { UIMessage, UIMessageChunk } from "ai";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  composeMiddleware,
+  injectHeaders,
+  lookupTier,
+  routeImages,
+  type TransportMiddleware,
+  type TransportNext,
+  type TransportRequest,
+} from "@/lib/transport-middleware";
+
+const userMessage = (text: string): UIMessage => ({
+  id: "user-1",
+  role: "user",
+  parts: [{ type: "text", text }],
+});
+
+const request = (patch: Partial<TransportRequest> = {}): TransportRequest => ({
+  chatId: "chat",
+  trigger: "submit-message",
+  messages: [userMessage("Hi")],
+  endpoint: { baseUrl: "https://api.llm7.io/v1", llm7: true },
+  headers: {},
+  body: {},
+  abortSignal: undefined,
+  ...patch,
+});
+
+const textStream = (...deltas: string[]) =>
+  new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      controller.enqueue({ type: "text-start", id: "text" });
+      for (const delta of deltas)
+        controller.enqueue({ type: "text-delta", id: "text", delta });
+      controller.enqueue({ type: "text-end", id: "text" });
+      controller.close();
+    },
+  });
+
+const readText = async (stream: ReadableStream<UIMessageChunk>) => {
+  let text = "";
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    if (value.type === "text-delta") text += value.delta;
+  }
+};
+
+/** A handler that records the request it gets and answers "ok". */
+const recordingHandler = () =>
+  vi.fn<TransportNext>(async () => textStream("ok"));
+
+describe("composeMiddleware", () => {
+  it("passes rewritten requests on in order", async () => {
+    const handler = recordingHandler();
+    const addHeader =
+      (name: string): TransportMiddleware =>
+      (req, next) =>
+        next({
+          ...req,
+          headers: {
+            ...req.headers,
+            [name]: Object.keys(req.headers).join(","),
+          },
+        });
+
+    await composeMiddleware(
+      [addHeader("X-First"), addHeader("X-Second")],
+      handler,
+    )(request());
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0]![0].headers).toEqual({
+      "X-First": "",
+      "X-Second": "X-First",
+    });
+  });
+
+  it("lets middleware transform the stream, first middleware last", async () => {
+    const wrap =
+      (mark: string): TransportMiddleware =>
+      async (req, next) =>
+        (await next(req)).pipeThrough(
+          new TransformStream<UIMessageChunk, UIMessageChunk>({
+            transform(chunk, controller) {
+              controller.enqueue(
+                chunk.type === "text-delta"
+                  ? { ...chunk, delta: `${mark}(${chunk.delta})` }
+                  : chunk,
+              );
+            },
+          }),
+        );
+
+    const stream = await composeMiddleware(
+      [wrap("a"), wrap("b")],
+      recordingHandler(),
+    )(request());
+
+    expect(await readText(stream)).toBe("a(b(ok))");
+  });
+
+  it("lets middleware answer without calling the rest of the pipeline", async () => {
+    const handler = recordingHandler();
+    const later = vi.fn<TransportMiddleware>((req, next) => next(req));
+    const canned: TransportMiddleware = async () => textStream("canned");
+
+    const stream = await composeMiddleware([canned, later], handler)(request());
+
+    expect(await readText(stream)).toBe("canned");
+    expect(later).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("injectHeaders", () => {
+  it("adds the resolved headers under the request's own", async () => {
+    const handler = recordingHandler();
+    const getHeaders = () => ({
+      Authorization: "Bearer token",
+      "X-Client": "app",
+    });
+
+    await injectHeaders(getHeaders)(
+      request({ headers: { "X-Client": "test" } }),
+      handler,
+    );
+
+    expect(handler.mock.calls[0]![0].headers).toEqual({
+      Authorization: "Bearer token",
+      "X-Client": "test",
+    });
+  });
+
+  it("prefers the endpoint's own headers", async () => {
+    const handler = recordingHandler();
+    const getHeaders = vi.fn(() => ({ Authorization: "Bearer token" }));
+    const endpoint = {
+      baseUrl: "https://example.com/v1",
+      headers: { "X-Auth-Token": "key" },
+      llm7: false,
+    };
+
+    await injectHeaders(getHeaders)(request({ endpoint }), handler);
+
+    expect(getHeaders).not.toHaveBeenCalled();
+    expect(handler.mock.calls[0]![0].headers).toEqual({
+      "X-Auth-Token": "key",
+    });
+  });
+});
+
+describe("lookupTier", () => {
+  it("looks up the tier of signed-in LLM7 requests only", async () => {
+    const handler = recordingHandler();
+    const getTier = vi.fn(async () => 2);
+    const headers = { Authorization: "Bearer token" };
+
+    await lookupTier(getTier)(request({ headers }), handler);
+    await lookupTier(getTier)(request(), handler);
+    await lookupTier(getTier)(
+      request({
+        headers,
+        endpoint: { baseUrl: "https://example.com/v1", llm7: false },
+      }),
+      handler,
+    );
+
+    expect(getTier).toHaveBeenCalledExactlyOnceWith("Bearer token");
+    expect(handler.mock.calls.map(([req]) => req.sub)).toEqual([
+      2,
+      undefined,
+      undefined,
+    ]);
+  });
+});
+
+describe("routeImages", () => {
+  it("answers image requests and passes the rest on", async () => {
+    const handler = recordingHandler();
+    const middleware = routeImages(async (req) =>
+      req.messages.some((message) =>
+        message.parts.some(
+          (part) => part.type === "text" && part.text.startsWith("/image"),
+        ),
+      )
+        ? textStream("image")
+        : null,
+    );
+
+    expect(
+      await readText(
+        await middleware(
+          request({ messages: [userMessage("/image a cat")] }),
+          handler,
+        ),
+      ),
+    ).toBe("image");
+    expect(await readText(await middleware(request(), handler))).toBe("ok");
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it("never generates images for continuations or other endpoints", async () => {
+    const generate = vi.fn(async () => textStream("image"));
+    const middleware = routeImages(generate);
+    const continuation = [
+      userMessage("/image a cat"),
+      { id: "assistant-1", role: "assistant" as const, parts: [] },
+    ];
+
+    await middleware(request({ messages: continuation }), recordingHandler());
+    await middleware(
+      request({ endpoint: { baseUrl: "https://example.com/v1", llm7: false } }),
+      recordingHandler(),
+    );
+
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+import type { UIMessage, UIMessageChunk } from "ai";
+
+import type {
+  ChatEndpoint,
+  ChatRequestMetadata,
+} from "@/lib/browser-chat-transport";
+
+/**
+ * An outgoing chat request as it passes through the middleware pipeline.
+ * Middleware rewrites it by passing a changed copy to `next`.
+ */
+export type TransportRequest<UI_MESSAGE extends UIMessage = UIMessage> = {
+  chatId: string;
+  trigger: "submit-message" | "regenerate-message";
+  /**
+   * The thread as UI messages. An assistant message last means "continue
+   * that message".
+   */
+  messages: UI_MESSAGE[];
+  endpoint: ChatEndpoint;
+  /**
+   * Request headers; credentials are added by the transport's first
+   * middleware.
+   */
+  headers: Record<string, string>;
+  /**
+   * Extra request body properties, merged into the chat completion request.
+   */
+  body: Record<string, unknown>;
+  metadata?: ChatRequestMetadata;
+  abortSignal: AbortSignal | undefined;
+  /**
+   * LLM7 subscription tier, once looked up.
+   */
+  sub?: number;
+};
+
+export type TransportNext<UI_MESSAGE extends UIMessage = UIMessage> = (
+  request: TransportRequest<UI_MESSAGE>,
+) => Promise<ReadableStream<UIMessageChunk>>;
+
+/**
+ * One step of the pipeline. It can rewrite the request before calling
+ * `next`, observe or transform the stream `next` returns, or skip `next` and
+ * answer with a stream of its own.
+ *
+ * ```ts
+ * const logChunks: TransportMiddleware = async (request, next) => {
+ *   const stream = await next(request);
+ *   return stream.pipeThrough(
+ *     new TransformStream({
+ *       transform(chunk, controller) {
+ *         console.debug(request.chatId, chunk);
+ *         controller.enqueue(chunk);
+ *       },
+ *     }),
+ *   );
+ * };
+ * ```
+ */
+export type TransportMiddleware<UI_MESSAGE extends UIMessage = UIMessage> = (
+  request: TransportRequest<UI_MESSAGE>,
+  next: TransportNext<UI_MESSAGE>,
+) => Promise<ReadableStream<UIMessageChunk>>;
+
+/**
+ * Chain middleware in order, ending in `handler`. The first middleware sees
+ * the request first and the stream last.
+ */
+export const composeMiddleware = <UI_MESSAGE extends UIMessage>(
+  middleware: TransportMiddleware<UI_MESSAGE>[],
+  handler: TransportNext<UI_MESSAGE>,
+): TransportNext<UI_MESSAGE> =>
+  middleware.reduceRight<TransportNext<UI_MESSAGE>>(
+    (next, step) => (request) => step(request, next),
+    handler,
+  );
+
+export type HeaderResolver = () =>
+  | Promise<Record<string, string>>
+  | Record<string, string>;
+
+/**
+ * The `Authorization` header of a request, if any.
+ */
+export const getAuthHeader = (
+  headers: Record<string, string>,
+): string | undefined => headers.Authorization ?? headers.authorization;
+
+/**
+ * Add credentials under the request's own headers: the endpoint's, or those
+ * from `getHeaders` for endpoints without their own.
+ */
+export const injectHeaders =
+  <UI_MESSAGE extends UIMessage = UIMessage>(
+    getHeaders?: HeaderResolver,
+  ): TransportMiddleware<UI_MESSAGE> =>
+  async (request, next) => {
+    const baseHeaders = request.endpoint.headers ?? (await getHeaders?.());
+    return next({
+      ...request,
+      headers: { ...baseHeaders, ...request.headers },
+    });
+  };
+
+/**
+ * Set `sub` to the LLM7 subscription tier `getTier` finds for the request's
+ * credentials. Other endpoints have no tiers.
+ */
+export const lookupTier =
+  <UI_MESSAGE extends UIMessage = UIMessage>(
+    getTier: (authHeader: string) => Promise<number | undefined>,
+  ): TransportMiddleware<UI_MESSAGE> =>
+  async (request, next) => {
+    const authHeader = getAuthHeader(request.headers);
+    const sub =
+      authHeader && request.endpoint.llm7
+        ? await getTier(authHeader)
+        : undefined;
+    return next({ ...request, sub });
+  };
+
+/**
+ * Answer image generation requests to the LLM7 API with the stream from
+ * `generate`, which resolves to `null` for requests that are not for images.
+ * Continuations always go on to the chat completion.
+ */
+export const routeImages =
+  <UI_MESSAGE extends UIMessage = UIMessage>(
+    generate: (
+      request: TransportRequest<UI_MESSAGE>,
+    ) => Promise<ReadableStream<UIMessageChunk> | null>,
+  ): TransportMiddleware<UI_MESSAGE> =>
+  async (request, next) => {
+    if (
+      request.messages.at(-1)?.role === "assistant" ||
+      !request.endpoint.llm7
+    ) {
+      return next(request);
+    }
+    return (await generate(request)) ?? next(request);
+  };